@@ -0,0 +1,446 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "@openzeppelin/contracts/utils/math/SignedMath.sol";
+import "./vpop.sol";
+
+/**
+ * @title VPOPConsensus
+ * @dev Settles the consensus of WeightedMedian and TrimmedMean markets, which unlike the weighted
+ * mean cannot be kept up to date on every reveal. Anyone proposes the answer and the weights are
+ * counted against it, over several calls for large markets, like VPOP.resolveBatch does for the
+ * winning threshold. Also tallies the weight of every option of categorical markets, whose
+ * plurality option is their consensus, reveals the positions of bundle markets and keeps the
+ * weighted mean of each of their questions, and serves the distances from consensus that winning
+ * thresholds are computed from. Every VPOP deploys its own instance in its constructor and only accepts
+ * consensus positions from it.
+ */
+contract VPOPConsensus {
+    // Partial weights counted for a proposal
+    struct Progress {
+        uint256 processedCommitments; // Commitment IDs 1..processedCommitments have been counted
+        uint256 weightBelowLower;
+        uint256 weightAtLower;
+        uint256 weightAboveUpper;
+        uint256 weightAtUpper;
+        int256 innerSum; // Sum of position * weight strictly between lower and upper
+    }
+
+    // A question of a bundle market, answered with a position in lowerBound..upperBound
+    struct Question {
+        int128 lowerBound;
+        int128 upperBound;
+    }
+
+    uint256 public constant BUNDLE_DISTANCE_SCALE = 10000; // Distance across the whole range of a question, see bundleDistance
+
+    VPOP public immutable vpop;
+
+    // Progress by market ID and hash of the proposed lower and upper positions
+    mapping(uint256 => mapping(bytes32 => Progress)) private progresses;
+    // Revealed weight by market ID and option of categorical markets, read through getOptionWeights
+    mapping(uint256 => mapping(uint256 => uint256)) private optionWeights;
+    // Questions each creator defined for their next bundle market, see defineQuestions
+    mapping(address => Question[]) private pendingQuestions;
+    // Questions by market ID of bundle markets, read through getBundleQuestions
+    mapping(uint256 => Question[]) private bundleQuestions;
+    // Sum of position * weight by market ID and question of bundle markets
+    mapping(uint256 => mapping(uint256 => int256)) private questionSums;
+    // Consensus by market ID and question of bundle markets, updated on every reveal so distances
+    // read it rather than recomputing each question's mean, see getBundleConsensus
+    mapping(uint256 => mapping(uint256 => int256)) private questionConsensus;
+    // Revealed positions by market ID and commitment ID of bundle markets, one per question
+    mapping(uint256 => mapping(uint256 => int128[])) private bundlePositions;
+
+    event ConsensusProgressed(
+        uint256 indexed marketId,
+        int128 lower,
+        int128 upper,
+        uint256 processedCommitments,
+        uint256 totalCommitments
+    );
+
+    event BundleQuestionsAssigned(uint256 indexed marketId, Question[] questions);
+
+    event BundleRevealed(
+        uint256 indexed marketId,
+        uint256 indexed commitmentId,
+        address caller,
+        int128[] positions
+    );
+
+    constructor() {
+        vpop = VPOP(msg.sender);
+    }
+
+    /**
+     * @dev Settles the consensus of a WeightedMedian or TrimmedMean market once it can be resolved.
+     * Each call counts up to maxCommitments further commitments for the proposal; the call that
+     * counts the last one checks it with consensusPosition and stores the consensus in VPOP.
+     * Progress is kept per proposal, so competing proposals cannot reset each other.
+     * @param marketId The ID of the market
+     * @param lower The weighted median, or the revealed position where the weight trimmed from the bottom ends
+     * @param upper Ignored for WeightedMedian, the revealed position where the weight trimmed from the top ends
+     * @param maxCommitments The maximum number of commitments to count in this call
+     * @return settled True if this call settled the consensus
+     */
+    function settle(uint256 marketId, int128 lower, int128 upper, uint256 maxCommitments) external returns (bool settled) {
+        VPOP.MarketPhase phase = vpop.getMarketPhase(marketId);
+        VPOP.Market memory market = vpop.getMarket(marketId);
+        (, , , uint256 totalWeight, , , , uint256 totalCommitments, uint256 revealedCommitments, , , , , ) = vpop.marketConsensus(marketId);
+
+        require(market.consensusMode != VPOP.ConsensusMode.WeightedMean, "Consensus mode needs no settling");
+        require(!vpop.consensusSettled(marketId), "Consensus already settled");
+        require(phase != VPOP.MarketPhase.Cancelled, "Market cancelled");
+        // The same readiness resolve requires, so no reveal can change the weights afterwards
+        require(
+            phase == VPOP.MarketPhase.AwaitingResolution ||
+            (phase == VPOP.MarketPhase.Reveal && totalCommitments == revealedCommitments),
+            "Market not ready for resolution"
+        );
+        require(revealedCommitments > 0, "No revealed commitments to resolve");
+        require(maxCommitments > 0, "Batch size must be greater than 0");
+
+        // Continue counting from where earlier calls for this proposal stopped
+        bytes32 proposal = keccak256(abi.encode(lower, upper));
+        Progress memory progress = progresses[marketId][proposal];
+        uint256 end = Math.min(totalCommitments, progress.processedCommitments + maxCommitments);
+
+        for (uint256 i = progress.processedCommitments; i < end; i++) {
+            (, uint256 weight, , int128 position, , bool revealed, , , , ) = vpop.commitments(marketId, i + 1);
+            if (revealed) {
+                if (position < lower) progress.weightBelowLower += weight;
+                if (position == lower) progress.weightAtLower += weight;
+                if (position > upper) progress.weightAboveUpper += weight;
+                if (position == upper) progress.weightAtUpper += weight;
+                if (position > lower && position < upper) progress.innerSum += position * int256(weight);
+            }
+        }
+        progress.processedCommitments = end;
+
+        if (end < totalCommitments) {
+            progresses[marketId][proposal] = progress;
+            emit ConsensusProgressed(marketId, lower, upper, end, totalCommitments);
+            return false;
+        }
+        delete progresses[marketId][proposal];
+
+        vpop.settleConsensus(marketId, consensusPosition(
+            market.consensusMode, market.trimRate, tickSize(market.decimals), totalWeight, lower, upper, progress
+        ));
+        return true;
+    }
+
+    /**
+     * @dev Returns the consensus of a proposal from the weights counted around it, reverting
+     * unless the proposal is the only one that fits them.
+     * WeightedMedian accepts only the lowest revealed position with at least half of the total
+     * weight at or below it. TrimmedMean drops trimmed = totalWeight * trimRate / 10000 from each
+     * end, accepts only the revealed positions where the dropped weight ends and takes the mean
+     * of the weight kept between them. Either is rounded to the nearest tick, see VPOPMath.roundedMean.
+     * @param mode The consensus mode of the market
+     * @param trimRate The share of the weight dropped from each end in basis points
+     * @param tick The tick of the market, see tickSize
+     * @param totalWeight The total weight of the revealed commitments
+     * @param lower The proposed median, or lowest position keeping weight
+     * @param upper The proposed highest position keeping weight, ignored by WeightedMedian
+     * @param progress The weights counted around lower and upper
+     */
+    function consensusPosition(
+        VPOP.ConsensusMode mode,
+        uint256 trimRate,
+        uint256 tick,
+        uint256 totalWeight,
+        int128 lower,
+        int128 upper,
+        Progress memory progress
+    ) public view returns (int256) {
+        uint256 atOrBelowLower = progress.weightBelowLower + progress.weightAtLower;
+        if (mode == VPOP.ConsensusMode.WeightedMedian) {
+            require(2 * progress.weightBelowLower < totalWeight && 2 * atOrBelowLower >= totalWeight, "Not the weighted median");
+            return vpop.math().roundedMean(lower, 1, tick);
+        }
+
+        uint256 trimmed = totalWeight * trimRate / 10000;
+        uint256 atOrAboveUpper = progress.weightAboveUpper + progress.weightAtUpper;
+        require(
+            progress.weightBelowLower <= trimmed && trimmed < atOrBelowLower &&
+            progress.weightAboveUpper <= trimmed && trimmed < atOrAboveUpper,
+            "Not where the trimmed weight ends"
+        );
+        // Less than half of the weight is trimmed from each end, so lower <= upper here
+        if (lower == upper) return vpop.math().roundedMean(lower, 1, tick);
+        int256 keptSum = progress.innerSum + int256(atOrBelowLower - trimmed) * lower + int256(atOrAboveUpper - trimmed) * upper;
+        return vpop.math().roundedMean(keptSum, totalWeight - 2 * trimmed, tick);
+    }
+
+    /**
+     * @dev Adds the weight of a revealed commitment to its option of a categorical market.
+     * Only that option gained weight, so either it or the previous plurality leads afterwards,
+     * the lower option on a tie. Only callable by VPOP, on every categorical reveal.
+     * @param marketId The ID of the market
+     * @param option The revealed option
+     * @param weight The weight of the revealed commitment
+     * @param plurality The plurality option before this reveal
+     * @return The plurality option after this reveal
+     */
+    function recordOption(uint256 marketId, uint256 option, uint256 weight, uint256 plurality) external returns (uint256) {
+        require(msg.sender == address(vpop), "Only VPOP can record options");
+        uint256 optionWeight = optionWeights[marketId][option] += weight;
+        uint256 pluralityWeight = optionWeights[marketId][plurality];
+        return optionWeight > pluralityWeight || (optionWeight == pluralityWeight && option < plurality) ? option : plurality;
+    }
+
+    /**
+     * @dev Returns the revealed weight of every option of a categorical market, indexed by option
+     * @param marketId The ID of the market
+     * @param optionCount The number of options, upperBound + 1
+     */
+    function getOptionWeights(uint256 marketId, uint256 optionCount) public view returns (uint256[] memory weights) {
+        weights = new uint256[](optionCount);
+        for (uint256 i = 0; i < optionCount; i++) {
+            weights[i] = optionWeights[marketId][i];
+        }
+    }
+
+    /**
+     * @dev Returns the rank of every option of a categorical market, see rankOptions
+     * @param marketId The ID of the market
+     * @param optionCount The number of options, upperBound + 1
+     */
+    function getOptionRanks(uint256 marketId, uint256 optionCount) public view returns (uint256[] memory) {
+        return rankOptions(getOptionWeights(marketId, optionCount));
+    }
+
+    /**
+     * @dev Returns the distance of a position from the consensus of a market, as VPOP measures
+     * revealed commitments: the rank of its option in categorical markets, the absolute distance
+     * otherwise. Bundle markets have no single position, see getBundleDistance.
+     * @param marketId The ID of the market
+     * @param position The position to measure
+     */
+    function getPositionDistance(uint256 marketId, int256 position) external view returns (uint256) {
+        VPOP.Market memory market = vpop.getMarket(marketId);
+        require(market.marketType != VPOP.MarketType.Bundle, "Bundles score whole commitments");
+        if (market.marketType == VPOP.MarketType.Categorical) {
+            uint256[] memory ranks = getOptionRanks(marketId, uint256(market.upperBound) + 1);
+            require(position >= 0 && uint256(position) < ranks.length, "Option out of range");
+            return ranks[uint256(position)];
+        }
+        (, , , , , , , , , , int256 consensus, , , ) = vpop.marketConsensus(marketId);
+        return SignedMath.abs(position - consensus);
+    }
+
+    /**
+     * @dev Returns the rank of every option by weight, which stands in for the distance from
+     * consensus in categorical markets: 0 for the plurality option, 1 for the runner-up and so on.
+     * Options with equal weight are ranked by index, lowest first, so every option has its own rank.
+     * @param weights The revealed weight of every option, indexed by option
+     */
+    function rankOptions(uint256[] memory weights) public pure returns (uint256[] memory ranks) {
+        ranks = new uint256[](weights.length);
+        for (uint256 i = 0; i < weights.length; i++) {
+            for (uint256 j = 0; j < weights.length; j++) {
+                if (weights[j] > weights[i] || (weights[j] == weights[i] && j < i)) ranks[i]++;
+            }
+        }
+    }
+
+    /**
+     * @dev Defines the questions of the caller's next bundle market, which VPOP.initializeMarket
+     * assigns to it. Replaces any questions the caller defined before.
+     * @param lowerBounds The lower bound of each question
+     * @param upperBounds The upper bound of each question
+     */
+    function defineQuestions(int128[] calldata lowerBounds, int128[] calldata upperBounds) external {
+        require(lowerBounds.length == upperBounds.length, "Array lengths must match");
+        require(lowerBounds.length >= 2 && lowerBounds.length <= vpop.MAX_OPTIONS(), "Invalid question count");
+        Question[] storage questions = pendingQuestions[msg.sender];
+        delete pendingQuestions[msg.sender];
+        for (uint256 i = 0; i < lowerBounds.length; i++) {
+            require(lowerBounds[i] < upperBounds[i], "Lower bound must be less than upper bound");
+            questions.push(Question(lowerBounds[i], upperBounds[i]));
+        }
+    }
+
+    /**
+     * @dev Assigns the questions a creator defined to their new bundle market. Only callable by
+     * VPOP, when a bundle market is created.
+     * @param marketId The ID of the new market
+     * @param creator The creator of the market
+     * @param questionCount The number of questions of the market, upperBound + 1
+     */
+    function assignQuestions(uint256 marketId, address creator, uint256 questionCount) external {
+        require(msg.sender == address(vpop), "Only VPOP can assign questions");
+        Question[] storage questions = pendingQuestions[creator];
+        require(questions.length == questionCount, "Bundle questions not defined");
+        for (uint256 i = 0; i < questionCount; i++) {
+            bundleQuestions[marketId].push(questions[i]);
+        }
+        delete pendingQuestions[creator];
+
+        emit BundleQuestionsAssigned(marketId, bundleQuestions[marketId]);
+    }
+
+    /**
+     * @dev Reveals a commitment of a bundle market, one position per question. The commitment hash
+     * is VPOP.getCommitmentHash of position 0 and the salt getBundleSalt(positions, salt), so VPOP
+     * checks the positions along with the rest of the commitment. It reveals through
+     * VPOP.revealFor, so CommitmentRevealed logs the caller rather than this contract.
+     * @param marketId The ID of the market
+     * @param commitmentId The ID of the commitment to reveal
+     * @param commitmentHash The hash of the commitment to reveal
+     * @param positions The original position of every question
+     * @param salt The original 32-byte salt
+     */
+    function revealBundle(
+        uint256 marketId,
+        uint256 commitmentId,
+        bytes32 commitmentHash,
+        int128[] calldata positions,
+        bytes32 salt
+    ) external {
+        Question[] storage questions = bundleQuestions[marketId];
+        require(questions.length > 0, "Not a bundle market");
+        require(positions.length == questions.length, "One position per question");
+        for (uint256 i = 0; i < positions.length; i++) {
+            require(positions[i] >= questions[i].lowerBound && positions[i] <= questions[i].upperBound, "Position out of bounds");
+        }
+        vpop.revealFor(msg.sender, marketId, commitmentId, commitmentHash, 0, getBundleSalt(positions, salt));
+
+        (, uint256 weight, , , , , , , , ) = vpop.commitments(marketId, commitmentId);
+        (, , , uint256 totalWeight, , , , , , , , , , ) = vpop.marketConsensus(marketId);
+        VPOPMath math = vpop.math();
+        uint256 tick = tickSize(vpop.getMarket(marketId).decimals);
+        for (uint256 i = 0; i < positions.length; i++) {
+            questionSums[marketId][i] += positions[i] * int256(weight);
+            questionConsensus[marketId][i] = math.roundedMean(questionSums[marketId][i], totalWeight, tick);
+        }
+        bundlePositions[marketId][commitmentId] = positions;
+
+        emit BundleRevealed(marketId, commitmentId, msg.sender, positions);
+    }
+
+    /**
+     * @dev Returns the salt a bundle commitment hash is built with, binding every position to it
+     * @param positions The position of every question
+     * @param salt The 32-byte salt kept secret until reveal
+     */
+    function getBundleSalt(int128[] calldata positions, bytes32 salt) public pure returns (bytes32) {
+        return keccak256(abi.encode(positions, salt));
+    }
+
+    /**
+     * @dev Returns the questions of a bundle market, empty for other markets
+     * @param marketId The ID of the market
+     */
+    function getBundleQuestions(uint256 marketId) external view returns (Question[] memory) {
+        return bundleQuestions[marketId];
+    }
+
+    /**
+     * @dev Returns the revealed positions of a bundle commitment, empty until it is revealed
+     * @param marketId The ID of the market
+     * @param commitmentId The ID of the commitment
+     */
+    function getBundlePositions(uint256 marketId, uint256 commitmentId) external view returns (int128[] memory) {
+        return bundlePositions[marketId][commitmentId];
+    }
+
+    /**
+     * @dev Returns the consensus of every question of a bundle market, the weighted mean of
+     * the positions revealed for it so far, rounded to the nearest tick, see VPOPMath.roundedMean
+     * @param marketId The ID of the market
+     */
+    function getBundleConsensus(uint256 marketId) public view returns (int256[] memory consensus) {
+        consensus = new int256[](bundleQuestions[marketId].length);
+        for (uint256 i = 0; i < consensus.length; i++) {
+            consensus[i] = questionConsensus[marketId][i];
+        }
+    }
+
+    /**
+     * @dev Returns the distance from consensus of a revealed bundle commitment, see bundleDistance.
+     * VPOP measures bundle commitments with it when resolving and claiming.
+     * @param marketId The ID of the market
+     * @param commitmentId The ID of the commitment
+     */
+    function getBundleDistance(uint256 marketId, uint256 commitmentId) external view returns (uint256) {
+        return bundleDistance(bundleQuestions[marketId], getBundleConsensus(marketId), bundlePositions[marketId][commitmentId]);
+    }
+
+    /**
+     * @dev Returns the sum over every question of the distance of a position from the question's
+     * consensus, normalized to BUNDLE_DISTANCE_SCALE across its range and rounded down, so each
+     * question counts the same whatever its range
+     * @param questions The questions of the market
+     * @param consensus The consensus of every question
+     * @param positions The revealed position of every question
+     */
+    function bundleDistance(
+        Question[] memory questions,
+        int256[] memory consensus,
+        int128[] memory positions
+    ) public pure returns (uint256 distance) {
+        for (uint256 i = 0; i < positions.length; i++) {
+            uint256 range = uint256(int256(questions[i].upperBound) - questions[i].lowerBound);
+            distance += SignedMath.abs(positions[i] - consensus[i]) * BUNDLE_DISTANCE_SCALE / range;
+        }
+    }
+
+    /**
+     * @dev Computes the exact winning threshold resolve will accept for the current reveals:
+     * the distance from consensus at the target rank. Walks every commitment, so large
+     * markets should page through getRevealedDistances instead. VPOP.autoResolve uses it.
+     * @param marketId The ID of the market
+     * @return The winning threshold
+     */
+    function getWinningThreshold(uint256 marketId) external view returns (uint256) {
+        (, , , , , , , uint256 totalCommitments, uint256 revealedCommitments, , , , , ) = vpop.marketConsensus(marketId);
+        require(revealedCommitments > 0, "No revealed commitments to resolve");
+
+        uint256[] memory distances = getRevealedDistances(marketId, 0, totalCommitments);
+        return vpop.math().selectKth(distances, vpop.getTargetRank(marketId) - 1);
+    }
+
+    /**
+     * @dev Returns the distances from consensus of the revealed commitments among
+     * commitment IDs offset + 1 to offset + limit, in commitment ID order. The consensus is
+     * the weighted mean of the reveals so far, or the settled consensus for the other modes.
+     * Categorical markets return the rank of each commitment's option instead, bundle markets
+     * the bundleDistance of each commitment.
+     * @param marketId The ID of the market
+     * @param offset The number of commitment IDs to skip
+     * @param limit The maximum number of commitment IDs to scan
+     */
+    function getRevealedDistances(uint256 marketId, uint256 offset, uint256 limit) public view returns (uint256[] memory distances) {
+        (, , , , , , , uint256 totalCommitments, , , int256 consensus, , , ) = vpop.marketConsensus(marketId);
+        VPOP.Market memory market = vpop.getMarket(marketId);
+        require(market.consensusMode == VPOP.ConsensusMode.WeightedMean || vpop.consensusSettled(marketId), "Consensus not settled");
+        uint256[] memory ranks;
+        if (market.marketType == VPOP.MarketType.Categorical) {
+            ranks = getOptionRanks(marketId, uint256(market.upperBound) + 1);
+        }
+        Question[] memory questions = bundleQuestions[marketId];
+        int256[] memory bundleConsensus = getBundleConsensus(marketId);
+
+        uint256 end = Math.min(offset + limit, totalCommitments);
+        uint256 start = Math.min(offset, end);
+        distances = new uint256[](end - start);
+        uint256 count = 0;
+        for (uint256 i = start; i < end; i++) {
+            (, , , int128 position, , bool revealed, , , , ) = vpop.commitments(marketId, i + 1);
+            if (!revealed) continue;
+            if (questions.length > 0) {
+                distances[count++] = bundleDistance(questions, bundleConsensus, bundlePositions[marketId][i + 1]);
+            } else {
+                distances[count++] = ranks.length > 0 ? ranks[uint128(position)] : SignedMath.abs(position - consensus);
+            }
+        }
+        // Trim the array to the number of revealed commitments found
+        assembly ("memory-safe") {
+            mstore(distances, count)
+        }
+    }
+}
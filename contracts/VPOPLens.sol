@@ -0,0 +1,217 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./vpop.sol";
+
+/**
+ * @title VPOPLens
+ * @dev Read-only views over a VPOP deployment for wallets and frontends: a user's
+ * commitments with their status and claimable amounts, whether a position wins, market
+ * listings filtered by phase or token, and weight previews.
+ */
+contract VPOPLens {
+    VPOP public immutable vpop;
+
+    struct CommitmentView {
+        uint256 marketId;
+        uint256 commitmentId;
+        VPOP.MarketPhase phase;
+        address token;
+        uint128 wager;
+        uint128 weight;
+        int128 position; // 0 until revealed
+        bool revealed;
+        bool claimed;
+        uint256 claimable; // what claim or claimRefund would pay now
+    }
+
+    struct MarketView {
+        uint256 marketId;
+        VPOP.MarketPhase phase;
+        VPOP.Market market;
+        uint256 totalWagers;
+        uint256 totalWinnings;
+        uint256 totalCommitments;
+        uint256 revealedCommitments;
+        int256 consensusPosition;
+    }
+
+    // Each filter applies only when its flag is set, so ETH markets can be selected with the zero address
+    struct MarketFilter {
+        bool byPhase;
+        VPOP.MarketPhase phase;
+        bool byToken;
+        address token;
+    }
+
+    constructor(VPOP _vpop) {
+        vpop = _vpop;
+    }
+
+    /**
+     * @dev Returns a page of a user's commitments, oldest first
+     * @param user The commitment owner
+     * @param offset The number of commitments to skip
+     * @param limit The maximum number of commitments to return
+     * @return views The commitments with their status and claimable amount
+     * @return total The number of commitments the user has made
+     */
+    function getUserCommitments(
+        address user,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (CommitmentView[] memory views, uint256 total) {
+        VPOP.CommitmentRef[] memory refs = vpop.getUserCommitmentRefs(user, offset, limit);
+        views = new CommitmentView[](refs.length);
+        for (uint256 i = 0; i < refs.length; i++) {
+            views[i] = getCommitmentView(refs[i].marketId, refs[i].commitmentId);
+        }
+        total = vpop.getUserCommitmentCount(user);
+    }
+
+    /**
+     * @dev Returns the status of one commitment
+     * @param marketId The ID of the market
+     * @param commitmentId The ID of the commitment
+     */
+    function getCommitmentView(uint256 marketId, uint256 commitmentId) public view returns (CommitmentView memory view_) {
+        (uint128 wager, uint128 weight, , int128 position, , bool revealed, bool claimed, , , ) = vpop.commitments(marketId, commitmentId);
+        view_ = CommitmentView({
+            marketId: marketId,
+            commitmentId: commitmentId,
+            phase: vpop.getMarketPhase(marketId),
+            token: vpop.getMarket(marketId).token,
+            wager: wager,
+            weight: weight,
+            position: position,
+            revealed: revealed,
+            claimed: claimed,
+            claimable: getClaimableAmount(marketId, commitmentId)
+        });
+    }
+
+    /**
+     * @dev Returns what claim or claimRefund would pay for a commitment right now, 0 if neither would pay
+     * @param marketId The ID of the market
+     * @param commitmentId The ID of the commitment
+     */
+    function getClaimableAmount(uint256 marketId, uint256 commitmentId) public view returns (uint256) {
+        (uint128 wager, , , int128 position, , bool revealed, bool claimed, address owner, uint128 stake, uint128 creatorFee) =
+            vpop.commitments(marketId, commitmentId);
+        if (owner == address(0) || claimed) return 0;
+
+        (, uint256 totalWinnings, , , , bool resolved, bool cancelled, , , uint256 winningThreshold, , , , uint256 winningScore) =
+            vpop.marketConsensus(marketId);
+        if (cancelled) return uint256(stake) + creatorFee;
+        if (!resolved || !revealed) return 0;
+
+        // The same distance claim measures, see VPOP._commitmentDistance
+        VPOP.Market memory market = vpop.getMarket(marketId);
+        uint256 distance = market.marketType == VPOP.MarketType.Bundle
+            ? vpop.consensusModule().getBundleDistance(marketId, commitmentId)
+            : vpop.consensusModule().getPositionDistance(marketId, position);
+        if (distance > winningThreshold) return 0;
+
+        // The same split claim pays: the wager times the payout score, over the sum resolve recorded
+        uint256 score = vpop.math().payoutScore(market.payoutCurve, market.payoutParameter, distance, winningThreshold);
+        return Math.mulDiv(wager * score, totalWinnings, winningScore);
+    }
+
+    /**
+     * @dev Returns whether a position is a winning position of a resolved market, measured by
+     * VPOPConsensus.getPositionDistance. Reverts for bundle markets, which score whole commitments
+     * rather than single positions, and for options outside a categorical market.
+     * @param marketId The ID of the market
+     * @param position The position to check
+     */
+    function isWinningPosition(uint256 marketId, int256 position) external view returns (bool) {
+        (, , , , , bool resolved, , , , uint256 winningThreshold, , , , ) = vpop.marketConsensus(marketId);
+        require(resolved, "Market not resolved");
+        return vpop.consensusModule().getPositionDistance(marketId, position) <= winningThreshold;
+    }
+
+    /**
+     * @dev Returns the weight a commit would get, computed the same way commit does
+     * @param marketId The ID of the market
+     * @param wager The wager of the commit, 100000 in whitelisted markets
+     * @param timestamp The time of the commit, within the commit phase
+     */
+    function previewWeight(uint256 marketId, uint256 wager, uint256 timestamp) external view returns (uint256) {
+        VPOP.Market memory market = vpop.getMarket(marketId);
+        require(market.createdAt > 0, "Market does not exist");
+        (uint256 commitStart, uint256 commitEnd, ) = vpop.getPhaseTimestamps(marketId);
+        require(timestamp >= commitStart && timestamp <= commitEnd, "Timestamp outside the commit phase");
+        return vpop.math().weight(
+            market.decayCurve,
+            market.decayFactor,
+            market.decayParameter,
+            market.commitDuration,
+            timestamp - commitStart,
+            wager
+        );
+    }
+
+    /**
+     * @dev Returns the markets matching a filter among market IDs offset + 1 to offset + limit.
+     * Pages are bounded by the markets scanned rather than matched, so a page can hold fewer
+     * than limit markets; continue from nextOffset until it reaches getMarketCount.
+     * @param filter The phase and token to match
+     * @param offset The number of market IDs to skip
+     * @param limit The maximum number of market IDs to scan
+     * @return views The matching markets
+     * @return nextOffset The offset of the next page
+     */
+    function getMarkets(
+        MarketFilter calldata filter,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (MarketView[] memory views, uint256 nextOffset) {
+        nextOffset = Math.min(offset + limit, vpop.getMarketCount());
+        views = new MarketView[](nextOffset > offset ? nextOffset - offset : 0);
+
+        uint256 count = 0;
+        for (uint256 marketId = offset + 1; marketId <= nextOffset; marketId++) {
+            MarketView memory view_ = getMarketView(marketId);
+            if (filter.byPhase && view_.phase != filter.phase) continue;
+            if (filter.byToken && view_.market.token != filter.token) continue;
+            views[count++] = view_;
+        }
+        // Trim the array to the number of matches
+        assembly ("memory-safe") {
+            mstore(views, count)
+        }
+    }
+
+    /**
+     * @dev Returns a market with its phase and consensus totals
+     * @param marketId The ID of the market
+     */
+    function getMarketView(uint256 marketId) public view returns (MarketView memory view_) {
+        (
+            uint256 totalWagers,
+            uint256 totalWinnings,
+            ,
+            ,
+            ,
+            ,
+            ,
+            uint256 totalCommitments,
+            uint256 revealedCommitments,
+            ,
+            int256 consensusPosition,
+            ,
+            ,
+        ) = vpop.marketConsensus(marketId);
+        view_ = MarketView({
+            marketId: marketId,
+            phase: vpop.getMarketPhase(marketId),
+            market: vpop.getMarket(marketId),
+            totalWagers: totalWagers,
+            totalWinnings: totalWinnings,
+            totalCommitments: totalCommitments,
+            revealedCommitments: revealedCommitments,
+            consensusPosition: consensusPosition
+        });
+    }
+}
@@ -0,0 +1,148 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "@openzeppelin/contracts/utils/math/SignedMath.sol";
+import "./vpop.sol";
+
+// Decimals of every position, bound and consensus, see tickSize
+uint8 constant POSITION_DECIMALS = 18;
+
+/**
+ * @dev Returns the tick a market settles its consensus on. Positions are fixed-point numbers with
+ * POSITION_DECIMALS decimals, and a market with decimals decimals rounds its consensus to
+ * multiples of 10^(POSITION_DECIMALS - decimals): one whole unit at 0, one contract unit at 18.
+ * @param decimals The decimals of the market, at most POSITION_DECIMALS
+ */
+function tickSize(uint8 decimals) pure returns (uint256) {
+    return 10 ** (POSITION_DECIMALS - decimals);
+}
+
+/**
+ * @title VPOPMath
+ * @dev Pure math behind VPOP's weights and resolution: how a wager's weight decays over the
+ * commit phase, how a winning position scores, how a weighted mean rounds to a tick and which
+ * distance sits at a given rank. Every VPOP deploys its own instance in its constructor.
+ */
+contract VPOPMath {
+    // Score of an InverseDistance position at the winning threshold, see payoutScore
+    uint256 public constant PAYOUT_SCALE = 1e18;
+    // Bits the winning threshold is scored in, see payoutScore
+    uint256 public constant SCORE_BITS = 32;
+
+    /**
+     * @dev Returns the weight of a wager committed elapsed seconds into the commit phase, at least 1.
+     * Linear, Step and Cliff compute wager * (1 - decayFactor * elapsed / commitDuration), with elapsed
+     * rounded down to the last step for Step, and to 0 or the whole commit phase for Cliff.
+     * Exponential halves the wager every half-life and interpolates linearly within the current one.
+     * @param curve The shape of the decay
+     * @param decayFactor The share of the weight lost by the end of the commit phase in basis points
+     * @param decayParameter The half-life in seconds for Exponential, the step or cliff in basis points of the commit phase otherwise
+     * @param commitDuration The duration of the commit phase in seconds
+     * @param elapsed The seconds since the commit phase opened
+     * @param wager The wager of the commitment
+     */
+    function weight(
+        VPOP.DecayCurve curve,
+        uint256 decayFactor,
+        uint256 decayParameter,
+        uint256 commitDuration,
+        uint256 elapsed,
+        uint256 wager
+    ) external pure returns (uint256 result) {
+        if (curve == VPOP.DecayCurve.Exponential) {
+            result = wager >> (elapsed / decayParameter);
+            result -= Math.mulDiv(result, elapsed % decayParameter, 2 * decayParameter);
+        } else {
+            uint256 mark = Math.mulDiv(commitDuration, decayParameter, 10000);
+            if (curve == VPOP.DecayCurve.Step && mark > 0) {
+                elapsed -= elapsed % mark;
+            } else if (curve == VPOP.DecayCurve.Cliff) {
+                elapsed = elapsed < mark ? 0 : commitDuration;
+            }
+            // decay is scaled by 1e4 (basis points) so the result keeps precision
+            uint256 decay = Math.mulDiv(decayFactor, elapsed, commitDuration); // 0-10000
+            result = wager * (10000 - decay) / 10000;
+        }
+        if (result == 0) result = 1;
+    }
+
+    /**
+     * @dev Returns the payout score of a winning position, which claim weighs its share of the winnings by.
+     * Binary scores 1, LinearFalloff winningThreshold + 1 - distance, Tiered 2 within parameter basis
+     * points of the threshold and 1 beyond, InverseDistance PAYOUT_SCALE * (winningThreshold + 1) /
+     * (distance + 1), which measures the distance against the threshold so it scores the same at any
+     * decimals, from PAYOUT_SCALE at the threshold up. Every winning position scores at least 1.
+     * Thresholds wider than SCORE_BITS bits are scored with distance and threshold shifted down to
+     * SCORE_BITS bits, so every score stays below 2^92: a uint128 wager times it stays below 2^220,
+     * and resolve can add up the shares of 2^36 winners without overflowing.
+     * @param curve The payout curve of the market
+     * @param parameter The inner band of Tiered in basis points of the winning threshold
+     * @param distance The distance of the position from the consensus, at most winningThreshold
+     * @param winningThreshold The winning threshold of the market
+     */
+    function payoutScore(
+        VPOP.PayoutCurve curve,
+        uint256 parameter,
+        uint256 distance,
+        uint256 winningThreshold
+    ) external pure returns (uint256) {
+        uint256 bits = Math.log2(winningThreshold) + 1;
+        if (bits > SCORE_BITS) {
+            distance >>= bits - SCORE_BITS;
+            winningThreshold >>= bits - SCORE_BITS;
+        }
+        if (curve == VPOP.PayoutCurve.LinearFalloff) return winningThreshold + 1 - distance;
+        if (curve == VPOP.PayoutCurve.Tiered) return distance * 10000 <= winningThreshold * parameter ? 2 : 1;
+        if (curve == VPOP.PayoutCurve.InverseDistance) return Math.mulDiv(PAYOUT_SCALE, winningThreshold + 1, distance + 1);
+        return 1;
+    }
+
+    /**
+     * @dev Returns the weighted mean sum / totalWeight rounded to the nearest multiple of tick.
+     * Halves round away from zero, so means mirrored around zero stay mirrored. A single position
+     * is rounded to its tick with a totalWeight of 1.
+     * @param sum The sum of position * weight
+     * @param totalWeight The total weight, greater than 0
+     * @param tick The tick of the market, see tickSize
+     */
+    function roundedMean(int256 sum, uint256 totalWeight, uint256 tick) external pure returns (int256 mean) {
+        uint256 divisor = totalWeight * tick;
+        mean = sum / int256(divisor);
+        if (2 * SignedMath.abs(sum % int256(divisor)) >= divisor) {
+            mean += sum < 0 ? -1 : int256(1);
+        }
+        mean *= int256(tick);
+    }
+
+    /**
+     * @dev Returns the k-th smallest value (0-indexed) using an in-place quickselect
+     */
+    function selectKth(uint256[] memory values, uint256 k) external pure returns (uint256) {
+        uint256 lo = 0;
+        uint256 hi = values.length - 1;
+        while (lo < hi) {
+            uint256 pivot = values[lo + (hi - lo) / 2];
+            uint256 i = lo;
+            uint256 j = hi;
+            while (i <= j) {
+                while (values[i] < pivot) i++;
+                while (values[j] > pivot) j--;
+                if (i <= j) {
+                    (values[i], values[j]) = (values[j], values[i]);
+                    i++;
+                    if (j == 0) break;
+                    j--;
+                }
+            }
+            if (k <= j) {
+                hi = j;
+            } else if (k >= i) {
+                lo = i;
+            } else {
+                return values[k];
+            }
+        }
+        return values[k];
+    }
+}
@@ -7,85 +7,197 @@ import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 import "@openzeppelin/contracts/utils/math/Math.sol";
+import "@openzeppelin/contracts/utils/math/SignedMath.sol";
+import "./VPOPConsensus.sol";
+import "./VPOPMath.sol";
 
 /**
  * @title VPOP
  */
 contract VPOP is Ownable {
     using SafeERC20 for IERC20;
-    uint256 public platformFeeRate; // Fee rate in basis points (1% = 100)
-    uint256 public creatorFeeRate; // Fee rate in basis points (1% = 100)
-    uint256 public apeFeeRate; // Fee rate in basis points (1% = 100)
+    uint256 public maxCreatorFeeRate; // Highest creator fee rate a market can choose, in basis points (1% = 100)
     uint256 public marketCreateFee; // Fee rate in basis points (1% = 100)
-    address public apeOwner = 0x5AC40A1175715F1c27e3FEAa8C79664040717679; // Address that receives ape fees
     bool private allowPublicMarkets;
+    uint256 public constant RESOLUTION_GRACE_PERIOD = 30 days; // Time after the reveal phase before an unresolved market can be cancelled
+    uint8 public constant COMMITMENT_HASH_VERSION = 2; // Version of the commitment hash format, see getCommitmentHash
+    uint256 public constant MAX_AUTO_RESOLVE_COMMITMENTS = 500; // Largest market autoResolve will compute the threshold for
+    uint256 public constant MAX_TOTAL_FEE_RATE = 2500; // Cap on the sum of all fee rates in basis points (25%)
+    uint256 public constant SETTINGS_TIMELOCK = 2 days; // Delay between queueing and executing platform settings
+    uint256 public constant MAX_FEE_RECIPIENTS = 8; // Maximum number of recipients in a fee split
+    uint256 public constant MAX_OPTIONS = 32; // Maximum number of options in a categorical market
+
+    // A recipient of the protocol fee split and its share of each wager
+    struct FeeRecipient {
+        address recipient;
+        uint16 rate; // Fee rate in basis points (1% = 100)
+    }
+
+    // Locates a commitment, see getUserCommitmentRefs
+    struct CommitmentRef {
+        uint128 marketId;
+        uint128 commitmentId;
+    }
+
+    // Lifecycle of a market, see getMarketPhase
+    enum MarketPhase {
+        Scheduled, // Created, commits not open yet
+        Commit,
+        Reveal,
+        AwaitingResolution, // Reveal phase over, waiting for resolve or cancelMarket
+        Resolved,
+        Cancelled
+    }
+
+    // What positions stand for, see _distance
+    enum MarketType {
+        Numeric, // A value in lowerBound..upperBound, ranked by its distance from the consensus position
+        Categorical, // An option index in 0..upperBound, ranked by the revealed weight of its option
+        Bundle // One position per question of upperBound + 1 questions, revealed through VPOPConsensus.revealBundle
+    }
+
+    // How commitment weight decays over the commit phase, see VPOPMath.weight
+    enum DecayCurve {
+        Linear, // Loses decayFactor evenly over the commit phase
+        Exponential, // Halves every decayParameter seconds
+        Step, // Like Linear, but only at the end of each step of decayParameter basis points of the commit phase
+        Cliff // Full weight for the first decayParameter basis points of the commit phase, then loses decayFactor at once
+    }
+
+    // How the consensus position is estimated from the revealed positions, see VPOPConsensus
+    enum ConsensusMode {
+        WeightedMean, // Weighted by commitment weight, kept up to date on every reveal
+        WeightedMedian, // Lowest revealed position with at least half of the weight at or below it
+        TrimmedMean // Weighted mean once trimRate of the weight is dropped from each end
+    }
+
+    // How the winnings are split among winning positions, see VPOPMath.payoutScore
+    enum PayoutCurve {
+        Binary, // Every winning position scores the same
+        LinearFalloff, // Falls linearly with distance, from winningThreshold + 1 at the consensus to 1 at the threshold
+        Tiered, // Scores 2 within payoutParameter basis points of the threshold from the consensus, 1 beyond
+        InverseDistance // Scores in inverse proportion to distance + 1
+    }
+
+    struct PlatformSettings {
+        FeeRecipient[] feeSplit;
+        uint256 maxCreatorFeeRate;
+        uint256 marketCreateFee;
+        bool allowPublicMarkets;
+    }
+
+    // Every fee split ever executed, indexed by fee split ID. Markets keep the ID current at creation.
+    FeeRecipient[][] private feeSplits;
+
+    PlatformSettings public pendingSettings; // Settings waiting for the timelock
+    uint256 public pendingSettingsExecutableAt; // Time pendingSettings can be executed, 0 if nothing is queued
     
     struct Market {
         address creator;
         uint256 createdAt;
+        uint256 commitStart; // First second commits are accepted, createdAt unless scheduled later
         uint256 creationBlock;
         // Market parameters
         address token;
-        uint256 lowerBound;
-        uint256 upperBound;
-        uint8 decimals;
+        int256 lowerBound;
+        int256 upperBound;
+        uint8 decimals; // Consensus is rounded to a tick of 10^(18 - decimals), see tickSize
         uint256 minWager;
         uint256 decayFactor;
+        DecayCurve decayCurve;
+        uint32 decayParameter; // Half-life in seconds for Exponential, share of the commit phase in basis points for Step and Cliff
         uint256 commitDuration;
         uint256 revealDuration;
         uint16 winningPercentile;
+        ConsensusMode consensusMode;
+        uint16 trimRate; // Share of the weight dropped from each end in basis points for TrimmedMean
+        PayoutCurve payoutCurve;
+        uint16 payoutParameter; // Inner band as a share of the winning threshold in basis points for Tiered
+        MarketType marketType;
+        // Fee terms chosen or snapshotted at creation
+        uint16 creatorFeeRate; // Fee rate in basis points (1% = 100), at most maxCreatorFeeRate
+        address creatorFeeRecipient; // Receives the creator fees, defaults to the creator
+        uint32 feeSplitId; // Fee split applied to every wager, see getFeeSplit
         string ipfsHash;
     }
 
     struct MarketConsensus {
         uint256 totalWagers;
         uint256 totalWinnings;
+        uint256 escrowedCreatorFees; // Creator fees held until the market resolves, refunded on cancellation
         // Market consensus tracking
         uint256 totalWeight;
-        uint256 weightedSum;
+        int256 weightedSum;
         // Market status
         bool resolved;
+        bool cancelled;
         // Commitment tracking
         uint256 totalCommitments;
         uint256 revealedCommitments;
         // Resolution data
         uint256 winningThreshold;
-        uint256 consensusPosition;
+        int256 consensusPosition;
         uint256 winningWagers; // Sum of wagers for winning positions
         uint256 winningCommitments; // Count of winning positions
+        uint256 winningScore; // Sum of the payout shares of winning positions, see _payoutShare
+    }
+
+    // Partial counts for a resolution spread over several resolveBatch calls
+    struct ResolutionProgress {
+        uint256 processedCommitments; // Commitment IDs 1..processedCommitments have been counted
+        uint256 numStrictlyBelow;
+        uint256 numAtOrBelow;
+        uint256 winningWagers;
+        uint256 winningScore; // Left at 0 for binary payouts, which score by winningWagers
     }
 
     struct Commitment {
         uint128 wager;        // 16 bytes
         uint128 weight;       // 16 bytes
         uint64 timestamp;     // 8 bytes (seconds since epoch)
-        uint64 position;      // 8 bytes (market position)
-        uint64 nonce;         // 8 bytes (user-supplied entropy)
+        int128 position;      // 16 bytes (market position)
         bytes32 commitmentHash; // 32 bytes
         bool revealed;        // 1 byte
         bool claimed;         // 1 byte
         address owner;        // 20 bytes
+        uint128 stake;        // 16 bytes (net amount added to the pot, refunded on cancellation)
+        uint128 creatorFee;   // 16 bytes (creator fee held in escrow, refunded on cancellation)
     }
 
-    // Mapping to store markets by their ID
-    mapping(uint256 => Market) public markets;
+    // Mapping to store markets by their ID, read through getMarket
+    mapping(uint256 => Market) internal markets;
     mapping(uint256 => MarketConsensus) public marketConsensus;
     mapping(uint256 => bytes32) public whitelistRoots;
     mapping(uint256 => mapping(address => bool)) public whitelistCommits;
+    // Fees owed by recipient and token (zero address for ETH), paid out through withdrawFees
+    mapping(address => mapping(address => uint256)) public accruedFees;
+    // Resolution progress by market ID and proposed winning threshold
+    mapping(uint256 => mapping(uint256 => ResolutionProgress)) public resolutionProgress;
+    // Markets whose WeightedMedian or TrimmedMean consensus has been settled
+    mapping(uint256 => bool) public consensusSettled;
+    // Amounts added through addWinnings by market ID and sponsor, refunded on cancellation
+    mapping(uint256 => mapping(address => uint256)) public sponsorships;
 
     // Mapping to store commitments by market ID and sequential commitment ID
     mapping(uint256 => mapping(uint256 => Commitment)) public commitments;
+    // Commitments owned by each account, in the order they were made
+    mapping(address => CommitmentRef[]) private userCommitments;
 
     // Counter for market IDs
     uint256 private _marketIdCounter;
+
+    // Weight and resolution math, deployed by the constructor, see VPOPMath
+    VPOPMath public immutable math;
+    // Verifies and settles WeightedMedian and TrimmedMean consensus, deployed by the constructor, see VPOPConsensus
+    VPOPConsensus public immutable consensusModule;
     
     // Events
     event MarketCreated(
         uint256 indexed marketId, 
         address creator,
         address token,
-        uint256 lowerBound,
-        uint256 upperBound,
+        int256 lowerBound,
+        int256 upperBound,
         uint16 winningPercentile
     );
 
@@ -100,50 +212,228 @@ contract VPOP is Ownable {
 
     event CommitmentRevealed(
         uint256 indexed marketId,
-        address indexed user,
+        address indexed user, // commitment owner
+        address caller, // account that submitted the reveal
         uint256 commitmentId,
         bytes32 commitmentHash,
-        uint256 position,
+        int128 position,
         uint256 wager,
-        uint256 nonce
+        bytes32 salt
     );
 
     event WinningsClaimed(
         uint256 indexed marketId,
-        address indexed user,
+        address indexed user, // commitment owner, who receives the winnings
+        address caller, // account that submitted the claim
         uint256 commitmentId,
         uint256 amount
     );
 
-    constructor() Ownable(msg.sender) {
+    event MarketResolved(
+        uint256 indexed marketId,
+        address resolver,
+        int256 consensusPosition,
+        uint256 winningThreshold,
+        uint256 winningWagers,
+        uint256 winningCommitments
+    );
+
+    event WinningsAdded(
+        uint256 indexed marketId,
+        address indexed sponsor,
+        uint256 amount,
+        uint256 totalWinnings
+    );
+
+    event WhitelistRootUpdated(
+        uint256 indexed marketId,
+        bytes32 whitelistRoot
+    );
+
+    event MarketMetadataUpdated(
+        uint256 indexed marketId,
+        string ipfsHash
+    );
+
+    event ResolutionProgressed(
+        uint256 indexed marketId,
+        uint256 proposedWinningThreshold,
+        uint256 processedCommitments,
+        uint256 totalCommitments
+    );
+
+    event ConsensusSettled(
+        uint256 indexed marketId,
+        int256 consensusPosition
+    );
+
+    event PlatformSettingsQueued(
+        FeeRecipient[] feeSplit,
+        uint256 maxCreatorFeeRate,
+        uint256 marketCreateFee,
+        bool allowPublicMarkets,
+        uint256 executableAt
+    );
+
+    event PlatformSettingsUpdated(
+        uint256 indexed feeSplitId,
+        FeeRecipient[] feeSplit,
+        uint256 maxCreatorFeeRate,
+        uint256 marketCreateFee,
+        bool allowPublicMarkets
+    );
+
+    event PlatformSettingsCancelled();
+
+    event FeesAccrued(
+        uint256 indexed marketId,
+        address indexed recipient,
+        address indexed token,
+        uint256 amount
+    );
+
+    event FeesWithdrawn(
+        address indexed recipient,
+        address indexed token,
+        uint256 amount
+    );
+
+    event MarketCancelled(
+        uint256 indexed marketId,
+        address caller
+    );
+
+    event RefundClaimed(
+        uint256 indexed marketId,
+        address indexed user, // commitment owner, who receives the refund
+        address caller, // account that submitted the claim
+        uint256 commitmentId,
+        uint256 amount
+    );
+
+    event SponsorshipRefunded(
+        uint256 indexed marketId,
+        address indexed sponsor,
+        uint256 amount
+    );
+
+    // A batch item that reverted while the batch was allowed to skip failures
+    event BatchItemFailed(
+        uint256 indexed marketId,
+        uint256 index,
+        bytes reason
+    );
+
+    // Restricts the per-item entry points that commitMany, revealMany and claimMany call through try/catch
+    modifier onlySelf() {
+        require(msg.sender == address(this), "Only callable by this contract");
+        _;
+    }
+
+    /**
+     * @param _feeSplit The initial protocol fee split, e.g. the platform and per-chain partners
+     */
+    constructor(FeeRecipient[] memory _feeSplit) Ownable(msg.sender) {
+        math = new VPOPMath();
+        consensusModule = new VPOPConsensus();
         _marketIdCounter = 0;
-        platformFeeRate = 800; // 8% in basis points (1000 = 10%)
-        creatorFeeRate = 200; // 2% in basis points (1000 = 10%)
-        apeFeeRate = 200; // 2% in basis points (1000 = 10%)
-        marketCreateFee = 0; //lets start with 0
-        allowPublicMarkets = true;
+        PlatformSettings memory settings;
+        settings.feeSplit = _feeSplit;
+        settings.maxCreatorFeeRate = 200; // 2% in basis points (1000 = 10%)
+        settings.marketCreateFee = 0; //lets start with 0
+        settings.allowPublicMarkets = true;
+        _validatePlatformSettings(settings.feeSplit, settings.maxCreatorFeeRate);
+        _applyPlatformSettings(settings);
+    }
+
+    /**
+     * @dev Queues new platform settings. They can be executed once SETTINGS_TIMELOCK has passed,
+     * and only apply to markets created afterwards. Queueing replaces any pending settings.
+     * Only callable by the owner.
+     * @param _feeSplit The protocol fee recipients and their rates in basis points
+     * @param _maxCreatorFeeRate The highest creator fee rate new markets can choose, in basis points (1% = 100)
+     * @param _marketCreateFee The new market creation fee in wei
+     * @param _allowPublicMarkets Whether anyone other than the owner can create markets
+     */
+    function queuePlatformSettings(FeeRecipient[] memory _feeSplit, uint256 _maxCreatorFeeRate, uint256 _marketCreateFee, bool _allowPublicMarkets) external onlyOwner {
+        _validatePlatformSettings(_feeSplit, _maxCreatorFeeRate);
+
+        pendingSettings.feeSplit = _feeSplit;
+        pendingSettings.maxCreatorFeeRate = _maxCreatorFeeRate;
+        pendingSettings.marketCreateFee = _marketCreateFee;
+        pendingSettings.allowPublicMarkets = _allowPublicMarkets;
+        pendingSettingsExecutableAt = block.timestamp + SETTINGS_TIMELOCK;
+
+        emit PlatformSettingsQueued(
+            _feeSplit,
+            _maxCreatorFeeRate,
+            _marketCreateFee,
+            _allowPublicMarkets,
+            pendingSettingsExecutableAt
+        );
     }
 
     /**
-     * @dev Updates the fee rate. Only callable by the owner.
-     * @param _platformFeeRate The new fee rate in basis points (1% = 100)
-     * @param _creatorFeeRate The new fee rate in basis points (1% = 100)
-     * @param _apeFeeRate The new fee rate in basis points (1% = 100)
+     * @dev Applies the queued platform settings once the timelock has passed. Only callable by the owner.
      */
-    function updatePlatformSettings(uint256 _platformFeeRate, uint256 _creatorFeeRate, uint256 _apeFeeRate, uint256 _marketCreateFee, bool _allowPublicMarkets) external onlyOwner {
-        platformFeeRate = _platformFeeRate;
-        creatorFeeRate = _creatorFeeRate;
-        apeFeeRate = _apeFeeRate;
-        marketCreateFee = _marketCreateFee;
-        allowPublicMarkets = _allowPublicMarkets;
+    function executePlatformSettings() external onlyOwner {
+        require(pendingSettingsExecutableAt != 0, "No settings queued");
+        require(block.timestamp >= pendingSettingsExecutableAt, "Settings timelock not expired");
+
+        _applyPlatformSettings(pendingSettings);
+        delete pendingSettings;
+        pendingSettingsExecutableAt = 0;
+    }
+
+    /**
+     * @dev Discards the queued platform settings. Only callable by the owner.
+     */
+    function cancelPlatformSettings() external onlyOwner {
+        require(pendingSettingsExecutableAt != 0, "No settings queued");
+
+        delete pendingSettings;
+        pendingSettingsExecutableAt = 0;
+
+        emit PlatformSettingsCancelled();
+    }
+
+    function _validatePlatformSettings(FeeRecipient[] memory _feeSplit, uint256 _maxCreatorFeeRate) private pure {
+        require(_feeSplit.length <= MAX_FEE_RECIPIENTS, "Too many fee recipients");
+        uint256 totalFeeRate = _maxCreatorFeeRate;
+        for (uint256 i = 0; i < _feeSplit.length; i++) {
+            require(_feeSplit[i].recipient != address(0), "Fee recipient cannot be zero address");
+            totalFeeRate += _feeSplit[i].rate;
+        }
+        require(totalFeeRate <= MAX_TOTAL_FEE_RATE, "Total fee rate exceeds cap");
+    }
+
+    function _applyPlatformSettings(PlatformSettings memory settings) private {
+        FeeRecipient[] storage feeSplit = feeSplits.push();
+        for (uint256 i = 0; i < settings.feeSplit.length; i++) {
+            feeSplit.push(settings.feeSplit[i]);
+        }
+        maxCreatorFeeRate = settings.maxCreatorFeeRate;
+        marketCreateFee = settings.marketCreateFee;
+        allowPublicMarkets = settings.allowPublicMarkets;
+
+        emit PlatformSettingsUpdated(
+            feeSplits.length - 1,
+            settings.feeSplit,
+            settings.maxCreatorFeeRate,
+            settings.marketCreateFee,
+            settings.allowPublicMarkets
+        );
     }
 
     function updateWhitelistRoot(uint256 marketId, bytes32 whitelistRoot) external onlyOwner {
         whitelistRoots[marketId] = whitelistRoot;
+
+        emit WhitelistRootUpdated(marketId, whitelistRoot);
     }
 
 
     function addWinnings(uint256 marketId, uint256 additionalWinnings) external payable {
+        require(getMarketPhase(marketId) != MarketPhase.Cancelled, "Market cancelled");
         Market storage market = markets[marketId];
         
         if (market.token != address(0)) {
@@ -156,49 +446,92 @@ contract VPOP is Ownable {
         }
         
         marketConsensus[marketId].totalWinnings += additionalWinnings;
+        sponsorships[marketId][msg.sender] += additionalWinnings;
+
+        emit WinningsAdded(marketId, msg.sender, additionalWinnings, marketConsensus[marketId].totalWinnings);
     }
 
     /**
      * @dev Initializes a new market with the given parameters
      * @param _token The token address for the market
-     * @param _lowerBound The lower bound of the market range
+     * @param _lowerBound The lower bound of the market range, which may be negative
      * @param _upperBound The upper bound of the market range
-     * @param _decimals The number of decimal places for the market
+     * @param _decimals The number of decimal places the consensus settles on. Positions have 18 decimals,
+     * and the consensus is rounded to a tick of 10^(18 - _decimals), see tickSize
      * @param _minWager The minimum wager amount
-     * @param _decayFactor The decay factor for the market
+     * @param _decayFactor The share of the weight lost by the end of the commit phase in basis points, unused by Exponential
+     * @param _decayCurve The shape of the weight decay
+     * @param _decayParameter The half-life in seconds for Exponential, the step or cliff in basis points of the commit phase for Step and Cliff
+     * @param _commitStart The time the commit phase opens, or 0 to open it immediately
      * @param _commitDuration The duration of the commit phase in seconds
      * @param _revealDuration The duration of the reveal phase in seconds
      * @param _winningPercentile The winningPercentile value (0-10000)
+     * @param _consensusMode How the consensus position is estimated, see ConsensusMode
+     * @param _trimRate The share of the weight TrimmedMean drops from each end in basis points, below 5000
+     * @param _payoutCurve How the winnings are split among winning positions, see PayoutCurve
+     * @param _payoutParameter The inner band of Tiered as a share of the winning threshold in basis points
+     * @param _marketType Whether positions are values or, for Categorical, option indexes from 0 to _upperBound.
+     * Bundle markets ask _upperBound + 1 questions, defined first through VPOPConsensus.defineQuestions.
+     * @param _creatorFeeRate The creator fee rate in basis points, at most maxCreatorFeeRate
+     * @param _creatorFeeRecipient The address that receives creator fees, or zero for msg.sender
      * @param _ipfsHash The IPFS hash containing additional market data
      * @return marketId The ID of the newly created market
      */
     function initializeMarket(
         address _token,
-        uint256 _lowerBound,
-        uint256 _upperBound,
+        int256 _lowerBound,
+        int256 _upperBound,
         uint8 _decimals,
         uint256 _minWager,
         uint16 _decayFactor,
+        DecayCurve _decayCurve,
+        uint32 _decayParameter,
+        uint256 _commitStart,
         uint256 _commitDuration,
         uint256 _revealDuration,
         uint16 _winningPercentile,
+        ConsensusMode _consensusMode,
+        uint16 _trimRate,
+        PayoutCurve _payoutCurve,
+        uint16 _payoutParameter,
+        MarketType _marketType,
+        uint16 _creatorFeeRate,
+        address _creatorFeeRecipient,
         string memory _ipfsHash
     ) public payable returns (uint256 marketId) {        
         // Input validation
         require(allowPublicMarkets == true || msg.sender == owner(), "Only owner can create markets");
         require(_lowerBound < _upperBound, "Lower bound must be less than upper bound");
-        require(_decimals <= 18, "Decimals must be <= 18");
+        require(_decimals <= POSITION_DECIMALS, "Decimals must be <= 18");
         require(_minWager >= 0, "Minimum wager must be greater than 0");
         require(_decayFactor <= 10000, "Decay factor must be <= 10000 (100%)");
+        require(
+            _decayCurve == DecayCurve.Linear || (_decayParameter > 0 && (_decayCurve == DecayCurve.Exponential || _decayParameter <= 10000)),
+            "Invalid decay parameter"
+        );
+        require(_commitStart == 0 || _commitStart >= block.timestamp, "Commit start must not be in the past");
         require(_commitDuration > 0, "Commit duration must be greater than 0");
         require(_revealDuration >= 1800, "Reveal duration must be at least 30 minutes (1800 seconds)");
         require(_winningPercentile <= 10000, "Winning Percentile must be <= 10000 (100%)");
+        require(_trimRate < 5000, "Trim rate must be < 5000 (50%)");
+        require(_payoutParameter <= 10000, "Payout parameter must be <= 10000 (100%)");
+        // Categorical markets rank options by weight rather than distance and bundle markets keep a
+        // weighted mean per question, so neither takes a consensus mode
+        require(
+            _marketType == MarketType.Numeric ||
+            (_lowerBound == 0 && _upperBound < int256(MAX_OPTIONS) && _consensusMode == ConsensusMode.WeightedMean),
+            "Invalid market type bounds"
+        );
+        require(_creatorFeeRate <= maxCreatorFeeRate, "Creator fee rate exceeds cap");
         require(bytes(_ipfsHash).length > 0, "IPFS hash cannot be empty");
 
+        // Get the next market ID and increment the counter
+         _marketIdCounter++;
+        marketId = _marketIdCounter;
+
         if(marketCreateFee > 0){
             require(msg.value >= marketCreateFee, "Market create fee not met");
-            (bool success, ) = owner().call{value: marketCreateFee}("");
-            require(success, "Market create fee transfer failed");
+            _accrueFee(marketId, owner(), address(0), marketCreateFee);
             
             // Refund excess payment
             uint256 excess = msg.value - marketCreateFee;
@@ -207,44 +540,37 @@ contract VPOP is Ownable {
                 require(refundSuccess, "Excess refund failed");
             }
         }
-        
-        // Get the next market ID and increment the counter
-         _marketIdCounter++;
-        marketId = _marketIdCounter;
 
-        Market memory newMarket = Market({
-            creator: msg.sender,
-            createdAt: block.timestamp,
-            creationBlock: block.number,
-            token: _token,
-            lowerBound: _lowerBound,
-            upperBound: _upperBound,
-            decimals: _decimals,
-            minWager: _minWager,
-            decayFactor: _decayFactor,
-            commitDuration: _commitDuration,
-            revealDuration: _revealDuration,
-            winningPercentile: _winningPercentile,
-            ipfsHash: _ipfsHash
-        });
-
-        MarketConsensus memory newMarketConsensus = MarketConsensus({
-            totalWagers: 0,
-            totalWinnings: 0,
-            totalWeight: 0,
-            weightedSum: 0,
-            resolved: false,
-            totalCommitments: 0,
-            revealedCommitments: 0,
-            winningThreshold: 0,
-            consensusPosition: 0,
-            winningWagers: 0,
-            winningCommitments: 0
-        });
+        // Store the market field by field, cheaper than copying a whole struct from memory
+        Market storage market = markets[marketId];
+        market.creator = msg.sender;
+        market.createdAt = block.timestamp;
+        market.commitStart = _commitStart == 0 ? block.timestamp : _commitStart;
+        market.creationBlock = block.number;
+        market.token = _token;
+        market.lowerBound = _lowerBound;
+        market.upperBound = _upperBound;
+        market.decimals = _decimals;
+        market.minWager = _minWager;
+        market.decayFactor = _decayFactor;
+        market.decayCurve = _decayCurve;
+        market.decayParameter = _decayParameter;
+        market.commitDuration = _commitDuration;
+        market.revealDuration = _revealDuration;
+        market.winningPercentile = _winningPercentile;
+        market.consensusMode = _consensusMode;
+        market.trimRate = _trimRate;
+        market.payoutCurve = _payoutCurve;
+        market.payoutParameter = _payoutParameter;
+        market.marketType = _marketType;
+        market.creatorFeeRate = _creatorFeeRate;
+        market.creatorFeeRecipient = _creatorFeeRecipient == address(0) ? msg.sender : _creatorFeeRecipient;
+        market.feeSplitId = uint32(feeSplits.length - 1);
+        market.ipfsHash = _ipfsHash;
+        if (_marketType == MarketType.Bundle) {
+            consensusModule.assignQuestions(marketId, msg.sender, uint256(_upperBound) + 1);
+        }
 
-        // Store the market in the mapping
-        markets[marketId] = newMarket;
-        marketConsensus[marketId] = newMarketConsensus;
         emit MarketCreated(
             marketId,
             msg.sender,
@@ -257,10 +583,26 @@ contract VPOP is Ownable {
         return marketId;
     }
 
+    /**
+     * @dev Replaces the metadata of a market. Only the creator can call it, and only while
+     * the market is scheduled, so nobody commits against metadata that later changes.
+     * @param marketId The ID of the market
+     * @param ipfsHash The IPFS hash containing the new market data
+     */
+    function updateMarketMetadata(uint256 marketId, string calldata ipfsHash) external {
+        _requirePhase(marketId, MarketPhase.Scheduled, "Market is no longer scheduled");
+        require(msg.sender == markets[marketId].creator, "Only the creator can update metadata");
+        require(bytes(ipfsHash).length > 0, "IPFS hash cannot be empty");
+
+        markets[marketId].ipfsHash = ipfsHash;
+
+        emit MarketMetadataUpdated(marketId, ipfsHash);
+    }
+
     /**
      * @dev Submit a commitment for a market using EIP-2612 permit
      * @param marketId The ID of the market to commit to
-     * @param commitmentHash The hash of the commitment (position, nonce, wager)
+     * @param commitmentHash The hash of the commitment, see getCommitmentHash
      * @param wager The wager of the commitment
      * @param proof The Merkle proof for whitelist verification
      * @param deadline The permit deadline
@@ -278,37 +620,19 @@ contract VPOP is Ownable {
         bytes32 r,
         bytes32 s
     ) external {
-        // Validate market exists and is active
-        require(marketId <= _marketIdCounter && marketId > 0, "Market does not exist");
-        
         Market storage market = markets[marketId];
-        
-        // Validate commitment phase is still open
-        require(
-            block.timestamp <= market.createdAt + market.commitDuration,
-            "Commitment phase has ended"
-        );
+        uint256 stake = 0;
+        uint256 creatorFee = 0;
 
-        // Validate wager is greater than minimum wager
-        require(wager >= market.minWager, "Wager below minimum wager");
-        
-        if (whitelistRoots[marketId] != bytes32(0)) {   
-            // whitelisted market      
-            require(whitelistCommits[marketId][msg.sender] == false, "Address already used in this market");
-            bool verified = MerkleProof.verify(proof, whitelistRoots[marketId], keccak256(abi.encodePacked(msg.sender)));
-            require(verified, "Address not whitelisted");
-            whitelistCommits[marketId][msg.sender] = true;
+        if (_checkCommit(msg.sender, marketId, wager, proof)) {
+            // whitelisted market
             wager = 100000;
         } else {
             // Normal market - handle ERC20 tokens with permit
             require(market.token != address(0), "Permit only supports ERC20 tokens");
             
-            IERC20 token = IERC20(market.token);
-            IERC20Permit permitToken = IERC20Permit(market.token);
-            
             // Use permit to approve the contract to spend tokens
-            // This uses proper interface casting for better type safety
-            permitToken.permit(
+            IERC20Permit(market.token).permit(
                 msg.sender,
                 address(this),
                 uint256(wager),
@@ -318,72 +642,16 @@ contract VPOP is Ownable {
                 s
             );
             
-            // Check balance before transfer to handle fee-on-transfer tokens
-            uint256 balanceBefore = token.balanceOf(address(this));
-            
-            // Transfer tokens from user to contract
-            token.safeTransferFrom(msg.sender, address(this), uint256(wager));
-            
-            // Check balance after transfer to determine actual received amount
-            uint256 balanceAfter = token.balanceOf(address(this));
-            uint256 actualReceived = balanceAfter - balanceBefore;
-            
-            // Calculate fees based on actual received amount
-            uint256 platformFee = Math.mulDiv(actualReceived, platformFeeRate, 10000);
-            uint256 creatorFee = Math.mulDiv(actualReceived, creatorFeeRate, 10000);
-            uint256 apeFee = Math.mulDiv(actualReceived, apeFeeRate, 10000);
-            
-            // Add remaining amount to the pot after fees
-            uint256 winnings = actualReceived - platformFee - creatorFee - apeFee;
-            marketConsensus[marketId].totalWinnings += winnings;
-
-            // Transfer fees to platform and creator from contract using SafeERC20
-            token.safeTransfer(owner(), platformFee);
-            token.safeTransfer(market.creator, creatorFee);
-            token.safeTransfer(apeOwner, apeFee);
+            (stake, creatorFee) = _receiveTokens(marketId, market.token, msg.sender, wager);
         }
         
-        marketConsensus[marketId].totalWagers += uint256(wager);
-
-        // Calculate weight using linear decay: weight = wager * (1 - decayFactor * elapsed / commitDuration)
-        // decay is scaled by 1e4 (basis points) so the result keeps precision
-        uint256 elapsed = block.timestamp - market.createdAt;
-        uint256 decay = Math.mulDiv(market.decayFactor, elapsed, market.commitDuration); // 0-10000
-        uint128 weight = uint128(wager * (10000 - decay) / 10000);
-        if (weight == 0) weight = 1;
-        
-        // Increment total commitments counter
-        marketConsensus[marketId].totalCommitments++;
-        // Get the next commitment ID
-        uint256 commitmentId = marketConsensus[marketId].totalCommitments;
-        
-        // Store the commitment
-        commitments[marketId][commitmentId] = Commitment({
-            wager: wager,
-            weight: weight,
-            timestamp: uint64(block.timestamp),
-            position: 0, // Will be set during reveal
-            nonce: 0,    // Will be set during reveal
-            commitmentHash: commitmentHash,
-            revealed: false,
-            claimed: false,
-            owner: msg.sender
-        });
-
-        emit CommitmentCreated(
-            marketId,
-            msg.sender,
-            commitmentId,
-            commitmentHash,
-            uint256(wager),
-            uint256(weight)
-        );
+        _recordCommitment(msg.sender, marketId, commitmentHash, wager, stake, creatorFee);
     }
 
     /**
      * @dev Submit a commitment for a market
      * @param marketId The ID of the market to commit to
-     * @param commitmentHash The hash of the commitment (position, nonce, wager)
+     * @param commitmentHash The hash of the commitment, see getCommitmentHash
      * @param wager The wager of the commitment
      * @param proof The Merkle proof for whitelist verification
      */
@@ -393,98 +661,162 @@ contract VPOP is Ownable {
         uint128 wager,
         bytes32[] calldata proof
     ) public payable {
-        // Validate market exists and is active
-        require(marketId <= _marketIdCounter && marketId > 0, "Market does not exist");
-        
+        _commit(msg.sender, marketId, commitmentHash, wager, proof, msg.value);
+    }
+
+    /**
+     * @dev Submits several commitments to one market in a single transaction. For ETH markets
+     * msg.value must equal the sum of the wagers, or 0 in whitelisted markets, which take no wager;
+     * wagers of skipped commitments are sent back.
+     * @param marketId The ID of the market to commit to
+     * @param commitmentHashes The hash of each commitment, see getCommitmentHash
+     * @param wagers The wager of each commitment
+     * @param proof The Merkle proof for whitelist verification
+     * @param allowFailures Whether to skip failing commitments and emit BatchItemFailed instead of reverting
+     * @return succeeded The number of commitments created
+     */
+    function commitMany(
+        uint256 marketId,
+        bytes32[] calldata commitmentHashes,
+        uint128[] calldata wagers,
+        bytes32[] calldata proof,
+        bool allowFailures
+    ) external payable returns (uint256 succeeded) {
+        require(commitmentHashes.length == wagers.length, "Array lengths must match");
+
+        bool isEthMarket = markets[marketId].token == address(0) && whitelistRoots[marketId] == bytes32(0);
+        uint256 totalValue = 0;
+        if (isEthMarket) {
+            for (uint256 i = 0; i < wagers.length; i++) {
+                totalValue += wagers[i];
+            }
+        }
+        require(msg.value == totalValue, "Value must equal total wagers");
+
+        uint256 unspent = 0;
+        for (uint256 i = 0; i < commitmentHashes.length; i++) {
+            uint256 value = isEthMarket ? wagers[i] : 0;
+            if (!allowFailures) {
+                _commit(msg.sender, marketId, commitmentHashes[i], wagers[i], proof, value);
+                succeeded++;
+            } else try this.commitFor{value: value}(msg.sender, marketId, commitmentHashes[i], wagers[i], proof) {
+                succeeded++;
+            } catch (bytes memory reason) {
+                unspent += value;
+                emit BatchItemFailed(marketId, i, reason);
+            }
+        }
+
+        if (unspent > 0) {
+            _transferOut(address(0), msg.sender, unspent);
+        }
+    }
+
+    /**
+     * @dev Commits on behalf of an account. Only callable by this contract, so commitMany
+     * can catch a failing commitment without reverting the whole batch.
+     */
+    function commitFor(
+        address account,
+        uint256 marketId,
+        bytes32 commitmentHash,
+        uint128 wager,
+        bytes32[] calldata proof
+    ) external payable onlySelf {
+        _commit(account, marketId, commitmentHash, wager, proof, msg.value);
+    }
+
+    function _commit(
+        address account,
+        uint256 marketId,
+        bytes32 commitmentHash,
+        uint128 wager,
+        bytes32[] calldata proof,
+        uint256 value
+    ) private {
         Market storage market = markets[marketId];
-        
-        // Validate commitment phase is still open
-        require(
-            block.timestamp <= market.createdAt + market.commitDuration,
-            "Commitment phase has ended"
-        );
+        uint256 stake = 0;
+        uint256 creatorFee = 0;
 
-        // Validate wager is greater than minimum wager
-        require(wager >= market.minWager, "Wager below minimum wager");
-        
-        if (whitelistRoots[marketId] != bytes32(0)) {   
-            // whitelisted market      
-            require(whitelistCommits[marketId][msg.sender] == false, "Address already used in this market");
-            // require(verifyWhitelist(marketId, msg.sender, proof), "Address not whitelisted");
-            bool verified = MerkleProof.verify(proof, whitelistRoots[marketId], keccak256(abi.encodePacked(msg.sender)));
-            require(verified, "Address not whitelisted");
-            whitelistCommits[marketId][msg.sender] = true;
+        if (_checkCommit(account, marketId, wager, proof)) {
+            // whitelisted market
             wager = 100000;
         } else {
             //normal market
             // Check if the market uses native token or ERC20
             if (market.token == address(0)) {
                 // For native token (ETH), ensure the sent value matches the wager
-                require(msg.value == uint256(wager), "Wager must equal transferred amount");
+                require(value == uint256(wager), "Wager must equal transferred amount");
                 
-                // Calculate platform fee
-                uint256 platformFee = Math.mulDiv(uint256(wager), platformFeeRate, 10000);
-                // Calculate creator fee
-                uint256 creatorFee = Math.mulDiv(uint256(wager), creatorFeeRate, 10000);
-                // Calculate ape fee
-                uint256 apeFee = Math.mulDiv(uint256(wager), apeFeeRate, 10000);
-                // Add to the pot 
-                uint256 winnings = uint256(wager) - platformFee - creatorFee - apeFee;
-                marketConsensus[marketId].totalWinnings += winnings;
-                
-                // Transfer platform fee to platform owner
-                (bool platformSuccess, ) = owner().call{value: platformFee}("");
-                require(platformSuccess, "Platform fee transfer failed");
-                
-                // Transfer creator fee to market creator
-                (bool creatorSuccess, ) = market.creator.call{value: creatorFee}("");
-                require(creatorSuccess, "Creator fee transfer failed");
-
-                // Transfer ape fee to ape owner
-                (bool apeSuccess, ) = apeOwner.call{value: apeFee}("");
-                require(apeSuccess, "Ape fee transfer failed");
-
+                // Accrue fees and add the rest to the pot
+                (stake, creatorFee) = _collectFees(marketId, address(0), uint256(wager));
             } else {
-                // Handle ERC20 tokens with potential transfer fees
-                IERC20 token = IERC20(market.token);
-                
-                // Check balance before transfer to handle fee-on-transfer tokens
-                uint256 balanceBefore = token.balanceOf(address(this));
-                
-                // Transfer tokens from user to contract
-                token.safeTransferFrom(msg.sender, address(this), uint256(wager));
-                
-                // Check balance after transfer to determine actual received amount
-                uint256 balanceAfter = token.balanceOf(address(this));
-                uint256 actualReceived = balanceAfter - balanceBefore;
-                
-                // Calculate fees based on actual received amount
-                uint256 platformFee = Math.mulDiv(actualReceived, platformFeeRate, 10000);
-                uint256 creatorFee = Math.mulDiv(actualReceived, creatorFeeRate, 10000);
-                uint256 apeFee = Math.mulDiv(actualReceived, apeFeeRate, 10000);
-                
-                // Add remaining amount to the pot after fees
-                uint256 winnings = actualReceived - platformFee - creatorFee - apeFee;
-                marketConsensus[marketId].totalWinnings += winnings;
-
-                // Transfer fees to platform and creator from contract using SafeERC20
-                token.safeTransfer(owner(), platformFee);
-                token.safeTransfer(market.creator, creatorFee);
-                token.safeTransfer(apeOwner, apeFee);
+                (stake, creatorFee) = _receiveTokens(marketId, market.token, account, wager);
             }
         }
-        marketConsensus[marketId].totalWagers += uint256(wager);
-
-        // Calculate weight using linear decay: weight = wager * (1 - decayFactor * elapsed / commitDuration)
-        // decay is scaled by 1e4 (basis points) so the result keeps precision
-        uint256 elapsed = block.timestamp - market.createdAt;
-        uint256 decay = Math.mulDiv(market.decayFactor, elapsed, market.commitDuration); // 0-10000
-        uint128 weight = uint128(wager * (10000 - decay) / 10000);
-        if (weight == 0) weight = 1;
+        _recordCommitment(account, marketId, commitmentHash, wager, stake, creatorFee);
+    }
+
+    /**
+     * @dev Checks that a commit can be made now with this wager and, in whitelisted markets,
+     * verifies the account's proof and uses up its single commit
+     * @return whitelisted True if the market is whitelisted
+     */
+    function _checkCommit(address account, uint256 marketId, uint128 wager, bytes32[] calldata proof) private returns (bool whitelisted) {
+        _requirePhase(marketId, MarketPhase.Commit, "Not in commit phase");
+        // Validate wager is greater than minimum wager
+        require(wager >= markets[marketId].minWager, "Wager below minimum wager");
+
+        whitelisted = whitelistRoots[marketId] != bytes32(0);
+        if (whitelisted) {
+            require(whitelistCommits[marketId][account] == false, "Address already used in this market");
+            bool verified = MerkleProof.verify(proof, whitelistRoots[marketId], keccak256(abi.encodePacked(account)));
+            require(verified, "Address not whitelisted");
+            whitelistCommits[marketId][account] = true;
+        }
+    }
+
+    /**
+     * @dev Transfers an ERC20 wager in and adds it to the pot after fees, counting only what
+     * actually arrived so fee-on-transfer tokens are handled
+     */
+    function _receiveTokens(
+        uint256 marketId,
+        address token,
+        address from,
+        uint256 wager
+    ) private returns (uint256 stake, uint256 creatorFee) {
+        // Check balance before transfer to handle fee-on-transfer tokens
+        uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+
+        // Transfer tokens from user to contract
+        IERC20(token).safeTransferFrom(from, address(this), wager);
+
+        // Check balance after transfer to determine actual received amount
+        uint256 actualReceived = IERC20(token).balanceOf(address(this)) - balanceBefore;
+
+        // Accrue fees based on actual received amount and add the rest to the pot
+        return _collectFees(marketId, token, actualReceived);
+    }
+
+    /**
+     * @dev Stores a commitment whose wager has been received and emits CommitmentCreated
+     */
+    function _recordCommitment(
+        address account,
+        uint256 marketId,
+        bytes32 commitmentHash,
+        uint128 wager,
+        uint256 stake,
+        uint256 creatorFee
+    ) private {
+        MarketConsensus storage consensus = marketConsensus[marketId];
+        consensus.totalWagers += uint256(wager);
+        uint128 weight = _weight(markets[marketId], wager, block.timestamp);
         // Increment total commitments counter
-        marketConsensus[marketId].totalCommitments++;
+        consensus.totalCommitments++;
         // Get the next commitment ID
-        uint256 commitmentId = marketConsensus[marketId].totalCommitments;
+        uint256 commitmentId = consensus.totalCommitments;
         
         // Store the commitment
         commitments[marketId][commitmentId] = Commitment({
@@ -492,16 +824,18 @@ contract VPOP is Ownable {
             weight: weight,
             timestamp: uint64(block.timestamp),
             position: 0, // Will be set during reveal
-            nonce: 0,    // Will be set during reveal
             commitmentHash: commitmentHash,
             revealed: false,
             claimed: false,
-            owner: msg.sender
+            owner: account,
+            stake: uint128(stake),
+            creatorFee: uint128(creatorFee)
         });
+        userCommitments[account].push(CommitmentRef(uint128(marketId), uint128(commitmentId)));
 
         emit CommitmentCreated(
             marketId,
-            msg.sender,
+            account,
             commitmentId,
             commitmentHash,
             uint256(wager),
@@ -515,46 +849,113 @@ contract VPOP is Ownable {
      * @param commitmentId The ID of the commitment to reveal
      * @param commitmentHash The hash of the commitment to reveal
      * @param position The original position value
-     * @param nonce The original nonce
+     * @param salt The original 32-byte salt
      */
     function reveal(
         uint256 marketId,
         uint256 commitmentId,
         bytes32 commitmentHash,
-        uint64 position,
-        uint64 nonce
+        int128 position,
+        bytes32 salt
     ) external {
-        // Validate market exists
-        require(marketId <= _marketIdCounter && marketId > 0, "Market does not exist");
-        
-        Market storage market = markets[marketId];
-        require(position >= market.lowerBound && position <= market.upperBound, "Position out of bounds");
+        _reveal(msg.sender, marketId, commitmentId, commitmentHash, position, salt);
+    }
 
-        // Validate reveal phase is active
+    /**
+     * @dev Reveals several commitments in one market in a single transaction
+     * @param marketId The ID of the market
+     * @param commitmentIds The ID of each commitment to reveal
+     * @param commitmentHashes The hash of each commitment to reveal
+     * @param positions The original position of each commitment
+     * @param salts The original 32-byte salt of each commitment
+     * @param allowFailures Whether to skip failing reveals and emit BatchItemFailed instead of reverting
+     * @return succeeded The number of commitments revealed
+     */
+    function revealMany(
+        uint256 marketId,
+        uint256[] calldata commitmentIds,
+        bytes32[] calldata commitmentHashes,
+        int128[] calldata positions,
+        bytes32[] calldata salts,
+        bool allowFailures
+    ) external returns (uint256 succeeded) {
         require(
-            block.timestamp > market.createdAt + market.commitDuration &&
-            block.timestamp <= market.createdAt + market.commitDuration + market.revealDuration,
-            "Not in reveal phase"
+            commitmentIds.length == commitmentHashes.length &&
+            commitmentIds.length == positions.length &&
+            commitmentIds.length == salts.length,
+            "Array lengths must match"
         );
 
+        for (uint256 i = 0; i < commitmentIds.length; i++) {
+            if (!allowFailures) {
+                _reveal(msg.sender, marketId, commitmentIds[i], commitmentHashes[i], positions[i], salts[i]);
+                succeeded++;
+            } else try this.revealFor(msg.sender, marketId, commitmentIds[i], commitmentHashes[i], positions[i], salts[i]) {
+                succeeded++;
+            } catch (bytes memory reason) {
+                emit BatchItemFailed(marketId, i, reason);
+            }
+        }
+    }
+
+    /**
+     * @dev Reveals on behalf of a caller. Only callable by this contract, so revealMany
+     * can catch a failing reveal without reverting the whole batch, and by consensusModule,
+     * so bundle reveals log the account that called VPOPConsensus.revealBundle.
+     */
+    function revealFor(
+        address caller,
+        uint256 marketId,
+        uint256 commitmentId,
+        bytes32 commitmentHash,
+        int128 position,
+        bytes32 salt
+    ) external {
+        require(msg.sender == address(this) || msg.sender == address(consensusModule), "Only callable by this contract");
+        _reveal(caller, marketId, commitmentId, commitmentHash, position, salt);
+    }
+
+    function _reveal(
+        address caller,
+        uint256 marketId,
+        uint256 commitmentId,
+        bytes32 commitmentHash,
+        int128 position,
+        bytes32 salt
+    ) private {
+        _requirePhase(marketId, MarketPhase.Reveal, "Not in reveal phase");
+
+        Market storage market = markets[marketId];
+        require(position >= market.lowerBound && position <= market.upperBound, "Position out of bounds");
+        // The consensus module checks the positions of a bundle before revealing it with position 0
+        require(market.marketType != MarketType.Bundle || msg.sender == address(consensusModule), "Bundle reveals need the module");
+
         // Get the commitment
         Commitment storage commitment = commitments[marketId][commitmentId];
         // Verify commitment exists and hasn't been revealed
         require(commitment.commitmentHash == commitmentHash, "Commitment does not exist");
         require(!commitment.revealed, "Commitment already revealed");
         
-        // Verify the revealed data matches the commitment hash using stored wager
-        bytes32 calculatedHash = keccak256(abi.encodePacked(uint256(position), uint256(commitment.wager), uint256(nonce)));
+        // Verify the revealed data matches the commitment hash using stored owner and wager
+        bytes32 calculatedHash = getCommitmentHash(marketId, commitment.owner, position, commitment.wager, salt);
         require(
             calculatedHash == commitmentHash,
             "Revealed data does not match commitment hash"
         );
 
         // Update market consensus
-        marketConsensus[marketId].totalWeight += commitment.weight;
-        marketConsensus[marketId].weightedSum += position * commitment.weight;
-        marketConsensus[marketId].consensusPosition = marketConsensus[marketId].weightedSum / marketConsensus[marketId].totalWeight;
-        marketConsensus[marketId].revealedCommitments++;
+        MarketConsensus storage consensus = marketConsensus[marketId];
+        consensus.totalWeight += commitment.weight;
+        consensus.weightedSum += position * int256(uint256(commitment.weight));
+        if (market.marketType == MarketType.Categorical) {
+            // Options are never negative, since categorical markets start at 0
+            consensus.consensusPosition = int256(consensusModule.recordOption(
+                marketId, uint128(position), commitment.weight, uint256(consensus.consensusPosition)
+            ));
+        } else if (market.consensusMode == ConsensusMode.WeightedMean) {
+            consensus.consensusPosition = math.roundedMean(consensus.weightedSum, consensus.totalWeight, tickSize(market.decimals));
+        }
+        consensus.revealedCommitments++;
         
         // Mark commitment as revealed and increment revealed counter
         commitment.revealed = true;
@@ -562,12 +963,13 @@ contract VPOP is Ownable {
 
         emit CommitmentRevealed(
             marketId,
-            msg.sender,
+            commitment.owner,
+            caller,
             commitmentId,
             commitmentHash,
             position,
             commitment.wager,
-            nonce
+            salt
         );
     }
 
@@ -586,71 +988,144 @@ contract VPOP is Ownable {
      * consensus.resolved = true
      */
     function resolve(uint256 marketId, uint256 proposedWinningThreshold) external {
-        // Validate market exists
+        resolveBatch(marketId, proposedWinningThreshold, type(uint256).max);
+    }
+
+    /**
+     * @dev Resolves a market over several transactions so gas per call stays bounded
+     * regardless of market size. Each call counts up to maxCommitments further commitments
+     * for the proposed threshold; the call that counts the last one performs the same
+     * rank checks as resolve. Progress is kept per proposed threshold, so competing
+     * proposals cannot reset each other.
+     * @param marketId The ID of the market to resolve
+     * @param proposedWinningThreshold The proposed winning threshold
+     * @param maxCommitments The maximum number of commitments to count in this call
+     * @return resolved True if this call resolved the market
+     */
+    function resolveBatch(
+        uint256 marketId,
+        uint256 proposedWinningThreshold,
+        uint256 maxCommitments
+    ) public returns (bool resolved) {
+        require(maxCommitments > 0, "Batch size must be greater than 0");
+        return _resolve(marketId, proposedWinningThreshold, maxCommitments);
+    }
+
+    /**
+     * @dev Resolves a market using the winning threshold computed on-chain by consensusModule.getWinningThreshold.
+     * Only available for markets small enough to compute the threshold within a block.
+     * @param marketId The ID of the market to resolve
+     */
+    function autoResolve(uint256 marketId) external {
         require(marketId <= _marketIdCounter && marketId > 0, "Market does not exist");
-        
+        require(
+            marketConsensus[marketId].totalCommitments <= MAX_AUTO_RESOLVE_COMMITMENTS,
+            "Market too large to auto-resolve"
+        );
+        resolveBatch(marketId, consensusModule.getWinningThreshold(marketId), type(uint256).max);
+    }
+
+    function _resolve(
+        uint256 marketId,
+        uint256 proposedWinningThreshold,
+        uint256 maxCommitments
+    ) private returns (bool) {
+        MarketPhase phase = getMarketPhase(marketId);
         Market storage market = markets[marketId];
         MarketConsensus storage consensus = marketConsensus[marketId];
         
-        // Check if market is already resolved
-        require(!consensus.resolved, "Market already resolved");
-        // Check if reveal phase has ended
-        bool revealPhaseEnded = block.timestamp > market.createdAt + market.commitDuration + market.revealDuration;
+        require(phase != MarketPhase.Resolved, "Market already resolved");
+        require(phase != MarketPhase.Cancelled, "Market cancelled");
         // Check if all commitments have been revealed
         bool allRevealed = consensus.totalCommitments > 0 && consensus.totalCommitments == consensus.revealedCommitments;
-        // Require either all commitments revealed or reveal phase ended
-        require(allRevealed || revealPhaseEnded, "Market not ready for resolution");
+        // Require the reveal phase to have ended, or to have nothing left to reveal
+        require(
+            phase == MarketPhase.AwaitingResolution || (phase == MarketPhase.Reveal && allRevealed),
+            "Market not ready for resolution"
+        );
         require(consensus.revealedCommitments > 0, "No revealed commitments to resolve"); // Ensure there's something to resolve
         
-        // Calculate market consensus position
-        if (consensus.totalWeight > 0) { // Avoid division by zero if no weights (e.g., all reveals failed, though unlikely here)
-            consensus.consensusPosition = consensus.weightedSum / consensus.totalWeight;
-        } else {
-             revert("No weight in consensus, cannot determine consensus position");
-        }
+        // Reveals keep the weighted mean, or the plurality option of categorical markets, up to
+        // date; the other modes measure distances from the consensus they settled
+        require(market.consensusMode == ConsensusMode.WeightedMean || consensusSettled[marketId], "Consensus not settled");
+        uint256[] memory ranks = _optionRanks(marketId);
 
-        uint256 revealedCommitmentCount = consensus.revealedCommitments;
-        uint256 targetRank;
-
-        // Calculate targetRank: ceil((winningPercentile * revealedCommitmentCount) / 10000)
-        // (A * B + D-1) / D for ceil(A*B/D)
-        targetRank = Math.mulDiv(market.winningPercentile, revealedCommitmentCount, 10000, Math.Rounding.Ceil);
-        if (targetRank == 0 && revealedCommitmentCount > 0) { // Ensure at least 1 winner if percentile > 0 and commitments exist
-            targetRank = 1;
+        // Continue counting from where earlier batches for this threshold stopped
+        ResolutionProgress memory progress = resolutionProgress[marketId][proposedWinningThreshold];
+        uint256 end = consensus.totalCommitments;
+        if (end - progress.processedCommitments > maxCommitments) {
+            end = progress.processedCommitments + maxCommitments;
         }
 
-        uint256 numStrictlyBelowPWT = 0;
-        uint256 numAtOrBelowPWT = 0;
-        consensus.winningWagers = 0;
-        consensus.winningCommitments = 0;
-
-        for (uint256 i = 0; i < consensus.totalCommitments; i++) {
+        for (uint256 i = progress.processedCommitments; i < end; i++) {
             Commitment storage commitment = commitments[marketId][i + 1];
             if (commitment.revealed) {
-                uint256 distance;
-                if (commitment.position > consensus.consensusPosition) {
-                    distance = commitment.position - consensus.consensusPosition;
-                } else {
-                    distance = consensus.consensusPosition - commitment.position;
-                }
+                uint256 distance = _commitmentDistance(marketId, i + 1, ranks);
 
                 if (distance < proposedWinningThreshold) {
-                    numStrictlyBelowPWT++;
+                    progress.numStrictlyBelow++;
                 }
                 if (distance <= proposedWinningThreshold) {
-                    numAtOrBelowPWT++;
-                    consensus.winningWagers += commitment.wager;
-                    consensus.winningCommitments++;
+                    progress.numAtOrBelow++;
+                    progress.winningWagers += commitment.wager;
+                    if (market.payoutCurve != PayoutCurve.Binary) {
+                        progress.winningScore += _payoutShare(marketId, commitment.wager, distance, proposedWinningThreshold);
+                    }
                 }
             }
         }
+        progress.processedCommitments = end;
 
-        require(numStrictlyBelowPWT < targetRank, "PWT too high or non-existent rank");
-        require(numAtOrBelowPWT >= targetRank, "PWT too low or non-existent rank");
+        if (end < consensus.totalCommitments) {
+            resolutionProgress[marketId][proposedWinningThreshold] = progress;
+            emit ResolutionProgressed(marketId, proposedWinningThreshold, end, consensus.totalCommitments);
+            return false;
+        }
+        delete resolutionProgress[marketId][proposedWinningThreshold];
 
+        uint256 targetRank = getTargetRank(marketId);
+        require(progress.numStrictlyBelow < targetRank, "PWT too high or non-existent rank");
+        require(progress.numAtOrBelow >= targetRank, "PWT too low or non-existent rank");
+
+        consensus.winningWagers = progress.winningWagers;
+        consensus.winningCommitments = progress.numAtOrBelow;
+        // Binary payouts score every winning wager 1, which sums up to winningWagers
+        consensus.winningScore = market.payoutCurve == PayoutCurve.Binary ? progress.winningWagers : progress.winningScore;
+        // Every winner scores at least 1, so this is 0 only when every winning wager is 0, in which
+        // case claims pay their share of 0 rather than dividing by 0
+        if (consensus.winningScore == 0) consensus.winningScore = 1;
         consensus.winningThreshold = proposedWinningThreshold;
         // Mark market as resolved
         consensus.resolved = true;
+
+        // Release the escrowed creator fees now that the market has resolved
+        uint256 creatorFees = consensus.escrowedCreatorFees;
+        consensus.escrowedCreatorFees = 0;
+        _accrueFee(marketId, market.creatorFeeRecipient, market.token, creatorFees);
+
+        emit MarketResolved(
+            marketId,
+            msg.sender,
+            consensus.consensusPosition,
+            proposedWinningThreshold,
+            progress.winningWagers,
+            progress.numAtOrBelow
+        );
+        return true;
+    }
+
+    /**
+     * @dev Stores the consensus of a WeightedMedian or TrimmedMean market, which resolve needs
+     * first. Only callable by consensusModule once it has verified the consensus, see VPOPConsensus.settle.
+     * @param marketId The ID of the market
+     * @param consensusPosition The verified consensus position
+     */
+    function settleConsensus(uint256 marketId, int256 consensusPosition) external {
+        require(msg.sender == address(consensusModule), "Only the consensus module can settle");
+        marketConsensus[marketId].consensusPosition = consensusPosition;
+        consensusSettled[marketId] = true;
+
+        emit ConsensusSettled(marketId, consensusPosition);
     }
 
     /**
@@ -659,10 +1134,46 @@ contract VPOP is Ownable {
      * @param commitmentId The ID of the commitment to claim for
      */
     function claim(uint256 marketId, uint256 commitmentId) external {
-        // Validate market exists and is resolved
-        require(marketId <= _marketIdCounter && marketId > 0, "Market does not exist");
+        _claim(msg.sender, marketId, commitmentId);
+    }
+
+    /**
+     * @dev Claims winnings for several commitments, which may be in different markets
+     * @param marketIds The market ID of each commitment
+     * @param commitmentIds The ID of each commitment to claim for
+     * @param allowFailures Whether to skip failing claims and emit BatchItemFailed instead of reverting
+     * @return succeeded The number of commitments claimed
+     */
+    function claimMany(
+        uint256[] calldata marketIds,
+        uint256[] calldata commitmentIds,
+        bool allowFailures
+    ) external returns (uint256 succeeded) {
+        require(marketIds.length == commitmentIds.length, "Array lengths must match");
+
+        for (uint256 i = 0; i < marketIds.length; i++) {
+            if (!allowFailures) {
+                _claim(msg.sender, marketIds[i], commitmentIds[i]);
+                succeeded++;
+            } else try this.claimFor(msg.sender, marketIds[i], commitmentIds[i]) {
+                succeeded++;
+            } catch (bytes memory reason) {
+                emit BatchItemFailed(marketIds[i], i, reason);
+            }
+        }
+    }
+
+    /**
+     * @dev Claims on behalf of a caller. Only callable by this contract, so claimMany
+     * can catch a failing claim without reverting the whole batch.
+     */
+    function claimFor(address caller, uint256 marketId, uint256 commitmentId) external onlySelf {
+        _claim(caller, marketId, commitmentId);
+    }
+
+    function _claim(address caller, uint256 marketId, uint256 commitmentId) private {
+        _requirePhase(marketId, MarketPhase.Resolved, "Market not resolved");
         MarketConsensus storage consensus = marketConsensus[marketId];
-        require(consensus.resolved, "Market not resolved");
         require(consensus.totalWinnings > 0, "No winnings to claim... yet");
         // Get the commitment
         Commitment storage commitment = commitments[marketId][commitmentId];
@@ -670,36 +1181,209 @@ contract VPOP is Ownable {
         require(!commitment.claimed, "Already claimed");
 
         // Check if position is winning
-        uint256 distance = commitment.position > consensus.consensusPosition ? 
-            commitment.position - consensus.consensusPosition : 
-            consensus.consensusPosition - commitment.position;
+        uint256 distance = _commitmentDistance(marketId, commitmentId, _optionRanks(marketId));
         require(distance <= consensus.winningThreshold, "Not a winning position");
 
-        Market storage market = markets[marketId];
+        // The commitment's share of the winnings, normalized by the shares resolve summed up
+        uint256 winnings = Math.mulDiv(
+            _payoutShare(marketId, commitment.wager, distance, consensus.winningThreshold),
+            consensus.totalWinnings,
+            consensus.winningScore
+        );
 
-        // Calculate winnings based on market type
-        uint256 winnings = 0;
-        if (whitelistRoots[marketId] != bytes32(0)) {
-            // Whitelisted market - equal distribution
-            winnings = consensus.totalWinnings / consensus.winningCommitments;
-        } else {
-            // Non-whitelisted market - proportional distribution based on wagers
-            winnings = Math.mulDiv(commitment.wager, consensus.totalWinnings, consensus.winningWagers);
-        }
-       
         // Mark as claimed
         commitment.claimed = true;
 
         // Transfer winnings
-        if (market.token == address(0)) {
-            (bool success, ) = payable(commitment.owner).call{value: winnings}("");
+        _transferOut(markets[marketId].token, commitment.owner, winnings);
+        
+        emit WinningsClaimed(marketId, commitment.owner, caller, commitmentId, winnings);
+    }
+
+    /**
+     * @dev Withdraws all fees accrued to the caller in the given token
+     * @param token The token address, or the zero address for ETH
+     */
+    function withdrawFees(address token) external {
+        uint256 amount = accruedFees[msg.sender][token];
+        require(amount > 0, "No fees to withdraw");
+
+        accruedFees[msg.sender][token] = 0;
+        _transferOut(token, msg.sender, amount);
+
+        emit FeesWithdrawn(msg.sender, token, amount);
+    }
+
+    /**
+     * @dev Cancels a market that can never be resolved. Callable by anyone once the reveal
+     * phase has ended with no reveals, or once the resolution grace period has passed
+     * without anyone calling resolve.
+     * @param marketId The ID of the market to cancel
+     */
+    function cancelMarket(uint256 marketId) external {
+        MarketPhase phase = getMarketPhase(marketId);
+        require(phase != MarketPhase.Resolved, "Market already resolved");
+        require(phase != MarketPhase.Cancelled, "Market already cancelled");
+        require(phase == MarketPhase.AwaitingResolution, "Reveal phase has not ended");
+
+        MarketConsensus storage consensus = marketConsensus[marketId];
+        (, , uint256 revealEnd) = getPhaseTimestamps(marketId);
+        require(
+            consensus.revealedCommitments == 0 || block.timestamp > revealEnd + RESOLUTION_GRACE_PERIOD,
+            "Market can still be resolved"
+        );
+
+        consensus.cancelled = true;
+
+        emit MarketCancelled(marketId, msg.sender);
+    }
+
+    /**
+     * @dev Refunds the net stake and escrowed creator fee of a commitment in a cancelled market to its owner
+     * @param marketId The ID of the cancelled market
+     * @param commitmentId The ID of the commitment to refund
+     */
+    function claimRefund(uint256 marketId, uint256 commitmentId) external {
+        _requirePhase(marketId, MarketPhase.Cancelled, "Market not cancelled");
+
+        Commitment storage commitment = commitments[marketId][commitmentId];
+        require(commitment.owner != address(0), "Commitment does not exist");
+        require(!commitment.claimed, "Already claimed");
+
+        commitment.claimed = true;
+        uint256 amount = uint256(commitment.stake) + commitment.creatorFee;
+        _transferOut(markets[marketId].token, commitment.owner, amount);
+
+        emit RefundClaimed(marketId, commitment.owner, msg.sender, commitmentId, amount);
+    }
+
+    /**
+     * @dev Refunds everything the caller added through addWinnings to a cancelled market
+     * @param marketId The ID of the cancelled market
+     */
+    function claimSponsorshipRefund(uint256 marketId) external {
+        _requirePhase(marketId, MarketPhase.Cancelled, "Market not cancelled");
+
+        uint256 amount = sponsorships[marketId][msg.sender];
+        require(amount > 0, "No sponsorship to refund");
+
+        sponsorships[marketId][msg.sender] = 0;
+        _transferOut(markets[marketId].token, msg.sender, amount);
+
+        emit SponsorshipRefunded(marketId, msg.sender, amount);
+    }
+
+    /**
+     * @dev Returns the weight of a wager committed at timestamp, see VPOPMath.weight
+     */
+    function _weight(Market storage market, uint256 wager, uint256 timestamp) private view returns (uint128) {
+        return uint128(math.weight(
+            market.decayCurve,
+            market.decayFactor,
+            market.decayParameter,
+            market.commitDuration,
+            timestamp - market.commitStart,
+            wager
+        ));
+    }
+
+    /**
+     * @dev Returns the rank of every option of a categorical market, see VPOPConsensus.rankOptions,
+     * or an empty array for numeric markets
+     */
+    function _optionRanks(uint256 marketId) private view returns (uint256[] memory ranks) {
+        Market storage market = markets[marketId];
+        if (market.marketType == MarketType.Categorical) {
+            ranks = consensusModule.getOptionRanks(marketId, uint256(market.upperBound) + 1);
+        }
+    }
+
+    /**
+     * @dev Returns the share of the winnings a winning position gets before normalization, its wager
+     * times its payout score. Every commitment of a whitelisted market has the same wager of 100000,
+     * so those split by payout score alone.
+     */
+    function _payoutShare(uint256 marketId, uint256 wager, uint256 distance, uint256 winningThreshold) private view returns (uint256) {
+        Market storage market = markets[marketId];
+        return wager * math.payoutScore(market.payoutCurve, market.payoutParameter, distance, winningThreshold);
+    }
+
+    /**
+     * @dev Reverts with message unless the market is in the given phase
+     */
+    function _requirePhase(uint256 marketId, MarketPhase phase, string memory message) private view {
+        require(getMarketPhase(marketId) == phase, message);
+    }
+
+    /**
+     * @dev Returns the distance of a revealed commitment from consensus, see _distance. Bundle
+     * markets combine the distances of every question, see VPOPConsensus.getBundleDistance.
+     */
+    function _commitmentDistance(uint256 marketId, uint256 commitmentId, uint256[] memory ranks) private view returns (uint256) {
+        if (markets[marketId].marketType == MarketType.Bundle) {
+            return consensusModule.getBundleDistance(marketId, commitmentId);
+        }
+        return _distance(ranks, commitments[marketId][commitmentId].position, marketConsensus[marketId].consensusPosition);
+    }
+
+    /**
+     * @dev Returns the distance of a position from consensus: the rank of its option for
+     * categorical markets, the absolute distance from the consensus position otherwise, which
+     * holds on either side of zero
+     * @param ranks The option ranks of a categorical market, empty for numeric markets
+     */
+    function _distance(uint256[] memory ranks, int256 position, int256 consensusPosition) private pure returns (uint256) {
+        if (ranks.length > 0) return ranks[uint256(position)];
+        return SignedMath.abs(position - consensusPosition);
+    }
+
+    /**
+     * @dev Accrues the fee split and escrows the creator fee on an amount received for a market,
+     * using the fee terms the market was created with, and adds the rest to the pot
+     * @param marketId The ID of the market
+     * @param token The token address, or the zero address for ETH
+     * @param amount The amount received
+     * @return winnings The amount added to the pot after fees
+     * @return creatorFee The creator fee held in escrow until the market resolves
+     */
+    function _collectFees(uint256 marketId, address token, uint256 amount) private returns (uint256 winnings, uint256 creatorFee) {
+        Market storage market = markets[marketId];
+        FeeRecipient[] storage feeSplit = feeSplits[market.feeSplitId];
+        winnings = amount;
+        for (uint256 i = 0; i < feeSplit.length; i++) {
+            uint256 fee = Math.mulDiv(amount, feeSplit[i].rate, 10000);
+            _accrueFee(marketId, feeSplit[i].recipient, token, fee);
+            winnings -= fee;
+        }
+
+        creatorFee = Math.mulDiv(amount, market.creatorFeeRate, 10000);
+        marketConsensus[marketId].escrowedCreatorFees += creatorFee;
+        winnings -= creatorFee;
+        marketConsensus[marketId].totalWinnings += winnings;
+    }
+
+    /**
+     * @dev Credits a fee to a recipient's withdrawable balance
+     */
+    function _accrueFee(uint256 marketId, address recipient, address token, uint256 amount) private {
+        if (amount == 0) return;
+        accruedFees[recipient][token] += amount;
+        emit FeesAccrued(marketId, recipient, token, amount);
+    }
+
+    /**
+     * @dev Sends ETH or ERC20 tokens held by the contract
+     * @param token The token address, or the zero address for ETH
+     * @param to The recipient
+     * @param amount The amount to send
+     */
+    function _transferOut(address token, address to, uint256 amount) private {
+        if (token == address(0)) {
+            (bool success, ) = payable(to).call{value: amount}("");
             require(success, "Transfer failed");
         } else {
-            IERC20 token = IERC20(market.token);
-            token.safeTransfer(commitment.owner, winnings);
+            IERC20(token).safeTransfer(to, amount);
         }
-        
-        emit WinningsClaimed(marketId, msg.sender, commitmentId, winnings);
     }
     
     // //==//==//==//==//==//==//==//==//==//==//==//==//==//==//==//==//==//==
@@ -707,20 +1391,94 @@ contract VPOP is Ownable {
     // //==//==//==//==//==//==//==//==//==//==//==//==//==//==//==//==//==//==
 
     /**
-     * @dev Returns whether a position is a winning position
+     * @dev Returns the phase a market is in. Commits are accepted up to and including commitEnd
+     * and reveals up to and including revealEnd, see getPhaseTimestamps.
      * @param marketId The ID of the market
-     * @param position The position to check
-     * @return bool True if the position is a winning position
      */
-    function isWinningPosition(uint256 marketId, uint256 position) public view returns (bool) {
+    function getMarketPhase(uint256 marketId) public view returns (MarketPhase) {
+        require(marketId <= _marketIdCounter && marketId > 0, "Market does not exist");
         MarketConsensus storage consensus = marketConsensus[marketId];
-        require(consensus.resolved, "Market not resolved");
-        
-        uint256 distance = position > consensus.consensusPosition ? 
-            position - consensus.consensusPosition : 
-            consensus.consensusPosition - position;
-            
-        return distance <= consensus.winningThreshold;
+        if (consensus.cancelled) return MarketPhase.Cancelled;
+        if (consensus.resolved) return MarketPhase.Resolved;
+
+        (uint256 commitStart, uint256 commitEnd, uint256 revealEnd) = getPhaseTimestamps(marketId);
+        if (block.timestamp < commitStart) return MarketPhase.Scheduled;
+        if (block.timestamp <= commitEnd) return MarketPhase.Commit;
+        if (block.timestamp <= revealEnd) return MarketPhase.Reveal;
+        return MarketPhase.AwaitingResolution;
+    }
+
+    /**
+     * @dev Returns the timestamps bounding the phases of a market
+     * @param marketId The ID of the market
+     * @return commitStart The first second commits are accepted
+     * @return commitEnd The last second commits are accepted
+     * @return revealEnd The last second reveals are accepted
+     */
+    function getPhaseTimestamps(uint256 marketId) public view returns (uint256 commitStart, uint256 commitEnd, uint256 revealEnd) {
+        Market storage market = markets[marketId];
+        commitStart = market.commitStart;
+        commitEnd = commitStart + market.commitDuration;
+        revealEnd = commitEnd + market.revealDuration;
+    }
+
+    /**
+     * @dev Returns the rank resolve checks the winning threshold against:
+     * ceil(winningPercentile * revealedCommitments / 10000), at least 1
+     * @param marketId The ID of the market
+     */
+    function getTargetRank(uint256 marketId) public view returns (uint256 targetRank) {
+        uint256 revealedCommitmentCount = marketConsensus[marketId].revealedCommitments;
+        // (A * B + D-1) / D for ceil(A*B/D)
+        targetRank = Math.mulDiv(markets[marketId].winningPercentile, revealedCommitmentCount, 10000, Math.Rounding.Ceil);
+        if (targetRank == 0 && revealedCommitmentCount > 0) { // Ensure at least 1 winner if percentile > 0 and commitments exist
+            targetRank = 1;
+        }
+    }
+
+    /**
+     * @dev Returns the commitment hash expected by reveal. The hash is bound to the
+     * chain, this contract, the market and the committing account, so a copied hash
+     * can never be revealed by anyone other than the original committer.
+     * @param marketId The ID of the market
+     * @param account The account that submits the commitment
+     * @param position The position being committed
+     * @param wager The wager stored for the commitment (100000 in whitelisted markets)
+     * @param salt A random 32-byte salt kept secret until reveal
+     * @return The versioned commitment hash
+     */
+    function getCommitmentHash(
+        uint256 marketId,
+        address account,
+        int256 position,
+        uint256 wager,
+        bytes32 salt
+    ) public view returns (bytes32) {
+        return keccak256(abi.encode(
+            COMMITMENT_HASH_VERSION,
+            block.chainid,
+            address(this),
+            marketId,
+            account,
+            position,
+            wager,
+            salt
+        ));
+    }
+
+    /**
+     * @dev Returns the recipients and rates of a fee split
+     * @param feeSplitId The ID of the fee split, as stored on each market
+     */
+    function getFeeSplit(uint256 feeSplitId) public view returns (FeeRecipient[] memory) {
+        return feeSplits[feeSplitId];
+    }
+
+    /**
+     * @dev Returns the ID of the fee split new markets are created with
+     */
+    function getCurrentFeeSplitId() public view returns (uint256) {
+        return feeSplits.length - 1;
     }
 
     /**
@@ -730,6 +1488,30 @@ contract VPOP is Ownable {
         return _marketIdCounter;
     }
 
+    /**
+     * @dev Returns the number of commitments an account has made
+     * @param user The account
+     */
+    function getUserCommitmentCount(address user) external view returns (uint256) {
+        return userCommitments[user].length;
+    }
+
+    /**
+     * @dev Returns a page of the commitments an account has made, oldest first
+     * @param user The account
+     * @param offset The number of commitments to skip
+     * @param limit The maximum number of commitments to return
+     */
+    function getUserCommitmentRefs(address user, uint256 offset, uint256 limit) external view returns (CommitmentRef[] memory refs) {
+        CommitmentRef[] storage all = userCommitments[user];
+        uint256 end = Math.min(offset + limit, all.length);
+        uint256 start = Math.min(offset, end);
+        refs = new CommitmentRef[](end - start);
+        for (uint256 i = start; i < end; i++) {
+            refs[i - start] = all[i];
+        }
+    }
+
     /**
      * @dev Returns a a market by its ID
      * @param marketId The ID of the market to check
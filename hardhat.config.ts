@@ -10,6 +10,7 @@
 
 require("@nomicfoundation/hardhat-toolbox");
 require("dotenv").config();
+require("./tasks/vpop");
 
 
 // const INFURA_API_KEY = process.env.INFURA_KEY;
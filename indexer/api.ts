@@ -0,0 +1,109 @@
+import http from "http";
+import { isAddress } from "ethers";
+import { MarketPhase } from "../sdk/phase";
+import { getBundleQuestions, getClaimable, getConsensusHistory, getMarket, getStatus, getUserCommitments, listMarkets } from "./queries";
+import { IndexerStore } from "./store";
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+type Route = {
+  pattern: RegExp,
+  handler: (store: IndexerStore, params: string[], query: URLSearchParams) => unknown
+};
+
+function parseMarketId(value: string): number {
+  const marketId = Number(value);
+  if (!Number.isSafeInteger(marketId) || marketId <= 0) {
+    throw new HttpError(400, `Invalid market ID "${value}"`);
+  }
+  return marketId;
+}
+
+function parseOwner(value: string): string {
+  if (!isAddress(value)) {
+    throw new HttpError(400, `Invalid address "${value}"`);
+  }
+  return value;
+}
+
+const PHASES = Object.values(MarketPhase) as string[];
+
+const ROUTES: Route[] = [
+  {
+    pattern: /^\/status$/,
+    handler: (store) => getStatus(store)
+  },
+  {
+    // ?phase=scheduled|commit|reveal|awaitingResolution|resolved|cancelled
+    pattern: /^\/markets$/,
+    handler: (store, _, query) => {
+      const phase = query.get("phase") ?? undefined;
+      if (phase !== undefined && !PHASES.includes(phase)) {
+        throw new HttpError(400, `Unknown phase "${phase}", expected one of ${PHASES.join(", ")}`);
+      }
+      return listMarkets(store, phase as MarketPhase | undefined);
+    }
+  },
+  {
+    pattern: /^\/markets\/([^/]+)$/,
+    handler: (store, [marketId]) => {
+      const market = getMarket(store, parseMarketId(marketId));
+      if (!market) throw new HttpError(404, `Market ${marketId} not found`);
+      return market;
+    }
+  },
+  {
+    pattern: /^\/markets\/([^/]+)\/consensus$/,
+    handler: (store, [marketId]) => getConsensusHistory(store, parseMarketId(marketId))
+  },
+  {
+    pattern: /^\/markets\/([^/]+)\/questions$/,
+    handler: (store, [marketId]) => getBundleQuestions(store, parseMarketId(marketId))
+  },
+  {
+    pattern: /^\/users\/([^/]+)\/commitments$/,
+    handler: (store, [owner]) => getUserCommitments(store, parseOwner(owner))
+  },
+  {
+    pattern: /^\/users\/([^/]+)\/claimable$/,
+    handler: (store, [owner]) => getClaimable(store, parseOwner(owner))
+  }
+];
+
+/**
+ * Creates a read-only HTTP/JSON server over an IndexerStore:
+ *   GET /status
+ *   GET /markets?phase=<phase>
+ *   GET /markets/:id
+ *   GET /markets/:id/consensus
+ *   GET /markets/:id/questions
+ *   GET /users/:address/commitments
+ *   GET /users/:address/claimable
+ */
+export function createIndexerServer(store: IndexerStore): http.Server {
+  return http.createServer((request, response) => {
+    let status = 200;
+    let body: unknown;
+    try {
+      if (request.method != "GET") {
+        throw new HttpError(405, "Only GET is supported");
+      }
+      const url = new URL(request.url || "/", "http://localhost");
+      const route = ROUTES.find(({ pattern }) => pattern.test(url.pathname));
+      if (!route) {
+        throw new HttpError(404, `No route for ${url.pathname}`);
+      }
+      const params = url.pathname.match(route.pattern)!.slice(1).map(decodeURIComponent);
+      body = route.handler(store, params, url.searchParams);
+    } catch (error: any) {
+      status = error instanceof HttpError ? error.status : 500;
+      body = { error: error.message };
+    }
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(body));
+  });
+}
@@ -0,0 +1,7 @@
+export { createIndexerServer } from "./api";
+export { INDEXER_BLOCK_RANGE, INDEXER_POLL_INTERVAL, VPOPIndexer } from "./indexer";
+export type { SyncReport, VPOPIndexerOptions } from "./indexer";
+export { getBundleQuestions, getClaimable, getConsensusHistory, getIndexedTimestamp, getMarket, getStatus, getUserCommitments, listMarkets } from "./queries";
+export type { BundleQuestionSummary, ConsensusPoint, MarketSummary, UserCommitment } from "./queries";
+export { IndexerStore } from "./store";
+export type { Row } from "./store";
@@ -0,0 +1,309 @@
+import { Log, LogDescription, Provider } from "ethers";
+import { VPOP, VPOPConsensus__factory } from "../typechain-types";
+import { MarketType, rankOptions, sumOptionWeights } from "../sdk/categorical";
+import { ConsensusMode, RevealedWeight, computeConsensus, roundedMean } from "../sdk/consensus";
+import { PollingService } from "../sdk/polling";
+import { getTickSize } from "../sdk/units";
+import { getRevealedWeights } from "./queries";
+import { IndexerStore } from "./store";
+
+export const INDEXER_POLL_INTERVAL = 5_000; // ms
+export const INDEXER_BLOCK_RANGE = 2_000; // blocks per eth_getLogs request
+
+export type VPOPIndexerOptions = {
+  fromBlock?: number, // first block to index on a fresh database, usually the deployment block
+  confirmations?: number, // blocks to stay behind the head, defaults to 0
+  blockRange?: number,
+  pollInterval?: number, // ms between syncs
+  log?: (message: string) => void
+};
+
+export type SyncReport = {
+  fromBlock: number,
+  toBlock: number,
+  events: number,
+  rolledBackTo?: number // set when a reorg was detected and blocks after this one were reindexed
+};
+
+// Data read from the chain for an event, fetched before the range is written
+type Enrichment = {
+  market?: VPOP.MarketStructOutput,
+  totalWinnings?: bigint,
+  winningScore?: bigint,
+  refunds?: { commitmentId: bigint, amount: bigint }[]
+};
+
+type IndexedEvent = { log: Log, event: LogDescription, enrichment: Enrichment };
+
+/**
+ * Indexes VPOP events, and the bundle events of its consensus module, into an IndexerStore. Each sync first checks the stored block hashes
+ * against the chain and rolls back to the last block both agree on, then indexes new blocks
+ * range by range, saving the checkpoint with every range.
+ */
+export class VPOPIndexer extends PollingService<SyncReport> {
+  readonly vpop: VPOP;
+  readonly provider: Provider;
+  readonly store: IndexerStore;
+  private readonly options: Required<Pick<VPOPIndexerOptions, "fromBlock" | "confirmations" | "blockRange">>;
+  private readonly consensusInterface = VPOPConsensus__factory.createInterface();
+  private consensusModule?: string;
+
+  constructor(vpop: VPOP, provider: Provider, store: IndexerStore, options: VPOPIndexerOptions = {}) {
+    super(options.pollInterval ?? INDEXER_POLL_INTERVAL, options.log ?? (() => {}));
+    this.vpop = vpop.connect(provider) as VPOP;
+    this.provider = provider;
+    this.store = store;
+    this.options = {
+      fromBlock: options.fromBlock ?? 0,
+      confirmations: options.confirmations ?? 0,
+      blockRange: options.blockRange ?? INDEXER_BLOCK_RANGE
+    };
+  }
+
+  tick(): Promise<SyncReport> {
+    return this.sync();
+  }
+
+  /**
+   * Indexes every block up to the head minus the required confirmations
+   */
+  async sync(): Promise<SyncReport> {
+    const rolledBackTo = await this.handleReorg();
+    const lastBlock = this.store.getMeta("lastBlock");
+    const fromBlock = lastBlock !== undefined ? Number(lastBlock) + 1 : this.options.fromBlock;
+    const head = (await this.provider.getBlockNumber()) - this.options.confirmations;
+
+    let events = 0;
+    for (let start = fromBlock; start <= head; start += this.options.blockRange) {
+      const end = Math.min(start + this.options.blockRange - 1, head);
+      events += await this.indexRange(start, end);
+    }
+    if (events > 0) {
+      this.log(`Indexed ${events} events from blocks ${fromBlock} to ${head}`);
+    }
+    return { fromBlock, toBlock: Math.max(head, fromBlock - 1), events, rolledBackTo };
+  }
+
+  // Returns the block rolled back to, if the chain no longer contains the stored blocks
+  private async handleReorg(): Promise<number | undefined> {
+    const stored = this.store.all("SELECT number, hash FROM blocks ORDER BY number DESC");
+    if (stored.length == 0) return undefined;
+
+    let ancestor = this.options.fromBlock - 1;
+    for (const { number, hash } of stored) {
+      const block = await this.provider.getBlock(Number(number));
+      if (block?.hash == hash) {
+        ancestor = Number(number);
+        break;
+      }
+    }
+    if (ancestor == Number(stored[0].number)) return undefined;
+
+    this.log(`Reorg detected, reindexing from block ${ancestor + 1}`);
+    this.store.transaction(() => {
+      this.store.rollback(ancestor);
+      this.store.setMeta("lastBlock", ancestor.toString());
+    });
+    await this.store.save();
+    return ancestor;
+  }
+
+  private async indexRange(fromBlock: number, toBlock: number): Promise<number> {
+    const address = await this.vpop.getAddress();
+    this.consensusModule ??= await this.vpop.consensusModule();
+    const logs = await this.provider.getLogs({ address: [address, this.consensusModule], fromBlock, toBlock });
+
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      const event = log.address.toLowerCase() == this.consensusModule.toLowerCase()
+        ? this.consensusInterface.parseLog(log)
+        : this.vpop.interface.parseLog(log);
+      if (event) {
+        events.push({ log, event, enrichment: await this.enrich(event, log.blockNumber) });
+      }
+    }
+
+    // Record the hash of every block with events and of the range end, for reorg detection
+    const blockNumbers = [...new Set([...logs.map((log) => log.blockNumber), toBlock])];
+    const blocks = await Promise.all(blockNumbers.map((number) => this.provider.getBlock(number)));
+
+    this.store.transaction(() => {
+      for (const { log, event, enrichment } of events) {
+        this.apply(log, event, enrichment);
+      }
+      for (const block of blocks) {
+        this.store.run(
+          "INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)",
+          [block!.number, block!.hash, block!.timestamp]
+        );
+      }
+      this.store.setMeta("lastBlock", toBlock.toString());
+    });
+    await this.store.save();
+    return events.length;
+  }
+
+  // Reads what the events leave out, as of the block they were emitted in
+  private async enrich(event: LogDescription, blockTag: number): Promise<Enrichment> {
+    const marketId = event.args.marketId;
+    switch (event.name) {
+      case "MarketCreated":
+        return { market: await this.vpop.getMarket(marketId, { blockTag }) };
+      case "MarketResolved": {
+        const { totalWinnings, winningScore } = await this.vpop.marketConsensus(marketId, { blockTag });
+        return { totalWinnings, winningScore };
+      }
+      case "MarketCancelled": {
+        const { totalCommitments } = await this.vpop.marketConsensus(marketId, { blockTag });
+        const refunds = [];
+        for (let commitmentId = 1n; commitmentId <= totalCommitments; commitmentId++) {
+          const commitment = await this.vpop.commitments(marketId, commitmentId, { blockTag });
+          refunds.push({ commitmentId, amount: commitment.stake + commitment.creatorFee });
+        }
+        return { refunds };
+      }
+      default:
+        return {};
+    }
+  }
+
+  private apply(log: Log, event: LogDescription, enrichment: Enrichment) {
+    const args = event.args;
+    const block = log.blockNumber;
+    switch (event.name) {
+      case "MarketCreated": {
+        const market = enrichment.market!;
+        this.store.run(
+          `INSERT OR REPLACE INTO markets (market_id, creator, token, lower_bound, upper_bound, decimals, min_wager, decay_factor,
+            decay_curve, decay_parameter, created_at, commit_start, commit_duration, reveal_duration, winning_percentile,
+            consensus_mode, trim_rate, payout_curve, payout_parameter, market_type, creator_fee_rate, ipfs_hash, block_number)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            Number(args.marketId), market.creator, market.token, market.lowerBound.toString(), market.upperBound.toString(),
+            Number(market.decimals), market.minWager.toString(), market.decayFactor.toString(),
+            Number(market.decayCurve), Number(market.decayParameter), Number(market.createdAt),
+            Number(market.commitStart), Number(market.commitDuration), Number(market.revealDuration), Number(market.winningPercentile),
+            Number(market.consensusMode), Number(market.trimRate), Number(market.payoutCurve), Number(market.payoutParameter),
+            Number(market.marketType), Number(market.creatorFeeRate), market.ipfsHash, block
+          ]
+        );
+        break;
+      }
+      case "WhitelistRootUpdated":
+        this.store.run(
+          "INSERT OR REPLACE INTO whitelist_roots (market_id, root, block_number, log_index) VALUES (?, ?, ?, ?)",
+          [Number(args.marketId), args.whitelistRoot, block, log.index]
+        );
+        break;
+      case "MarketMetadataUpdated":
+        this.store.run(
+          "INSERT OR REPLACE INTO metadata_updates (market_id, ipfs_hash, block_number, log_index) VALUES (?, ?, ?, ?)",
+          [Number(args.marketId), args.ipfsHash, block, log.index]
+        );
+        break;
+      case "CommitmentCreated":
+        this.store.run(
+          `INSERT OR REPLACE INTO commitments (market_id, commitment_id, owner, commitment_hash, wager, weight, block_number)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [Number(args.marketId), Number(args.commitmentId), args.user, args.commitmentHash, args.wager.toString(), args.weight.toString(), block]
+        );
+        break;
+      case "CommitmentRevealed":
+        this.applyReveal(log, event);
+        break;
+      case "BundleQuestionsAssigned":
+        args.questions.forEach((question: { lowerBound: bigint, upperBound: bigint }, i: number) => this.store.run(
+          "INSERT OR REPLACE INTO bundle_questions (market_id, question, lower_bound, upper_bound, block_number) VALUES (?, ?, ?, ?, ?)",
+          [Number(args.marketId), i, question.lowerBound.toString(), question.upperBound.toString(), block]
+        ));
+        break;
+      case "BundleRevealed":
+        args.positions.forEach((position: bigint, i: number) => this.store.run(
+          "INSERT OR REPLACE INTO bundle_positions (market_id, commitment_id, question, position, block_number) VALUES (?, ?, ?, ?, ?)",
+          [Number(args.marketId), Number(args.commitmentId), i, position.toString(), block]
+        ));
+        break;
+      case "MarketResolved":
+        this.store.run(
+          `INSERT OR REPLACE INTO resolutions (market_id, resolver, consensus_position, winning_threshold, winning_wagers,
+            winning_commitments, winning_score, total_winnings, block_number)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            Number(args.marketId), args.resolver, args.consensusPosition.toString(), args.winningThreshold.toString(),
+            args.winningWagers.toString(), Number(args.winningCommitments), enrichment.winningScore!.toString(),
+            enrichment.totalWinnings!.toString(), block
+          ]
+        );
+        break;
+      case "WinningsAdded":
+        this.store.run(
+          "INSERT OR REPLACE INTO winnings_added (market_id, sponsor, amount, total_winnings, block_number, log_index) VALUES (?, ?, ?, ?, ?, ?)",
+          [Number(args.marketId), args.sponsor, args.amount.toString(), args.totalWinnings.toString(), block, log.index]
+        );
+        break;
+      case "MarketCancelled":
+        this.store.run("INSERT OR REPLACE INTO cancellations (market_id, caller, block_number) VALUES (?, ?, ?)", [Number(args.marketId), args.caller, block]);
+        for (const refund of enrichment.refunds!) {
+          this.store.run(
+            "INSERT OR REPLACE INTO refunds (market_id, commitment_id, amount, block_number) VALUES (?, ?, ?, ?)",
+            [Number(args.marketId), Number(refund.commitmentId), refund.amount.toString(), block]
+          );
+        }
+        break;
+      case "WinningsClaimed":
+      case "RefundClaimed":
+        this.store.run(
+          "INSERT OR REPLACE INTO claims (market_id, commitment_id, kind, caller, amount, block_number) VALUES (?, ?, ?, ?, ?, ?)",
+          [Number(args.marketId), Number(args.commitmentId), event.name == "WinningsClaimed" ? "winnings" : "refund", args.caller, args.amount.toString(), block]
+        );
+        break;
+    }
+  }
+
+  // Tracks the consensus the same way reveal does: weightedSum / totalWeight over revealed commitments
+  // rounded to the nearest tick, or the robust consensus of the market so far
+  private applyReveal(log: Log, event: LogDescription) {
+    const marketId = Number(event.args.marketId);
+    const commitmentId = Number(event.args.commitmentId);
+    const previous = this.store.get(
+      "SELECT total_weight, weighted_sum FROM reveals WHERE market_id = ? ORDER BY block_number DESC, log_index DESC LIMIT 1",
+      [marketId]
+    );
+    const commitment = this.store.get("SELECT weight FROM commitments WHERE market_id = ? AND commitment_id = ?", [marketId, commitmentId]);
+    if (!commitment) {
+      throw new Error(`Reveal of unknown commitment ${commitmentId} in market ${marketId}`);
+    }
+
+    const weight = BigInt(commitment.weight as string);
+    const position = BigInt(event.args.position);
+    const totalWeight = BigInt((previous?.total_weight as string) || "0") + weight;
+    const weightedSum = BigInt((previous?.weighted_sum as string) || "0") + position * weight;
+    const consensusPosition = this.liveConsensus(marketId, { position, weight }, totalWeight, weightedSum);
+    this.store.run(
+      `INSERT OR REPLACE INTO reveals (market_id, commitment_id, caller, position, total_weight, weighted_sum, consensus_position, block_number, log_index)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        marketId, commitmentId, event.args.caller, position.toString(), totalWeight.toString(), weightedSum.toString(),
+        consensusPosition.toString(), log.blockNumber, log.index
+      ]
+    );
+  }
+
+  // WeightedMedian and TrimmedMean markets only settle their consensus at resolution, so their
+  // live consensus is recomputed from every reveal so far, as the SDK would propose it.
+  // Categorical markets follow their plurality option, the one ranked 0.
+  private liveConsensus(marketId: number, reveal: RevealedWeight, totalWeight: bigint, weightedSum: bigint): bigint {
+    const market = this.store.get("SELECT consensus_mode, trim_rate, market_type, upper_bound, decimals FROM markets WHERE market_id = ?", [marketId]);
+    const categorical = market?.market_type == MarketType.Categorical;
+    const tick = market ? getTickSize(market.decimals as number) : 1n;
+    if (!market || (!categorical && market.consensus_mode == ConsensusMode.WeightedMean)) {
+      return totalWeight > 0n ? roundedMean(weightedSum, totalWeight, tick) : 0n;
+    }
+    const reveals = [...getRevealedWeights(this.store, marketId), reveal];
+    if (categorical) {
+      const weights = sumOptionWeights(BigInt(market.upper_bound as string) + 1n, reveals);
+      return BigInt(rankOptions(weights).indexOf(0n));
+    }
+    return computeConsensus(market.consensus_mode as ConsensusMode, market.trim_rate as number, reveals, tick).consensusPosition;
+  }
+}
@@ -0,0 +1,343 @@
+import { ZeroHash } from "ethers";
+import { BundleQuestion, RevealedBundle, bundleDistance, computeBundleConsensus } from "../sdk/bundle";
+import { MarketType, rankOptions, sumOptionWeights } from "../sdk/categorical";
+import { ConsensusMode, RevealedWeight } from "../sdk/consensus";
+import { DecayCurve } from "../sdk/decay";
+import { PayoutCurve, getWinnings } from "../sdk/payout";
+import { MarketPhase, getMarketPhase, getPhaseTimestamps } from "../sdk/phase";
+import { getTickSize } from "../sdk/units";
+import { IndexerStore, Row } from "./store";
+
+// Read-side of the indexer. Amounts and positions are returned as decimal strings.
+
+export type MarketSummary = {
+  marketId: number,
+  phase: MarketPhase,
+  creator: string,
+  token: string,
+  lowerBound: string,
+  upperBound: string,
+  decimals: number,
+  minWager: string,
+  decayFactor: string,
+  decayCurve: DecayCurve,
+  decayParameter: number,
+  createdAt: number,
+  commitStart: number,
+  commitEnd: number,
+  revealEnd: number,
+  winningPercentile: number,
+  consensusMode: ConsensusMode,
+  trimRate: number,
+  payoutCurve: PayoutCurve,
+  payoutParameter: number,
+  marketType: MarketType,
+  creatorFeeRate: number,
+  ipfsHash: string,
+  whitelisted: boolean,
+  totalCommitments: number,
+  revealedCommitments: number,
+  totalWagers: string,
+  consensusPosition: string | null, // latest consensus, or the final one once resolved
+  winningThreshold: string | null
+};
+
+export type ConsensusPoint = {
+  commitmentId: number,
+  position: string,
+  consensusPosition: string,
+  revealedCommitments: number,
+  blockNumber: number
+};
+
+export type BundleQuestionSummary = {
+  question: number,
+  lowerBound: string,
+  upperBound: string,
+  consensusPosition: string // weighted mean of the positions revealed so far
+};
+
+export type UserCommitment = {
+  marketId: number,
+  commitmentId: number,
+  token: string,
+  wager: string,
+  revealed: boolean,
+  position: string | null,
+  positions: string[] | null, // one per question once a bundle commitment is revealed
+  winning: boolean | null, // null until the market resolves
+  claimed: boolean,
+  claimedAmount: string | null,
+  claimable: string // winnings or refund that can be claimed now
+};
+
+/**
+ * Timestamp of the latest indexed block, used to derive phases
+ */
+export function getIndexedTimestamp(store: IndexerStore): bigint {
+  const row = store.get("SELECT timestamp FROM blocks ORDER BY number DESC LIMIT 1");
+  return BigInt((row?.timestamp as number) || 0);
+}
+
+export function getStatus(store: IndexerStore) {
+  const lastBlock = store.getMeta("lastBlock");
+  return {
+    lastBlock: lastBlock !== undefined ? Number(lastBlock) : null,
+    timestamp: Number(getIndexedTimestamp(store))
+  };
+}
+
+const MARKET_QUERY = `
+  SELECT m.*,
+    (SELECT COUNT(*) FROM commitments c WHERE c.market_id = m.market_id) AS total_commitments,
+    (SELECT COUNT(*) FROM reveals r WHERE r.market_id = m.market_id) AS revealed_commitments,
+    (SELECT ipfs_hash FROM metadata_updates u WHERE u.market_id = m.market_id ORDER BY block_number DESC, log_index DESC LIMIT 1) AS updated_ipfs_hash,
+    (SELECT root FROM whitelist_roots w WHERE w.market_id = m.market_id ORDER BY block_number DESC, log_index DESC LIMIT 1) AS whitelist_root,
+    (SELECT consensus_position FROM reveals r WHERE r.market_id = m.market_id ORDER BY block_number DESC, log_index DESC LIMIT 1) AS live_consensus,
+    res.consensus_position AS final_consensus,
+    res.winning_threshold,
+    can.market_id IS NOT NULL AS cancelled
+  FROM markets m
+  LEFT JOIN resolutions res ON res.market_id = m.market_id
+  LEFT JOIN cancellations can ON can.market_id = m.market_id
+`;
+
+function toMarketSummary(store: IndexerStore, row: Row, timestamp: bigint): MarketSummary {
+  const marketId = row.market_id as number;
+  const wagers = store.all("SELECT wager FROM commitments WHERE market_id = ?", [marketId]);
+  const timing = {
+    commitStart: BigInt(row.commit_start as number),
+    commitDuration: BigInt(row.commit_duration as number),
+    revealDuration: BigInt(row.reveal_duration as number)
+  };
+  const { commitEnd, revealEnd } = getPhaseTimestamps(timing);
+  const phase = getMarketPhase(timing, { resolved: row.winning_threshold !== null, cancelled: row.cancelled == 1 }, timestamp);
+
+  return {
+    marketId,
+    phase,
+    creator: row.creator as string,
+    token: row.token as string,
+    lowerBound: row.lower_bound as string,
+    upperBound: row.upper_bound as string,
+    decimals: row.decimals as number,
+    minWager: row.min_wager as string,
+    decayFactor: row.decay_factor as string,
+    decayCurve: row.decay_curve as DecayCurve,
+    decayParameter: row.decay_parameter as number,
+    createdAt: row.created_at as number,
+    commitStart: row.commit_start as number,
+    commitEnd: Number(commitEnd),
+    revealEnd: Number(revealEnd),
+    winningPercentile: row.winning_percentile as number,
+    consensusMode: row.consensus_mode as ConsensusMode,
+    trimRate: row.trim_rate as number,
+    payoutCurve: row.payout_curve as PayoutCurve,
+    payoutParameter: row.payout_parameter as number,
+    marketType: row.market_type as MarketType,
+    creatorFeeRate: row.creator_fee_rate as number,
+    ipfsHash: (row.updated_ipfs_hash ?? row.ipfs_hash) as string,
+    whitelisted: row.whitelist_root != null && row.whitelist_root != ZeroHash,
+    totalCommitments: row.total_commitments as number,
+    revealedCommitments: row.revealed_commitments as number,
+    totalWagers: wagers.reduce((sum, { wager }) => sum + BigInt(wager as string), 0n).toString(),
+    consensusPosition: (row.final_consensus ?? row.live_consensus ?? null) as string | null,
+    winningThreshold: (row.winning_threshold ?? null) as string | null
+  };
+}
+
+/**
+ * Lists markets, optionally only those in one phase
+ */
+export function listMarkets(store: IndexerStore, phase?: MarketPhase): MarketSummary[] {
+  const timestamp = getIndexedTimestamp(store);
+  return store.all(`${MARKET_QUERY} ORDER BY m.market_id`)
+    .map((row) => toMarketSummary(store, row, timestamp))
+    .filter((market) => phase === undefined || market.phase == phase);
+}
+
+export function getMarket(store: IndexerStore, marketId: number): MarketSummary | undefined {
+  const row = store.get(`${MARKET_QUERY} WHERE m.market_id = ?`, [marketId]);
+  return row && toMarketSummary(store, row, getIndexedTimestamp(store));
+}
+
+/**
+ * Returns the market consensus after each reveal, in reveal order
+ */
+export function getConsensusHistory(store: IndexerStore, marketId: number): ConsensusPoint[] {
+  return store.all(
+    "SELECT * FROM reveals WHERE market_id = ? ORDER BY block_number, log_index",
+    [marketId]
+  ).map((row, i) => ({
+    commitmentId: row.commitment_id as number,
+    position: row.position as string,
+    consensusPosition: row.consensus_position as string,
+    revealedCommitments: i + 1,
+    blockNumber: row.block_number as number
+  }));
+}
+
+/**
+ * Returns the position and weight of every revealed commitment of a market
+ */
+export function getRevealedWeights(store: IndexerStore, marketId: number): RevealedWeight[] {
+  return store.all(
+    `SELECT r.position, c.weight FROM reveals r
+    JOIN commitments c ON c.market_id = r.market_id AND c.commitment_id = r.commitment_id
+    WHERE r.market_id = ?`,
+    [marketId]
+  ).map((row) => ({ position: BigInt(row.position as string), weight: BigInt(row.weight as string) }));
+}
+
+// Positions and weight of every revealed commitment of a bundle market, by commitment ID
+function getBundleReveals(store: IndexerStore, marketId: number): Map<number, RevealedBundle> {
+  const rows = store.all(
+    `SELECT p.commitment_id, p.position, c.weight FROM bundle_positions p
+    JOIN commitments c ON c.market_id = p.market_id AND c.commitment_id = p.commitment_id
+    WHERE p.market_id = ? ORDER BY p.commitment_id, p.question`,
+    [marketId]
+  );
+  const reveals = new Map<number, { positions: bigint[], weight: bigint }>();
+  for (const row of rows) {
+    const commitmentId = row.commitment_id as number;
+    if (!reveals.has(commitmentId)) {
+      reveals.set(commitmentId, { positions: [], weight: BigInt(row.weight as string) });
+    }
+    reveals.get(commitmentId)!.positions.push(BigInt(row.position as string));
+  }
+  return reveals;
+}
+
+// Tick the consensus of a market settles on, see getTickSize
+function getMarketTickSize(store: IndexerStore, marketId: number): bigint {
+  const row = store.get("SELECT decimals FROM markets WHERE market_id = ?", [marketId]);
+  return row ? getTickSize(row.decimals as number) : 1n;
+}
+
+function getQuestionBounds(store: IndexerStore, marketId: number): BundleQuestion[] {
+  return store.all("SELECT lower_bound, upper_bound FROM bundle_questions WHERE market_id = ? ORDER BY question", [marketId])
+    .map((row) => ({ lowerBound: BigInt(row.lower_bound as string), upperBound: BigInt(row.upper_bound as string) }));
+}
+
+/**
+ * Returns the questions of a bundle market with the consensus of each, empty for other markets
+ */
+export function getBundleQuestions(store: IndexerStore, marketId: number): BundleQuestionSummary[] {
+  const questions = getQuestionBounds(store, marketId);
+  const consensus = computeBundleConsensus(
+    questions.length, [...getBundleReveals(store, marketId).values()], getMarketTickSize(store, marketId)
+  );
+  return questions.map((question, i) => ({
+    question: i,
+    lowerBound: question.lowerBound.toString(),
+    upperBound: question.upperBound.toString(),
+    consensusPosition: consensus[i].toString()
+  }));
+}
+
+/**
+ * Returns the commitments owned by an account with what each can claim, mirroring claim and claimRefund
+ */
+export function getUserCommitments(store: IndexerStore, owner: string): UserCommitment[] {
+  const rows = store.all(`
+    SELECT c.market_id, c.commitment_id, c.wager, m.token, m.payout_curve, m.payout_parameter, m.market_type, m.upper_bound,
+      r.position,
+      res.consensus_position, res.winning_threshold, res.winning_score, res.total_winnings,
+      (SELECT total_winnings FROM winnings_added w WHERE w.market_id = c.market_id ORDER BY block_number DESC, log_index DESC LIMIT 1)
+        AS added_total_winnings,
+      ref.amount AS refund,
+      cl.amount AS claimed_amount
+    FROM commitments c
+    JOIN markets m ON m.market_id = c.market_id
+    LEFT JOIN reveals r ON r.market_id = c.market_id AND r.commitment_id = c.commitment_id
+    LEFT JOIN resolutions res ON res.market_id = c.market_id
+    LEFT JOIN refunds ref ON ref.market_id = c.market_id AND ref.commitment_id = c.commitment_id
+    LEFT JOIN claims cl ON cl.market_id = c.market_id AND cl.commitment_id = c.commitment_id
+    WHERE lower(c.owner) = lower(?)
+    ORDER BY c.market_id, c.commitment_id
+  `, [owner]);
+
+  // Categorical markets measure distance as the rank of the option, see rankOptions
+  const optionRanks = new Map<number, bigint[]>();
+  const getOptionRanks = (row: Row) => {
+    const marketId = row.market_id as number;
+    if (!optionRanks.has(marketId)) {
+      const weights = sumOptionWeights(BigInt(row.upper_bound as string) + 1n, getRevealedWeights(store, marketId));
+      optionRanks.set(marketId, rankOptions(weights));
+    }
+    return optionRanks.get(marketId)!;
+  };
+
+  // Bundle markets measure every question from its own consensus, see bundleDistance
+  const bundles = new Map<number, { questions: BundleQuestion[], consensus: bigint[], reveals: Map<number, RevealedBundle> }>();
+  const getBundle = (marketId: number) => {
+    if (!bundles.has(marketId)) {
+      const questions = getQuestionBounds(store, marketId);
+      const reveals = getBundleReveals(store, marketId);
+      const consensus = computeBundleConsensus(questions.length, [...reveals.values()], getMarketTickSize(store, marketId));
+      bundles.set(marketId, { questions, consensus, reveals });
+    }
+    return bundles.get(marketId)!;
+  };
+
+  return rows.map((row) => {
+    const revealed = row.position !== null;
+    const bundle = row.market_type == MarketType.Bundle ? getBundle(row.market_id as number) : undefined;
+    const positions = bundle?.reveals.get(row.commitment_id as number)?.positions;
+    const resolved = row.winning_threshold !== null;
+    const claimed = row.claimed_amount !== null;
+
+    let winning: boolean | null = null;
+    let claimable = 0n;
+    if (resolved) {
+      const position = revealed ? BigInt(row.position as string) : 0n;
+      const consensus = BigInt(row.consensus_position as string);
+      let distance = position > consensus ? position - consensus : consensus - position;
+      if (bundle) {
+        distance = positions ? bundleDistance(bundle.questions, bundle.consensus, positions) : 0n;
+      } else if (row.market_type == MarketType.Categorical) {
+        distance = revealed ? getOptionRanks(row)[Number(position)] : 0n;
+      }
+      const threshold = BigInt(row.winning_threshold as string);
+      winning = revealed && distance <= threshold;
+
+      // Total winnings only grow, so sponsors adding winnings after resolution leave the latest total the larger
+      const addedTotal = BigInt((row.added_total_winnings as string) ?? "0");
+      const resolvedTotal = BigInt(row.total_winnings as string);
+      const totalWinnings = addedTotal > resolvedTotal ? addedTotal : resolvedTotal;
+      if (winning && !claimed && totalWinnings > 0n) {
+        // The same split claim pays: the wager times the payout score, over the sum resolve recorded
+        const market = { payoutCurve: row.payout_curve as number, payoutParameter: row.payout_parameter as number };
+        claimable = getWinnings(market, row.wager as string, distance, threshold, totalWinnings, row.winning_score as string);
+      }
+    } else if (row.refund !== null && !claimed) {
+      claimable = BigInt(row.refund as string);
+    }
+
+    return {
+      marketId: row.market_id as number,
+      commitmentId: row.commitment_id as number,
+      token: row.token as string,
+      wager: row.wager as string,
+      revealed,
+      position: (row.position ?? null) as string | null,
+      positions: positions ? positions.map((position) => position.toString()) : null,
+      winning,
+      claimed,
+      claimedAmount: (row.claimed_amount ?? null) as string | null,
+      claimable: claimable.toString()
+    };
+  });
+}
+
+/**
+ * Returns the commitments an account can claim now and the totals per token
+ */
+export function getClaimable(store: IndexerStore, owner: string) {
+  const commitments = getUserCommitments(store, owner).filter((commitment) => commitment.claimable != "0");
+  const totals: Record<string, string> = {};
+  for (const { token, claimable } of commitments) {
+    totals[token] = (BigInt(totals[token] || "0") + BigInt(claimable)).toString();
+  }
+  return { commitments, totals };
+}
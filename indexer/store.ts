@@ -0,0 +1,252 @@
+import { promises as fs } from "fs";
+import initSqlJs, { Database, SqlValue } from "sql.js";
+
+// Every table row records the block it came from, so a reorg is undone by deleting rows above
+// the last block that is still canonical. Amounts are stored as decimal strings.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+
+  -- Hashes of indexed blocks, compared with the chain to detect reorgs
+  CREATE TABLE IF NOT EXISTS blocks (number INTEGER PRIMARY KEY, hash TEXT NOT NULL, timestamp INTEGER NOT NULL);
+
+  CREATE TABLE IF NOT EXISTS markets (
+    market_id INTEGER PRIMARY KEY,
+    creator TEXT NOT NULL,
+    token TEXT NOT NULL,
+    lower_bound TEXT NOT NULL,
+    upper_bound TEXT NOT NULL,
+    decimals INTEGER NOT NULL,
+    min_wager TEXT NOT NULL,
+    decay_factor TEXT NOT NULL,
+    decay_curve INTEGER NOT NULL,
+    decay_parameter INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    commit_start INTEGER NOT NULL,
+    commit_duration INTEGER NOT NULL,
+    reveal_duration INTEGER NOT NULL,
+    winning_percentile INTEGER NOT NULL,
+    consensus_mode INTEGER NOT NULL,
+    trim_rate INTEGER NOT NULL,
+    payout_curve INTEGER NOT NULL,
+    payout_parameter INTEGER NOT NULL,
+    market_type INTEGER NOT NULL,
+    creator_fee_rate INTEGER NOT NULL,
+    ipfs_hash TEXT NOT NULL,
+    block_number INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS whitelist_roots (
+    market_id INTEGER NOT NULL,
+    root TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+
+  -- Metadata replaced while a market was scheduled, the latest row wins over markets.ipfs_hash
+  CREATE TABLE IF NOT EXISTS metadata_updates (
+    market_id INTEGER NOT NULL,
+    ipfs_hash TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+
+  CREATE TABLE IF NOT EXISTS commitments (
+    market_id INTEGER NOT NULL,
+    commitment_id INTEGER NOT NULL,
+    owner TEXT NOT NULL,
+    commitment_hash TEXT NOT NULL,
+    wager TEXT NOT NULL,
+    weight TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    PRIMARY KEY (market_id, commitment_id)
+  );
+  CREATE INDEX IF NOT EXISTS commitments_owner ON commitments (owner);
+
+  -- One row per reveal, with the market consensus right after it, see VPOPIndexer.applyReveal
+  CREATE TABLE IF NOT EXISTS reveals (
+    market_id INTEGER NOT NULL,
+    commitment_id INTEGER NOT NULL,
+    caller TEXT NOT NULL,
+    position TEXT NOT NULL,
+    total_weight TEXT NOT NULL,
+    weighted_sum TEXT NOT NULL,
+    consensus_position TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (market_id, commitment_id)
+  );
+
+  -- Questions of bundle markets, from VPOPConsensus.BundleQuestionsAssigned
+  CREATE TABLE IF NOT EXISTS bundle_questions (
+    market_id INTEGER NOT NULL,
+    question INTEGER NOT NULL,
+    lower_bound TEXT NOT NULL,
+    upper_bound TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    PRIMARY KEY (market_id, question)
+  );
+
+  -- Revealed positions of bundle commitments, one row per question, from VPOPConsensus.BundleRevealed
+  CREATE TABLE IF NOT EXISTS bundle_positions (
+    market_id INTEGER NOT NULL,
+    commitment_id INTEGER NOT NULL,
+    question INTEGER NOT NULL,
+    position TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    PRIMARY KEY (market_id, commitment_id, question)
+  );
+
+  CREATE TABLE IF NOT EXISTS resolutions (
+    market_id INTEGER PRIMARY KEY,
+    resolver TEXT NOT NULL,
+    consensus_position TEXT NOT NULL,
+    winning_threshold TEXT NOT NULL,
+    winning_wagers TEXT NOT NULL,
+    winning_commitments INTEGER NOT NULL,
+    winning_score TEXT NOT NULL,
+    total_winnings TEXT NOT NULL,
+    block_number INTEGER NOT NULL
+  );
+
+  -- Winnings added by sponsors, with the market's total winnings after each, which can still grow
+  -- after resolution: the latest total wins over resolutions.total_winnings
+  CREATE TABLE IF NOT EXISTS winnings_added (
+    market_id INTEGER NOT NULL,
+    sponsor TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    total_winnings TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+
+  CREATE TABLE IF NOT EXISTS cancellations (
+    market_id INTEGER PRIMARY KEY,
+    caller TEXT NOT NULL,
+    block_number INTEGER NOT NULL
+  );
+
+  -- Refund owed to each commitment of a cancelled market, read when the cancellation is indexed
+  CREATE TABLE IF NOT EXISTS refunds (
+    market_id INTEGER NOT NULL,
+    commitment_id INTEGER NOT NULL,
+    amount TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    PRIMARY KEY (market_id, commitment_id)
+  );
+
+  -- Winnings and refunds paid out
+  CREATE TABLE IF NOT EXISTS claims (
+    market_id INTEGER NOT NULL,
+    commitment_id INTEGER NOT NULL,
+    kind TEXT NOT NULL,
+    caller TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    PRIMARY KEY (market_id, commitment_id)
+  );
+`;
+
+// Tables rolled back on a reorg
+const BLOCK_TABLES = [
+  "blocks", "markets", "whitelist_roots", "metadata_updates", "commitments", "reveals", "bundle_questions", "bundle_positions",
+  "resolutions", "winnings_added", "cancellations", "refunds", "claims"
+];
+
+export type Row = Record<string, SqlValue>;
+
+/**
+ * SQLite database of indexed VPOP events, kept in memory by sql.js and written to a file
+ * after every sync so the indexer can resume from its checkpoint
+ */
+export class IndexerStore {
+  private constructor(private readonly db: Database, readonly path?: string) {
+    this.db.run(SCHEMA);
+  }
+
+  /**
+   * Opens the database at path, creating it if needed. Without a path the database lives in memory only.
+   */
+  static async open(path?: string): Promise<IndexerStore> {
+    const SQL = await initSqlJs();
+    let data: Uint8Array | undefined;
+    if (path) {
+      try {
+        data = await fs.readFile(path);
+      } catch (error: any) {
+        if (error.code !== "ENOENT") throw error;
+      }
+    }
+    return new IndexerStore(new SQL.Database(data), path);
+  }
+
+  run(sql: string, params: SqlValue[] = []): void {
+    this.db.run(sql, params);
+  }
+
+  all(sql: string, params: SqlValue[] = []): Row[] {
+    const statement = this.db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: Row[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  get(sql: string, params: SqlValue[] = []): Row | undefined {
+    return this.all(sql, params)[0];
+  }
+
+  /**
+   * Runs fn in a transaction, rolling back every change if it throws. fn is synchronous so
+   * queries served meanwhile never see a half-applied block range.
+   */
+  transaction<T>(fn: () => T): T {
+    this.db.run("BEGIN");
+    try {
+      const result = fn();
+      this.db.run("COMMIT");
+      return result;
+    } catch (error) {
+      this.db.run("ROLLBACK");
+      throw error;
+    }
+  }
+
+  getMeta(key: string): string | undefined {
+    return this.get("SELECT value FROM meta WHERE key = ?", [key])?.value as string | undefined;
+  }
+
+  setMeta(key: string, value: string): void {
+    this.run("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value", [key, value]);
+  }
+
+  /**
+   * Deletes everything indexed from blocks after blockNumber
+   */
+  rollback(blockNumber: number): void {
+    for (const table of BLOCK_TABLES) {
+      const column = table == "blocks" ? "number" : "block_number";
+      this.run(`DELETE FROM ${table} WHERE ${column} > ?`, [blockNumber]);
+    }
+  }
+
+  async save(): Promise<void> {
+    if (!this.path) return;
+    // Write to a temporary file first so a crash never leaves a truncated database
+    const temporary = `${this.path}.tmp`;
+    await fs.writeFile(temporary, this.db.export());
+    await fs.rename(temporary, this.path);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,187 @@
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { VPOP } from "../typechain-types";
+
+// Number of commitments in the benchmark market (override with BENCHMARK_COMMITMENTS)
+const TOTAL_COMMITMENTS = Number(process.env.BENCHMARK_COMMITMENTS || 10000);
+// Commitments counted per resolveBatch call (override with BENCHMARK_BATCH_SIZE)
+const BATCH_SIZE = Number(process.env.BENCHMARK_BATCH_SIZE || 500);
+// Commitments and questions of the bundle market, whose distances sum over every question
+// (override with BENCHMARK_BUNDLE_COMMITMENTS and BENCHMARK_BUNDLE_QUESTIONS, at most 32)
+const BUNDLE_COMMITMENTS = Number(process.env.BENCHMARK_BUNDLE_COMMITMENTS || 2000);
+const BUNDLE_QUESTIONS = Number(process.env.BENCHMARK_BUNDLE_QUESTIONS || 32);
+// Bundle commitments read every revealed position, so fewer fit in a batch
+// (override with BENCHMARK_BUNDLE_BATCH_SIZE)
+const BUNDLE_BATCH_SIZE = Number(process.env.BENCHMARK_BUNDLE_BATCH_SIZE || 100);
+// Every resolveBatch call must stay below this, well under a 30M block gas limit
+export const GAS_CEILING = 15_000_000n;
+
+const commitDuration = 30 * 24 * 3600;
+const revealDuration = 30 * 24 * 3600;
+
+// Creates a market of the given type, returning its ID
+async function createMarket(vpop: VPOP, upperBound: number, marketType: number) {
+  await (await vpop.initializeMarket(
+    ethers.ZeroAddress,
+    0,
+    upperBound,
+    18, // decimals: the consensus settles on any contract unit
+    0, // zero minimum wager so the benchmark needs no funding
+    0,
+    0, // decay curve: linear
+    0, // decay parameter: unused by the linear curve
+    0, // commit start: open immediately
+    commitDuration,
+    revealDuration,
+    5000,
+    0, // consensus mode: weighted mean
+    0, // trim rate: unused by the weighted mean
+    0, // payout curve: binary
+    0, // payout parameter: unused by the binary curve
+    marketType,
+    0,
+    ethers.ZeroAddress,
+    marketType == 2 ? "ipfs://resolve-benchmark-bundle" : "ipfs://resolve-benchmark"
+  )).wait();
+  return vpop.getMarketCount();
+}
+
+// Computes the winning threshold off-chain and resolves the market in batches, returning the
+// number of batches and the most gas one of them used
+async function resolveInBatches(vpop: VPOP, marketId: bigint, total: number, batchSize: number) {
+  // Page through the distances the same way an off-chain resolver would
+  const consensusModule = await ethers.getContractAt("VPOPConsensus", await vpop.consensusModule());
+  const distances: bigint[] = [];
+  for (let offset = 0; offset < total; offset += batchSize) {
+    distances.push(...await consensusModule.getRevealedDistances(marketId, offset, batchSize));
+  }
+  distances.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const targetRank = await vpop.getTargetRank(marketId);
+  const threshold = distances[Number(targetRank) - 1];
+
+  try {
+    const singleTxGas = await vpop.resolve.estimateGas(marketId, threshold);
+    console.log("\nSingle-transaction resolve would use:", singleTxGas.toString(), "gas");
+  } catch (error) {
+    console.log("\nSingle-transaction resolve does not fit in a block");
+  }
+
+  console.log(`Resolving in batches of ${batchSize}...`);
+  let maxGasUsed = 0n;
+  let batches = 0;
+  while (!(await vpop.marketConsensus(marketId)).resolved) {
+    const receipt = await (await vpop.resolveBatch(marketId, threshold, batchSize)).wait();
+    const gasUsed = receipt?.gasUsed || 0n;
+    if (gasUsed > maxGasUsed) maxGasUsed = gasUsed;
+    batches++;
+  }
+  return { batches, maxGasUsed };
+}
+
+// A numeric market over 0..1,000,000, committed and revealed by the signer vpop is connected to
+export async function benchmarkNumeric(
+  vpop: VPOP,
+  deployer: HardhatEthersSigner,
+  totalCommitments = TOTAL_COMMITMENTS,
+  batchSize = BATCH_SIZE
+) {
+  const marketId = await createMarket(vpop, 1_000_000, 0);
+
+  console.log(`Creating ${totalCommitments} commitments...`);
+  const positions: bigint[] = [];
+  const salts: string[] = [];
+  for (let i = 0; i < totalCommitments; i++) {
+    const position = BigInt(Math.floor(Math.random() * 1_000_001));
+    const salt = ethers.hexlify(ethers.randomBytes(32));
+    const commitmentHash = await vpop.getCommitmentHash(marketId, deployer.address, position, 0, salt);
+    await vpop.commit(marketId, commitmentHash, 0, [], { value: 0 });
+    positions.push(position);
+    salts.push(salt);
+  }
+
+  await time.increase(commitDuration + 1);
+
+  console.log(`Revealing ${totalCommitments} commitments...`);
+  for (let i = 0; i < totalCommitments; i++) {
+    const commitment = await vpop.commitments(marketId, i + 1);
+    await vpop.reveal(marketId, i + 1, commitment.commitmentHash, positions[i], salts[i]);
+  }
+
+  await time.increase(revealDuration + 1);
+  return resolveInBatches(vpop, marketId, totalCommitments, batchSize);
+}
+
+// A bundle market of questions over 0..1,000,000 each, which resolve measures through
+// VPOPConsensus.getBundleDistance for every commitment
+export async function benchmarkBundle(
+  vpop: VPOP,
+  deployer: HardhatEthersSigner,
+  totalCommitments = BUNDLE_COMMITMENTS,
+  questions = BUNDLE_QUESTIONS,
+  batchSize = BUNDLE_BATCH_SIZE
+) {
+  const consensusModule = await ethers.getContractAt("VPOPConsensus", await vpop.consensusModule(), deployer);
+  await (await consensusModule.defineQuestions(Array(questions).fill(0), Array(questions).fill(1_000_000))).wait();
+  const marketId = await createMarket(vpop, questions - 1, 2);
+
+  console.log(`Creating ${totalCommitments} bundle commitments of ${questions} questions...`);
+  const bundles: bigint[][] = [];
+  const salts: string[] = [];
+  for (let i = 0; i < totalCommitments; i++) {
+    const positions = Array.from({ length: questions }, () => BigInt(Math.floor(Math.random() * 1_000_001)));
+    const salt = ethers.hexlify(ethers.randomBytes(32));
+    const bundleSalt = await consensusModule.getBundleSalt(positions, salt);
+    const commitmentHash = await vpop.getCommitmentHash(marketId, deployer.address, 0, 0, bundleSalt);
+    await vpop.commit(marketId, commitmentHash, 0, [], { value: 0 });
+    bundles.push(positions);
+    salts.push(salt);
+  }
+
+  await time.increase(commitDuration + 1);
+
+  console.log(`Revealing ${totalCommitments} bundle commitments...`);
+  for (let i = 0; i < totalCommitments; i++) {
+    const commitment = await vpop.commitments(marketId, i + 1);
+    await consensusModule.revealBundle(marketId, i + 1, commitment.commitmentHash, bundles[i], salts[i]);
+  }
+
+  await time.increase(revealDuration + 1);
+  return resolveInBatches(vpop, marketId, totalCommitments, batchSize);
+}
+
+async function main() {
+  // Runs against the in-process hardhat network so time can be moved forward
+  const [deployer] = await ethers.getSigners();
+  const VPOPFactory = await ethers.getContractFactory("VPOP");
+  const vpop = await VPOPFactory.connect(deployer).deploy([{ recipient: deployer.address, rate: 1000 }]) as unknown as VPOP;
+  await vpop.waitForDeployment();
+
+  const results = [
+    { name: "Numeric", commitments: TOTAL_COMMITMENTS, ...await benchmarkNumeric(vpop, deployer) },
+    { name: `Bundle of ${BUNDLE_QUESTIONS} questions`, commitments: BUNDLE_COMMITMENTS, ...await benchmarkBundle(vpop, deployer) }
+  ];
+
+  console.log("\nBenchmark Results:");
+  for (const { name, commitments, batches, maxGasUsed } of results) {
+    console.log(`\n${name}`);
+    console.log("Commitments:", commitments);
+    console.log("Batches:", batches);
+    console.log("Max gas per batch:", maxGasUsed.toString());
+  }
+  console.log("\nGas ceiling:", GAS_CEILING.toString());
+
+  for (const { name, maxGasUsed } of results) {
+    if (maxGasUsed > GAS_CEILING) {
+      throw new Error(`${name}: resolveBatch used ${maxGasUsed} gas, above the ${GAS_CEILING} ceiling`);
+    }
+  }
+}
+
+// Only run when executed with hardhat run, not when the tests import the scenarios
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
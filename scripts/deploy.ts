@@ -1,4 +1,13 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
+import { saveDeployment } from "../tasks/registry";
+
+// Per-network partner fee recipients, paid alongside the platform fee (rates in basis points)
+const PARTNER_FEE_SPLITS: Record<string, { recipient: string; rate: number }[]> = {
+  apechain: [{ recipient: "0x5AC40A1175715F1c27e3FEAa8C79664040717679", rate: 200 }],
+  curtis: [{ recipient: "0x5AC40A1175715F1c27e3FEAa8C79664040717679", rate: 200 }],
+};
+// Platform fee paid to the deployer, in basis points
+const PLATFORM_FEE_RATE = 800;
 
 async function main() {
   console.log("Deploying VPOP contract...");
@@ -10,17 +19,23 @@ async function main() {
   console.log('Deployer address:', deployer.address);
   console.log('Deployer balance:', ethers.formatEther(await ethers.provider.getBalance(deployer.address)), 'ETH');
 
+  // Build the initial fee split for this network
+  const feeSplit = [
+    { recipient: deployer.address, rate: PLATFORM_FEE_RATE },
+    ...(PARTNER_FEE_SPLITS[network.name] || []),
+  ];
+
   // Get the contract factory
   const VPOP = await ethers.getContractFactory("VPOP");
 
   // Estimate gas for deployment
-  const deployTx = await VPOP.getDeployTransaction();
+  const deployTx = await VPOP.getDeployTransaction(feeSplit);
   const estimatedGas = await ethers.provider.estimateGas(deployTx);
   console.log("\nGas Estimation:");
   console.log("Estimated gas for deployment:", estimatedGas.toString());
 
   // Deploy the contract
-  const vpop = await VPOP.connect(deployer).deploy();
+  const vpop = await VPOP.connect(deployer).deploy(feeSplit);
   const deployReceipt = await vpop.waitForDeployment();
   const deployTxReceipt = await deployReceipt.deploymentTransaction()?.wait();
 
@@ -32,17 +47,42 @@ async function main() {
   const address = await vpop.getAddress();
   console.log("\nVPOP deployed to:", address);
 
+  // Deploy the read-only views for wallets and frontends
+  const VPOPLens = await ethers.getContractFactory("VPOPLens");
+  const lens = await VPOPLens.connect(deployer).deploy(address);
+  const lensReceipt = await lens.deploymentTransaction()?.wait();
+  const lensAddress = await lens.getAddress();
+  console.log("VPOPLens deployed to:", lensAddress);
+
+  // Record the addresses so the vpop:* tasks and scripts can find them; the in-process hardhat network is discarded on exit
+  if (network.name != "hardhat") {
+    const chainId = (await ethers.provider.getNetwork()).chainId.toString();
+    saveDeployment(network.name, "VPOP", {
+      address,
+      chainId,
+      blockNumber: deployTxReceipt?.blockNumber,
+      transactionHash: deployTxReceipt?.hash,
+      deployedAt: new Date().toISOString()
+    });
+    saveDeployment(network.name, "VPOPLens", {
+      address: lensAddress,
+      chainId,
+      blockNumber: lensReceipt?.blockNumber,
+      transactionHash: lensReceipt?.hash,
+      deployedAt: new Date().toISOString()
+    });
+    console.log(`Recorded deployments in deployments/${network.name}.json`);
+  }
+
   // Log initial settings
-  const platformFeeRate = await vpop.platformFeeRate();
-  const creatorFeeRate = await vpop.creatorFeeRate();
-  const apeFeeRate = await vpop.apeFeeRate();
-  const apeOwner = await vpop.apeOwner();
+  const maxCreatorFeeRate = await vpop.maxCreatorFeeRate();
+  const currentFeeSplit = await vpop.getFeeSplit(await vpop.getCurrentFeeSplitId());
 
   console.log("\nInitial settings:");
-  console.log("Platform fee rate:", platformFeeRate.toString(), "basis points");
-  console.log("Creator fee rate:", creatorFeeRate.toString(), "basis points");
-  console.log("Ape fee rate:", apeFeeRate.toString(), "basis points");
-  console.log("Ape owner address:", apeOwner);
+  console.log("Max creator fee rate:", maxCreatorFeeRate.toString(), "basis points");
+  for (const feeRecipient of currentFeeSplit) {
+    console.log("Fee recipient:", feeRecipient.recipient, feeRecipient.rate.toString(), "basis points");
+  }
 }
 
 // We recommend this pattern to be able to use async/await everywhere
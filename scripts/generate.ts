@@ -1,5 +1,6 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
 import { VPOP } from "../typechain-types";
+import { getDeploymentAddress } from "../tasks/registry";
 
 async function main() {
   // Get the signer
@@ -10,7 +11,7 @@ async function main() {
   console.log('Deployer balance:', ethers.formatEther(await ethers.provider.getBalance(deployer.address)), 'ETH');
 
   // Get the deployed VPOP contract
-  const vpopAddress = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512"; // Replace with your deployed contract address
+  const vpopAddress = getDeploymentAddress(network.name, "VPOP"); // Recorded by scripts/deploy.ts
   const VPOP = await ethers.getContractFactory("VPOP");
   const vpop = await VPOP.attach(vpopAddress) as unknown as VPOP;
 
@@ -18,6 +19,10 @@ async function main() {
   console.log("\nCreating 20 markets with commit durations from 20 to 1 minutes...");
   
   const totalMarkets = 20;
+  // Open every market at the same time, rather than at whenever its transaction is mined,
+  // so the commit phases end exactly 1 to 20 minutes after the opening
+  const commitStart = BigInt((await ethers.provider.getBlock("latest"))!.timestamp) + 300n;
+  console.log(`Commits open at ${new Date(Number(commitStart) * 1000).toISOString()}`);
   
   for (let i = totalMarkets; i >= 1; i--) {
     const minutes = i; // 20 to 1 minutes
@@ -29,13 +34,23 @@ async function main() {
     const tx = await vpop.initializeMarket(
       ethers.ZeroAddress, // ETH market
       0, // lower bound: 0
-      100, // upper bound: 100
-      1, // decimals
+      ethers.parseEther("100"), // upper bound: 100, positions have 18 decimals
+      1, // decimals: the consensus settles on tenths
       ethers.parseEther("0.1"), // min wager: 0.1 ETH
       20, // decay factor
+      0, // decay curve: linear
+      0, // decay parameter: unused by the linear curve
+      commitStart,
       commitDuration,
       revealDuration,
       50, // winning percentile
+      0, // consensus mode: weighted mean
+      0, // trim rate: unused by the weighted mean
+      0, // payout curve: binary
+      0, // payout parameter: unused by the binary curve
+      0, // market type: numeric
+      200, // creator fee rate: 2%
+      ethers.ZeroAddress, // creator fees go to the deployer
       `QmMarket${minutes}min` // IPFS hash
     );
     
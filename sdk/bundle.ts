@@ -0,0 +1,69 @@
+import { AbiCoder, BigNumberish, keccak256 } from "ethers";
+import { CommitmentHashDomain, createCommitmentHash } from "./commitment";
+import { roundedMean } from "./consensus";
+
+// Distance across the whole range of a question, VPOPConsensus.BUNDLE_DISTANCE_SCALE
+export const BUNDLE_DISTANCE_SCALE = 10000n;
+
+// A question of a bundle market, answered with a position in lowerBound..upperBound
+export type BundleQuestion = {
+  lowerBound: BigNumberish,
+  upperBound: BigNumberish
+};
+
+// The positions and weight of a revealed bundle commitment
+export type RevealedBundle = {
+  positions: readonly bigint[],
+  weight: bigint
+};
+
+/**
+ * Returns the salt a bundle commitment hash is built with, mirroring VPOPConsensus.getBundleSalt
+ */
+export function getBundleSalt(positions: readonly BigNumberish[], salt: string): string {
+  return keccak256(AbiCoder.defaultAbiCoder().encode(["int128[]", "bytes32"], [positions, salt]));
+}
+
+/**
+ * Creates the commitment hash of a bundle, one position per question: the commitment hash of
+ * position 0 with the salt getBundleSalt(positions, salt), which VPOPConsensus.revealBundle checks
+ */
+export function createBundleCommitmentHash(
+  domain: CommitmentHashDomain,
+  marketId: BigNumberish,
+  owner: string,
+  positions: readonly BigNumberish[],
+  wager: BigNumberish,
+  salt: string
+): string {
+  return createCommitmentHash(domain, marketId, owner, 0n, wager, getBundleSalt(positions, salt));
+}
+
+/**
+ * Computes the consensus of every question of a bundle market as VPOPConsensus.getBundleConsensus
+ * does: the weighted mean of the positions revealed for it, rounded to the market's tick
+ */
+export function computeBundleConsensus(questionCount: BigNumberish, reveals: readonly RevealedBundle[], tick: bigint): bigint[] {
+  const totalWeight = reveals.reduce((sum, { weight }) => sum + weight, 0n);
+  return Array.from({ length: Number(questionCount) }, (_, i) => {
+    if (totalWeight == 0n) return 0n;
+    return roundedMean(reveals.reduce((sum, { positions, weight }) => sum + positions[i] * weight, 0n), totalWeight, tick);
+  });
+}
+
+/**
+ * Mirrors VPOPConsensus.bundleDistance: the sum over every question of the distance from its
+ * consensus, normalized to BUNDLE_DISTANCE_SCALE across the question's range and rounded down
+ */
+export function bundleDistance(
+  questions: readonly BundleQuestion[],
+  consensus: readonly bigint[],
+  positions: readonly BigNumberish[]
+): bigint {
+  return positions.reduce<bigint>((distance, value, i) => {
+    const position = BigInt(value);
+    const offset = position > consensus[i] ? position - consensus[i] : consensus[i] - position;
+    const range = BigInt(questions[i].upperBound) - BigInt(questions[i].lowerBound);
+    return distance + offset * BUNDLE_DISTANCE_SCALE / range;
+  }, 0n);
+}
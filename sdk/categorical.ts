@@ -0,0 +1,35 @@
+import { BigNumberish } from "ethers";
+import { RevealedWeight } from "./consensus";
+
+// Most options a categorical market can have, VPOP.MAX_OPTIONS
+export const MAX_OPTIONS = 32;
+
+// What positions stand for, in VPOP.MarketType declaration order
+export enum MarketType {
+  Numeric = 0, // a value in lowerBound..upperBound, ranked by its distance from the consensus position
+  Categorical = 1, // an option index in 0..upperBound, ranked by the revealed weight of its option
+  Bundle = 2 // one position per question of upperBound + 1 questions, see ./bundle
+}
+
+/**
+ * Sums the revealed weight of every option of a categorical market, indexed by option,
+ * as VPOPConsensus tallies it on every reveal
+ */
+export function sumOptionWeights(optionCount: BigNumberish, reveals: readonly RevealedWeight[]): bigint[] {
+  const weights = Array.from({ length: Number(optionCount) }, () => 0n);
+  for (const { position, weight } of reveals) {
+    weights[Number(position)] += weight;
+  }
+  return weights;
+}
+
+/**
+ * Ranks options by weight exactly as VPOPConsensus.rankOptions does: 0 for the plurality option,
+ * 1 for the runner-up and so on, with equal weights ranked by index, lowest first. A commitment's
+ * rank is its distance from consensus, and the option ranked 0 is the consensus position.
+ */
+export function rankOptions(weights: readonly bigint[]): bigint[] {
+  return weights.map((weight, i) =>
+    BigInt(weights.filter((other, j) => other > weight || (other == weight && j < i)).length)
+  );
+}
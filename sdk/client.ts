@@ -0,0 +1,436 @@
+import { BigNumberish, ContractTransactionReceipt, ContractTransactionResponse, Signer, ZeroAddress, ZeroHash } from "ethers";
+import { IERC20__factory, VPOP, VPOPConsensus__factory, VPOP__factory } from "../typechain-types";
+import { BundleQuestion, createBundleCommitmentHash } from "./bundle";
+import { MarketType } from "./categorical";
+import { CommitmentHashDomain, WHITELIST_WAGER, createCommitmentHash, getCommitmentHashDomain, randomSalt } from "./commitment";
+import { ConsensusMode, computeConsensusProposal } from "./consensus";
+import { DecayCurve } from "./decay";
+import { VPOPError } from "./errors";
+import { PayoutCurve } from "./payout";
+import { signPermit } from "./permit";
+import { MarketPhase, toMarketPhase } from "./phase";
+import { computeWinningThreshold } from "./resolution";
+import { CommitmentSecret, MemorySecretStore, SecretStore } from "./secrets";
+import { POSITION_DECIMALS } from "./units";
+
+export type CreateMarketParams = {
+  token?: string, // zero address (default) for ETH
+  lowerBound: BigNumberish,
+  upperBound: BigNumberish,
+  decimals?: BigNumberish, // POSITION_DECIMALS (default) settles the consensus on any contract unit
+  minWager: BigNumberish,
+  decayFactor?: BigNumberish,
+  decayCurve?: DecayCurve, // Linear (default) uses decayFactor alone
+  decayParameter?: BigNumberish, // half-life in seconds for Exponential, basis points of the commit phase for Step and Cliff
+  commitStart?: BigNumberish, // opens immediately (default) when 0
+  commitDuration: BigNumberish,
+  revealDuration: BigNumberish,
+  winningPercentile: BigNumberish,
+  consensusMode?: ConsensusMode, // WeightedMean (default)
+  trimRate?: BigNumberish, // basis points of the weight dropped from each end by TrimmedMean
+  payoutCurve?: PayoutCurve, // Binary (default)
+  payoutParameter?: BigNumberish, // inner band of Tiered in basis points of the winning threshold
+  marketType?: MarketType, // Numeric (default); Categorical positions are option indexes from 0 to upperBound; Bundle through createBundleMarket
+  creatorFeeRate?: BigNumberish,
+  creatorFeeRecipient?: string, // zero address (default) pays the creator
+  ipfsHash: string
+};
+
+export type CreateBundleMarketParams = Omit<CreateMarketParams, "lowerBound" | "upperBound" | "marketType"> & {
+  questions: BundleQuestion[]
+};
+
+export type CommitParams = {
+  marketId: BigNumberish,
+  position: BigNumberish,
+  wager: BigNumberish,
+  salt?: string, // random when omitted
+  proof?: string[], // Merkle proof for whitelisted markets
+  approve?: boolean // approve ERC20 wagers when the allowance is too low, defaults to true
+};
+
+export type BundleCommitParams = Omit<CommitParams, "position"> & {
+  positions: BigNumberish[] // one per question of a bundle market
+};
+
+export type PermitCommitParams = Omit<CommitParams, "approve"> & {
+  deadline?: BigNumberish, // defaults to one hour from the latest block
+  permitVersion?: string
+};
+
+export type CommitResult = {
+  tx: ContractTransactionResponse,
+  commitmentId: bigint,
+  secret: CommitmentSecret
+};
+
+export type VPOPClientOptions = {
+  secretStore?: SecretStore
+};
+
+/**
+ * Phase-aware client for one account on a VPOP deployment. Every action is checked against
+ * the market's current state first, so calls the contract would reject fail early with a
+ * VPOPError instead of costing gas. Commitment secrets are kept in a pluggable SecretStore.
+ */
+export class VPOPClient {
+  readonly vpop: VPOP;
+  readonly signer: Signer;
+  readonly secrets: SecretStore;
+  private domain?: CommitmentHashDomain;
+
+  constructor(vpop: VPOP, signer: Signer, options: VPOPClientOptions = {}) {
+    this.vpop = vpop.connect(signer) as VPOP;
+    this.signer = signer;
+    this.secrets = options.secretStore || new MemorySecretStore();
+  }
+
+  static connect(address: string, signer: Signer, options: VPOPClientOptions = {}): VPOPClient {
+    return new VPOPClient(VPOP__factory.connect(address, signer), signer, options);
+  }
+
+  async getDomain(): Promise<CommitmentHashDomain> {
+    if (!this.domain) {
+      this.domain = await getCommitmentHashDomain(this.vpop);
+    }
+    return this.domain;
+  }
+
+  async getMarket(marketId: BigNumberish): Promise<VPOP.MarketStructOutput> {
+    const market = await this.vpop.getMarket(marketId);
+    if (market.createdAt == 0n) {
+      throw new VPOPError("MARKET_NOT_FOUND", `Market ${marketId} does not exist`);
+    }
+    return market;
+  }
+
+  async getPhase(marketId: BigNumberish): Promise<MarketPhase> {
+    await this.getMarket(marketId);
+    return toMarketPhase(await this.vpop.getMarketPhase(marketId));
+  }
+
+  /**
+   * Creates a market, paying the current market creation fee
+   * @return marketId The ID of the new market
+   */
+  async createMarket(params: CreateMarketParams): Promise<{ tx: ContractTransactionResponse, marketId: bigint }> {
+    const tx = await this.vpop.initializeMarket(
+      params.token || ZeroAddress,
+      params.lowerBound,
+      params.upperBound,
+      params.decimals ?? POSITION_DECIMALS,
+      params.minWager,
+      params.decayFactor || 0,
+      params.decayCurve || DecayCurve.Linear,
+      params.decayParameter || 0,
+      params.commitStart || 0,
+      params.commitDuration,
+      params.revealDuration,
+      params.winningPercentile,
+      params.consensusMode || ConsensusMode.WeightedMean,
+      params.trimRate || 0,
+      params.payoutCurve || PayoutCurve.Binary,
+      params.payoutParameter || 0,
+      params.marketType || MarketType.Numeric,
+      params.creatorFeeRate || 0,
+      params.creatorFeeRecipient || ZeroAddress,
+      params.ipfsHash,
+      { value: await this.vpop.marketCreateFee() }
+    );
+    const event = this.findEvent(await tx.wait(), "MarketCreated");
+    return { tx, marketId: event.args.marketId };
+  }
+
+  /**
+   * Creates a bundle market asking several questions at once, defining its questions first
+   * @return marketId The ID of the new market
+   */
+  async createBundleMarket(params: CreateBundleMarketParams): Promise<{ tx: ContractTransactionResponse, marketId: bigint }> {
+    const { questions, ...market } = params;
+    const consensusModule = await this.getConsensusModule();
+    await (await consensusModule.defineQuestions(
+      questions.map((question) => question.lowerBound),
+      questions.map((question) => question.upperBound)
+    )).wait();
+    return this.createMarket({ ...market, marketType: MarketType.Bundle, lowerBound: 0, upperBound: questions.length - 1 });
+  }
+
+  /**
+   * Replaces the metadata of a scheduled market. Only its creator can do this.
+   */
+  async updateMetadata(marketId: BigNumberish, ipfsHash: string): Promise<ContractTransactionResponse> {
+    await this.requirePhase(marketId, MarketPhase.Scheduled);
+    const market = await this.getMarket(marketId);
+    if (market.creator != await this.signer.getAddress()) {
+      throw new VPOPError("NOT_CREATOR", `Only the creator of market ${marketId} can update its metadata`);
+    }
+    return this.vpop.updateMarketMetadata(marketId, ipfsHash);
+  }
+
+  /**
+   * Commits to a market with ETH or an ERC20 wager and stores the secret needed to reveal it.
+   * Bundle markets take one position per question instead of a single position.
+   */
+  async commit(params: CommitParams | BundleCommitParams): Promise<CommitResult> {
+    const { market, whitelisted, secret } = await this.prepareCommit(params);
+    const wager = BigInt(params.wager);
+
+    let value = 0n;
+    if (!whitelisted && market.token == ZeroAddress) {
+      value = wager;
+    } else if (!whitelisted && params.approve !== false) {
+      const token = IERC20__factory.connect(market.token, this.signer);
+      const owner = await this.signer.getAddress();
+      const spender = await this.vpop.getAddress();
+      if (await token.allowance(owner, spender) < wager) {
+        await (await token.approve(spender, wager)).wait();
+      }
+    }
+
+    const tx = await this.vpop.commit(params.marketId, secret.commitmentHash, wager, params.proof || [], { value });
+    return this.recordCommit(tx, secret);
+  }
+
+  /**
+   * Commits an ERC20 wager using an EIP-2612 permit instead of a separate approval
+   */
+  async commitWithPermit(params: PermitCommitParams): Promise<CommitResult> {
+    const { market, whitelisted, secret } = await this.prepareCommit(params);
+    const wager = BigInt(params.wager);
+
+    let permit = { v: 0, r: ZeroHash, s: ZeroHash, deadline: 0n };
+    if (!whitelisted) {
+      if (market.token == ZeroAddress) {
+        throw new VPOPError("UNSUPPORTED", "Permit only supports ERC20 markets");
+      }
+      const deadline = params.deadline ?? (await this.latestTimestamp()) + 3600n;
+      permit = await signPermit(this.signer, market.token, await this.vpop.getAddress(), wager, deadline, params.permitVersion);
+    }
+
+    const tx = await this.vpop.commitWithPermit(
+      params.marketId,
+      secret.commitmentHash,
+      wager,
+      params.proof || [],
+      permit.deadline,
+      permit.v,
+      permit.r,
+      permit.s
+    );
+    return this.recordCommit(tx, secret);
+  }
+
+  /**
+   * Reveals a commitment using its stored secret, through VPOPConsensus.revealBundle for bundles
+   */
+  async reveal(marketId: BigNumberish, commitmentId: BigNumberish): Promise<ContractTransactionResponse> {
+    await this.requirePhase(marketId, MarketPhase.Reveal);
+    const secret = await this.loadSecret(marketId, commitmentId);
+
+    const commitment = await this.vpop.commitments(marketId, commitmentId);
+    if (commitment.revealed) {
+      throw new VPOPError("ALREADY_REVEALED", `Commitment ${commitmentId} in market ${marketId} is already revealed`);
+    }
+
+    if (secret.positions) {
+      const consensusModule = await this.getConsensusModule();
+      return consensusModule.revealBundle(marketId, commitmentId, secret.commitmentHash, secret.positions, secret.salt);
+    }
+    return this.vpop.reveal(marketId, commitmentId, secret.commitmentHash, secret.position, secret.salt);
+  }
+
+  /**
+   * Reveals every stored, unrevealed commitment of this account in a market in one transaction.
+   * Reveals that fail on-chain are skipped and reported through BatchItemFailed. Bundles are
+   * revealed one transaction each, waiting for all but the last.
+   * @return The last transaction, or undefined when there was nothing to reveal
+   */
+  async revealAll(marketId: BigNumberish): Promise<ContractTransactionResponse | undefined> {
+    await this.requirePhase(marketId, MarketPhase.Reveal);
+    const domain = await this.getDomain();
+    const stored = await this.secrets.list({
+      chainId: domain.chainId,
+      contract: domain.verifyingContract,
+      marketId: BigInt(marketId),
+      owner: await this.signer.getAddress()
+    });
+
+    const pending: CommitmentSecret[] = [];
+    for (const secret of stored) {
+      if (!(await this.vpop.commitments(marketId, secret.commitmentId)).revealed) {
+        pending.push(secret);
+      }
+    }
+    if (pending.length == 0) return undefined;
+
+    if (Number((await this.getMarket(marketId)).marketType) == MarketType.Bundle) {
+      let tx: ContractTransactionResponse | undefined;
+      for (const secret of pending) {
+        await tx?.wait();
+        tx = await this.reveal(marketId, secret.commitmentId);
+      }
+      return tx;
+    }
+    return this.vpop.revealMany(
+      marketId,
+      pending.map((secret) => secret.commitmentId),
+      pending.map((secret) => secret.commitmentHash),
+      pending.map((secret) => secret.position),
+      pending.map((secret) => secret.salt),
+      true
+    );
+  }
+
+  /**
+   * Settles the consensus of a WeightedMedian or TrimmedMean market, which resolve needs first.
+   * The proposal is computed off-chain from the revealed commitments.
+   */
+  async settleConsensus(marketId: BigNumberish): Promise<ContractTransactionResponse> {
+    await this.requireResolvable(marketId);
+    const market = await this.getMarket(marketId);
+    if (Number(market.consensusMode) == ConsensusMode.WeightedMean) {
+      throw new VPOPError("UNSUPPORTED", `Market ${marketId} keeps its weighted mean consensus up to date on every reveal`);
+    }
+    if (await this.vpop.consensusSettled(marketId)) {
+      throw new VPOPError("ALREADY_SETTLED", `The consensus of market ${marketId} is already settled`);
+    }
+
+    const { lower, upper } = await computeConsensusProposal(this.vpop, marketId);
+    const { totalCommitments } = await this.vpop.marketConsensus(marketId);
+    const consensusModule = await this.getConsensusModule();
+    return consensusModule.settle(marketId, lower, upper, totalCommitments);
+  }
+
+  /**
+   * Resolves a market, computing the winning threshold off-chain when none is given.
+   * The consensus of a WeightedMedian or TrimmedMean market is settled first if needed.
+   */
+  async resolve(marketId: BigNumberish, winningThreshold?: BigNumberish): Promise<ContractTransactionResponse> {
+    await this.requireResolvable(marketId);
+    const market = await this.getMarket(marketId);
+    if (Number(market.consensusMode) != ConsensusMode.WeightedMean && !(await this.vpop.consensusSettled(marketId))) {
+      await (await this.settleConsensus(marketId)).wait();
+    }
+
+    const threshold = winningThreshold ?? await computeWinningThreshold(this.vpop, marketId);
+    return this.vpop.resolve(marketId, threshold);
+  }
+
+  /**
+   * Claims the winnings of a commitment. Winnings always go to the commitment owner.
+   */
+  async claim(marketId: BigNumberish, commitmentId: BigNumberish): Promise<ContractTransactionResponse> {
+    await this.requirePhase(marketId, MarketPhase.Resolved);
+
+    const commitment = await this.vpop.commitments(marketId, commitmentId);
+    if (!commitment.revealed) {
+      throw new VPOPError("NOT_REVEALED", `Commitment ${commitmentId} in market ${marketId} was never revealed`);
+    }
+    if (commitment.claimed) {
+      throw new VPOPError("ALREADY_CLAIMED", `Commitment ${commitmentId} in market ${marketId} is already claimed`);
+    }
+    if (!(await this.isWinning(marketId, commitmentId, commitment.position))) {
+      throw new VPOPError("NOT_WINNING", `Commitment ${commitmentId} in market ${marketId} is not a winning position`);
+    }
+
+    return this.vpop.claim(marketId, commitmentId);
+  }
+
+  // Bundle commitments are measured as a whole, see VPOPConsensus.getBundleDistance
+  private async isWinning(marketId: BigNumberish, commitmentId: BigNumberish, position: bigint): Promise<boolean> {
+    const consensusModule = await this.getConsensusModule();
+    const { winningThreshold } = await this.vpop.marketConsensus(marketId);
+    const distance = Number((await this.getMarket(marketId)).marketType) == MarketType.Bundle
+      ? await consensusModule.getBundleDistance(marketId, commitmentId)
+      : await consensusModule.getPositionDistance(marketId, position);
+    return distance <= winningThreshold;
+  }
+
+  private async prepareCommit(params: CommitParams | BundleCommitParams) {
+    await this.requirePhase(params.marketId, MarketPhase.Commit);
+    const market = await this.getMarket(params.marketId);
+    const whitelisted = (await this.vpop.whitelistRoots(params.marketId)) != ZeroHash;
+    // Whitelisted markets store a fixed wager, so the hash has to be built with it
+    const hashWager = whitelisted ? WHITELIST_WAGER : BigInt(params.wager);
+
+    const domain = await this.getDomain();
+    const owner = await this.signer.getAddress();
+    const salt = params.salt || randomSalt();
+    // Bundles commit one position per question, see createBundleCommitmentHash
+    const positions = "positions" in params ? params.positions.map((position) => BigInt(position)) : undefined;
+    const position = "position" in params ? BigInt(params.position) : 0n;
+    const secret: CommitmentSecret = {
+      chainId: domain.chainId,
+      contract: domain.verifyingContract,
+      marketId: BigInt(params.marketId),
+      commitmentId: 0n, // known once the commit is mined
+      owner,
+      position,
+      ...(positions && { positions }),
+      wager: hashWager,
+      salt,
+      commitmentHash: positions
+        ? createBundleCommitmentHash(domain, params.marketId, owner, positions, hashWager, salt)
+        : createCommitmentHash(domain, params.marketId, owner, position, hashWager, salt)
+    };
+    return { market, whitelisted, secret };
+  }
+
+  private async recordCommit(tx: ContractTransactionResponse, secret: CommitmentSecret): Promise<CommitResult> {
+    const event = this.findEvent(await tx.wait(), "CommitmentCreated");
+    const stored = { ...secret, commitmentId: event.args.commitmentId };
+    await this.secrets.save(stored);
+    return { tx, commitmentId: stored.commitmentId, secret: stored };
+  }
+
+  private async loadSecret(marketId: BigNumberish, commitmentId: BigNumberish): Promise<CommitmentSecret> {
+    const domain = await this.getDomain();
+    const secret = await this.secrets.load({
+      chainId: domain.chainId,
+      contract: domain.verifyingContract,
+      marketId: BigInt(marketId),
+      commitmentId: BigInt(commitmentId)
+    });
+    if (!secret) {
+      throw new VPOPError("SECRET_NOT_FOUND", `No stored secret for commitment ${commitmentId} in market ${marketId}`);
+    }
+    return secret;
+  }
+
+  // Refuses unless the reveal phase has ended, or everything is revealed, and something was revealed
+  private async requireResolvable(marketId: BigNumberish): Promise<void> {
+    const phase = await this.getPhase(marketId);
+    const consensus = await this.vpop.marketConsensus(marketId);
+    const allRevealed = consensus.totalCommitments > 0n && consensus.totalCommitments == consensus.revealedCommitments;
+    if (phase != MarketPhase.AwaitingResolution && !(phase == MarketPhase.Reveal && allRevealed)) {
+      throw new VPOPError("WRONG_PHASE", `Market ${marketId} cannot be resolved in the ${phase} phase`);
+    }
+    if (consensus.revealedCommitments == 0n) {
+      throw new VPOPError("NOT_READY", `Market ${marketId} has no revealed commitments to resolve`);
+    }
+  }
+
+  private async getConsensusModule() {
+    return VPOPConsensus__factory.connect(await this.vpop.consensusModule(), this.signer);
+  }
+
+  private async requirePhase(marketId: BigNumberish, ...phases: MarketPhase[]): Promise<void> {
+    const phase = await this.getPhase(marketId);
+    if (!phases.includes(phase)) {
+      throw new VPOPError("WRONG_PHASE", `Market ${marketId} is in the ${phase} phase, expected ${phases.join(" or ")}`);
+    }
+  }
+
+  private findEvent(receipt: ContractTransactionReceipt | null, name: string) {
+    for (const log of receipt?.logs || []) {
+      const parsed = this.vpop.interface.parseLog(log);
+      if (parsed?.name == name) return parsed;
+    }
+    throw new Error(`${name} event not found in transaction receipt`);
+  }
+
+  private async latestTimestamp(): Promise<bigint> {
+    const block = await this.signer.provider!.getBlock("latest");
+    return BigInt(block!.timestamp);
+  }
+}
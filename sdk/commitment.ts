@@ -0,0 +1,55 @@
+import { AbiCoder, BigNumberish, hexlify, keccak256, randomBytes } from "ethers";
+import { VPOP } from "../typechain-types";
+
+// Version of the commitment hash format checked by VPOP.reveal
+export const COMMITMENT_HASH_VERSION = 2;
+
+// Wager VPOP stores for every commitment in a whitelisted market, whatever was passed in
+export const WHITELIST_WAGER = 100000n;
+
+// Chain and contract a commitment hash is bound to
+export type CommitmentHashDomain = {
+  chainId: bigint,
+  verifyingContract: string
+};
+
+/**
+ * Creates a commitment hash, mirroring VPOP.getCommitmentHash
+ */
+export function createCommitmentHash(
+  domain: CommitmentHashDomain,
+  marketId: BigNumberish,
+  owner: string,
+  position: BigNumberish,
+  wager: BigNumberish,
+  salt: string
+): string {
+  return keccak256(
+    AbiCoder.defaultAbiCoder().encode(
+      ["uint8", "uint256", "address", "uint256", "address", "int256", "uint256", "bytes32"],
+      [COMMITMENT_HASH_VERSION, domain.chainId, domain.verifyingContract, marketId, owner, position, wager, salt]
+    )
+  );
+}
+
+/**
+ * Reads the commitment hash domain of a deployed contract
+ */
+export async function getCommitmentHashDomain(vpop: VPOP): Promise<CommitmentHashDomain> {
+  const provider = vpop.runner?.provider;
+  if (!provider) {
+    throw new Error("VPOP contract is not connected to a provider");
+  }
+  const network = await provider.getNetwork();
+  return {
+    chainId: network.chainId,
+    verifyingContract: await vpop.getAddress()
+  };
+}
+
+/**
+ * Generates a full 32-byte salt for a commitment
+ */
+export function randomSalt(): string {
+  return hexlify(randomBytes(32));
+}
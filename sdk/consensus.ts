@@ -0,0 +1,128 @@
+import { BigNumberish } from "ethers";
+import { VPOP } from "../typechain-types";
+import { getTickSize } from "./units";
+
+// Commitments read concurrently by getRevealedWeights
+export const COMMITMENT_PAGE_SIZE = 100;
+
+// How a market estimates its consensus, in VPOP.ConsensusMode declaration order
+export enum ConsensusMode {
+  WeightedMean = 0, // kept up to date on every reveal
+  WeightedMedian = 1, // lowest revealed position with at least half of the weight at or below it
+  TrimmedMean = 2 // weighted mean once trimRate of the weight is dropped from each end
+}
+
+export type RevealedWeight = {
+  position: bigint,
+  weight: bigint
+};
+
+// What VPOPConsensus.settle expects, and the consensus it will store
+export type ConsensusProposal = {
+  consensusPosition: bigint,
+  lower: bigint,
+  upper: bigint
+};
+
+/**
+ * Mirrors VPOPMath.roundedMean: sum / totalWeight rounded to the nearest multiple of tick, halves away from zero
+ */
+export function roundedMean(sum: bigint, totalWeight: bigint, tick: bigint): bigint {
+  const divisor = totalWeight * tick;
+  const remainder = sum % divisor;
+  const mean = sum / divisor;
+  if (2n * (remainder < 0n ? -remainder : remainder) < divisor) return mean * tick;
+  return (sum < 0n ? mean - 1n : mean + 1n) * tick;
+}
+
+/**
+ * Computes the consensus of revealed positions exactly as the contract does: the reveal-time
+ * weighted mean, or the WeightedMedian and TrimmedMean that VPOPConsensus.settle accepts,
+ * together with the lower and upper positions to propose. The consensus is rounded to the
+ * market's tick, see getTickSize.
+ */
+export function computeConsensus(
+  mode: ConsensusMode,
+  trimRate: BigNumberish,
+  reveals: readonly RevealedWeight[],
+  tick: bigint
+): ConsensusProposal {
+  if (reveals.length == 0) {
+    throw new Error("No revealed commitments to compute a consensus from");
+  }
+  const sorted = [...reveals].sort((a, b) => (a.position < b.position ? -1 : a.position > b.position ? 1 : 0));
+  const totalWeight = sorted.reduce((sum, { weight }) => sum + weight, 0n);
+
+  if (mode == ConsensusMode.WeightedMean) {
+    const weightedSum = sorted.reduce((sum, { position, weight }) => sum + position * weight, 0n);
+    return { consensusPosition: roundedMean(weightedSum, totalWeight, tick), lower: 0n, upper: 0n };
+  }
+
+  // Lowest position whose weight at or below it exceeds limit
+  const positionAbove = (ascending: readonly RevealedWeight[], limit: bigint) => {
+    let cumulative = 0n;
+    for (const { position, weight } of ascending) {
+      cumulative += weight;
+      if (cumulative > limit) return position;
+    }
+    throw new Error("Limit exceeds the total weight");
+  };
+
+  if (mode == ConsensusMode.WeightedMedian) {
+    // Lowest position with 2 * (weight at or below it) >= totalWeight
+    const median = positionAbove(sorted, (totalWeight - 1n) / 2n);
+    return { consensusPosition: roundedMean(median, 1n, tick), lower: median, upper: median };
+  }
+
+  const trimmed = totalWeight * BigInt(trimRate) / 10000n;
+  const lower = positionAbove(sorted, trimmed);
+  const upper = positionAbove([...sorted].reverse(), trimmed);
+  if (lower == upper) {
+    return { consensusPosition: roundedMean(lower, 1n, tick), lower, upper };
+  }
+
+  // Mirrors VPOPConsensus.consensusPosition
+  let atOrBelowLower = 0n;
+  let atOrAboveUpper = 0n;
+  let innerSum = 0n;
+  for (const { position, weight } of sorted) {
+    if (position <= lower) atOrBelowLower += weight;
+    if (position >= upper) atOrAboveUpper += weight;
+    if (position > lower && position < upper) innerSum += position * weight;
+  }
+  const keptSum = innerSum + (atOrBelowLower - trimmed) * lower + (atOrAboveUpper - trimmed) * upper;
+  return { consensusPosition: roundedMean(keptSum, totalWeight - 2n * trimmed, tick), lower, upper };
+}
+
+/**
+ * Reads the position and weight of every revealed commitment of a market
+ */
+export async function getRevealedWeights(
+  vpop: VPOP,
+  marketId: BigNumberish,
+  pageSize = COMMITMENT_PAGE_SIZE
+): Promise<RevealedWeight[]> {
+  const { totalCommitments } = await vpop.marketConsensus(marketId);
+
+  const reveals: RevealedWeight[] = [];
+  for (let offset = 0n; offset < totalCommitments; offset += BigInt(pageSize)) {
+    const ids = [];
+    for (let id = offset + 1n; id <= totalCommitments && id <= offset + BigInt(pageSize); id++) {
+      ids.push(id);
+    }
+    const page = await Promise.all(ids.map((id) => vpop.commitments(marketId, id)));
+    reveals.push(...page.filter(({ revealed }) => revealed).map(({ position, weight }) => ({ position, weight })));
+  }
+  return reveals;
+}
+
+/**
+ * Computes what to propose to VPOPConsensus.settle for a market from its revealed commitments
+ */
+export async function computeConsensusProposal(vpop: VPOP, marketId: BigNumberish): Promise<ConsensusProposal> {
+  const [market, reveals] = await Promise.all([vpop.getMarket(marketId), getRevealedWeights(vpop, marketId)]);
+  if (reveals.length == 0) {
+    throw new Error(`Market ${marketId} has no revealed commitments`);
+  }
+  return computeConsensus(Number(market.consensusMode), market.trimRate, reveals, getTickSize(market.decimals));
+}
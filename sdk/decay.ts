@@ -0,0 +1,47 @@
+import { BigNumberish } from "ethers";
+
+// Shape of a market's weight decay, in VPOP.DecayCurve declaration order
+export enum DecayCurve {
+  Linear = 0, // loses decayFactor of the weight evenly over the commit phase
+  Exponential = 1, // halves the weight every decayParameter seconds
+  Step = 2, // loses weight in steps of decayParameter basis points of the commit phase
+  Cliff = 3 // keeps full weight until decayParameter basis points of the commit phase, then loses decayFactor
+}
+
+type MarketDecay = {
+  decayFactor: BigNumberish,
+  decayCurve: BigNumberish,
+  decayParameter: BigNumberish,
+  commitStart: BigNumberish,
+  commitDuration: BigNumberish
+};
+
+/**
+ * Returns the weight a commit of wager at timestamp gets, mirroring VPOPMath.weight
+ * and VPOPLens.previewWeight
+ */
+export function getCommitWeight(market: MarketDecay, wager: BigNumberish, timestamp: BigNumberish): bigint {
+  const decayFactor = BigInt(market.decayFactor);
+  const parameter = BigInt(market.decayParameter);
+  const commitDuration = BigInt(market.commitDuration);
+  let elapsed = BigInt(timestamp) - BigInt(market.commitStart);
+  if (elapsed < 0n || elapsed > commitDuration) {
+    throw new Error("Timestamp outside the commit phase");
+  }
+
+  let weight: bigint;
+  if (Number(market.decayCurve) == DecayCurve.Exponential) {
+    weight = BigInt(wager) >> (elapsed / parameter);
+    weight -= weight * (elapsed % parameter) / (2n * parameter);
+  } else {
+    const mark = commitDuration * parameter / 10000n;
+    if (Number(market.decayCurve) == DecayCurve.Step && mark > 0n) {
+      elapsed -= elapsed % mark;
+    } else if (Number(market.decayCurve) == DecayCurve.Cliff) {
+      elapsed = elapsed < mark ? 0n : commitDuration;
+    }
+    const decay = decayFactor * elapsed / commitDuration;
+    weight = BigInt(wager) * (10000n - decay) / 10000n;
+  }
+  return weight == 0n ? 1n : weight;
+}
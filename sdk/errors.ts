@@ -0,0 +1,25 @@
+export type VPOPErrorCode =
+  | "MARKET_NOT_FOUND"
+  | "WRONG_PHASE"
+  | "SECRET_NOT_FOUND"
+  | "ALREADY_REVEALED"
+  | "NOT_REVEALED"
+  | "ALREADY_CLAIMED"
+  | "ALREADY_SETTLED"
+  | "NOT_WINNING"
+  | "NOT_READY"
+  | "NOT_CREATOR"
+  | "UNSUPPORTED";
+
+/**
+ * Raised by the SDK when it refuses an action the contract would reject
+ */
+export class VPOPError extends Error {
+  readonly code: VPOPErrorCode;
+
+  constructor(code: VPOPErrorCode, message: string) {
+    super(message);
+    this.name = "VPOPError";
+    this.code = code;
+  }
+}
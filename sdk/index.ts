@@ -0,0 +1,26 @@
+export { BUNDLE_DISTANCE_SCALE, bundleDistance, computeBundleConsensus, createBundleCommitmentHash, getBundleSalt } from "./bundle";
+export type { BundleQuestion, RevealedBundle } from "./bundle";
+export { MAX_OPTIONS, MarketType, rankOptions, sumOptionWeights } from "./categorical";
+export { VPOPClient } from "./client";
+export type { BundleCommitParams, CommitParams, CommitResult, CreateBundleMarketParams, CreateMarketParams, PermitCommitParams, VPOPClientOptions } from "./client";
+export { COMMITMENT_HASH_VERSION, WHITELIST_WAGER, createCommitmentHash, getCommitmentHashDomain, randomSalt } from "./commitment";
+export type { CommitmentHashDomain } from "./commitment";
+export { COMMITMENT_PAGE_SIZE, ConsensusMode, computeConsensus, computeConsensusProposal, getRevealedWeights, roundedMean } from "./consensus";
+export type { ConsensusProposal, RevealedWeight } from "./consensus";
+export { DecayCurve, getCommitWeight } from "./decay";
+export { VPOPError } from "./errors";
+export type { VPOPErrorCode } from "./errors";
+export { KEEPER_BATCH_SIZE, KEEPER_POLL_INTERVAL, RevealKeeper } from "./keeper";
+export type { KeeperReport, RevealKeeperOptions } from "./keeper";
+export { PAYOUT_SCALE, PayoutCurve, SCORE_BITS, getPayoutScore, getWinnings } from "./payout";
+export { signPermit } from "./permit";
+export type { PermitSignature } from "./permit";
+export { MarketPhase, getMarketPhase, getPhaseTimestamps, toMarketPhase, toOnchainPhase } from "./phase";
+export type { PhaseTimestamps } from "./phase";
+export { PollingService } from "./polling";
+export { DISTANCE_PAGE_SIZE, computeWinningThreshold, getOptionRanks, getRevealedDistances, getTargetRank, selectWinningThreshold } from "./resolution";
+export { MarketResolver, RESOLVER_POLL_INTERVAL, RESOLVE_BATCH_SIZE } from "./resolver";
+export type { MarketResolverOptions, ResolvedMarket, ResolverReport } from "./resolver";
+export { EncryptedFileSecretStore, JsonFileSecretStore, MemorySecretStore, secretKey } from "./secrets";
+export type { CommitmentKey, CommitmentSecret, SecretFilter, SecretStore } from "./secrets";
+export { MAX_POSITION, MIN_POSITION, POSITION_DECIMALS, formatPosition, getTickSize, parsePosition } from "./units";
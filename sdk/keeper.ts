@@ -0,0 +1,229 @@
+import { ContractTransactionReceipt, ContractTransactionResponse, Signer } from "ethers";
+import { VPOP, VPOPConsensus__factory } from "../typechain-types";
+import { createBundleCommitmentHash } from "./bundle";
+import { MarketType } from "./categorical";
+import { CommitmentHashDomain, createCommitmentHash, getCommitmentHashDomain } from "./commitment";
+import { MarketPhase, getMarketPhase } from "./phase";
+import { PollingService, sleep } from "./polling";
+import { CommitmentSecret, SecretStore } from "./secrets";
+
+export const KEEPER_POLL_INTERVAL = 15_000; // ms
+export const KEEPER_BATCH_SIZE = 50; // commitments per revealMany transaction, bundles are revealed one per transaction
+
+export type RevealKeeperOptions = {
+  secretStore: SecretStore, // secrets handed to the keeper, ideally an EncryptedFileSecretStore
+  pollInterval?: number, // ms between passes
+  batchSize?: number,
+  maxGasPrice?: bigint, // reveals wait while the network gas price is above this, in wei
+  maxRetries?: number, // attempts per transaction within one pass, defaults to 3
+  retryDelay?: number, // ms before the first retry, doubled on every further attempt, defaults to 1000
+  log?: (message: string) => void
+};
+
+export type KeeperReport = {
+  revealed: CommitmentSecret[], // revealed in this pass and dropped from the store
+  deferred: CommitmentSecret[], // waiting for the gas price to fall below maxGasPrice
+  failed: CommitmentSecret[], // transaction kept failing, kept for the next pass
+  invalid: CommitmentSecret[], // the contract would never accept them, dropped from the store
+  missed: CommitmentSecret[] // the reveal window closed first, dropped from the store
+};
+
+function emptyReport(): KeeperReport {
+  return { revealed: [], deferred: [], failed: [], invalid: [], missed: [] };
+}
+
+/**
+ * Reveals commitments on behalf of their owners. reveal accepts the preimage from any caller,
+ * so users can hand their secrets to a keeper that watches market phases and reveals as soon
+ * as each reveal window opens, paying the gas itself. Secrets are dropped once they are revealed
+ * or can no longer be.
+ */
+export class RevealKeeper extends PollingService<KeeperReport> {
+  readonly vpop: VPOP;
+  readonly signer: Signer;
+  readonly secrets: SecretStore;
+  private readonly options: Required<Pick<RevealKeeperOptions, "batchSize" | "maxRetries" | "retryDelay">> & { maxGasPrice?: bigint };
+  private domain?: CommitmentHashDomain;
+
+  constructor(vpop: VPOP, signer: Signer, options: RevealKeeperOptions) {
+    super(options.pollInterval ?? KEEPER_POLL_INTERVAL, options.log ?? (() => {}));
+    this.vpop = vpop.connect(signer) as VPOP;
+    this.signer = signer;
+    this.secrets = options.secretStore;
+    this.options = {
+      batchSize: options.batchSize ?? KEEPER_BATCH_SIZE,
+      maxGasPrice: options.maxGasPrice,
+      maxRetries: options.maxRetries ?? 3,
+      retryDelay: options.retryDelay ?? 1000
+    };
+  }
+
+  /**
+   * Makes one pass over every stored secret for this deployment
+   */
+  async tick(): Promise<KeeperReport> {
+    const report = emptyReport();
+    const domain = await this.getDomain();
+    const stored = await this.secrets.list({ chainId: domain.chainId, contract: domain.verifyingContract });
+
+    const byMarket = new Map<bigint, CommitmentSecret[]>();
+    for (const secret of stored) {
+      byMarket.set(secret.marketId, [...(byMarket.get(secret.marketId) || []), secret]);
+    }
+
+    const block = await this.signer.provider!.getBlock("latest");
+    const timestamp = BigInt(block!.timestamp);
+    for (const [marketId, secrets] of byMarket) {
+      await this.processMarket(marketId, secrets, timestamp, report);
+    }
+    return report;
+  }
+
+  private async processMarket(marketId: bigint, secrets: CommitmentSecret[], timestamp: bigint, report: KeeperReport) {
+    const [market, consensus] = await Promise.all([this.vpop.getMarket(marketId), this.vpop.marketConsensus(marketId)]);
+    if (market.createdAt == 0n) {
+      this.log(`Market ${marketId} does not exist, dropping ${secrets.length} secrets`);
+      await this.drop(secrets, report.invalid);
+      return;
+    }
+
+    const phase = getMarketPhase(market, consensus, timestamp);
+    if (phase == MarketPhase.Scheduled || phase == MarketPhase.Commit) return;
+
+    // Skip commitments revealed by their owners and those whose secret does not match
+    const domain = await this.getDomain();
+    const bundle = Number(market.marketType) == MarketType.Bundle;
+    const questions = bundle ? await (await this.getConsensusModule()).getBundleQuestions(marketId) : [];
+    const pending: CommitmentSecret[] = [];
+    for (const secret of secrets) {
+      const commitment = await this.vpop.commitments(marketId, secret.commitmentId);
+      if (commitment.revealed) {
+        await this.secrets.remove(secret);
+        continue;
+      }
+      const { positions } = secret;
+      const hash = bundle && positions
+        ? createBundleCommitmentHash(domain, marketId, commitment.owner, positions, commitment.wager, secret.salt)
+        : createCommitmentHash(domain, marketId, commitment.owner, secret.position, commitment.wager, secret.salt);
+      const inBounds = bundle
+        ? positions?.length == questions.length && positions.every((position, i) => position >= questions[i].lowerBound && position <= questions[i].upperBound)
+        : secret.position >= market.lowerBound && secret.position <= market.upperBound;
+      if (commitment.commitmentHash != secret.commitmentHash || hash != secret.commitmentHash || !inBounds) {
+        this.log(`Secret for commitment ${secret.commitmentId} in market ${marketId} does not match, dropping it`);
+        await this.drop([secret], report.invalid);
+        continue;
+      }
+      pending.push(secret);
+    }
+    if (pending.length == 0) return;
+
+    if (phase != MarketPhase.Reveal) {
+      this.log(`Reveal window of market ${marketId} closed with ${pending.length} commitments unrevealed`);
+      await this.drop(pending, report.missed);
+      return;
+    }
+
+    if (this.options.maxGasPrice !== undefined) {
+      const gasPrice = await this.getGasPrice();
+      if (gasPrice > this.options.maxGasPrice) {
+        this.log(`Gas price ${gasPrice} is above ${this.options.maxGasPrice}, deferring ${pending.length} reveals in market ${marketId}`);
+        report.deferred.push(...pending);
+        return;
+      }
+    }
+
+    if (bundle) {
+      for (const secret of pending) {
+        await this.revealBundle(marketId, secret, report);
+      }
+      return;
+    }
+    for (let i = 0; i < pending.length; i += this.options.batchSize) {
+      await this.reveal(marketId, pending.slice(i, i + this.options.batchSize), report);
+    }
+  }
+
+  private async reveal(marketId: bigint, batch: CommitmentSecret[], report: KeeperReport) {
+    const receipt = await this.submit(marketId, () => this.vpop.revealMany(
+      marketId,
+      batch.map((secret) => secret.commitmentId),
+      batch.map((secret) => secret.commitmentHash),
+      batch.map((secret) => secret.position),
+      batch.map((secret) => secret.salt),
+      true
+    ));
+    if (!receipt) {
+      report.failed.push(...batch);
+      return;
+    }
+
+    // revealMany skips commitments that fail and reports them by index
+    const failed = new Set<number>();
+    for (const log of receipt.logs) {
+      const parsed = this.vpop.interface.parseLog(log);
+      if (parsed?.name == "BatchItemFailed") failed.add(Number(parsed.args.index));
+    }
+    for (let i = 0; i < batch.length; i++) {
+      if (failed.has(i)) {
+        report.failed.push(batch[i]);
+      } else {
+        await this.drop([batch[i]], report.revealed);
+      }
+    }
+    this.log(`Revealed ${batch.length - failed.size} of ${batch.length} commitments in market ${marketId} in ${receipt.hash}`);
+  }
+
+  // Bundles have no batch reveal, each goes through VPOPConsensus.revealBundle on its own
+  private async revealBundle(marketId: bigint, secret: CommitmentSecret, report: KeeperReport) {
+    const consensusModule = await this.getConsensusModule();
+    const receipt = await this.submit(marketId, () =>
+      consensusModule.revealBundle(marketId, secret.commitmentId, secret.commitmentHash, secret.positions!, secret.salt)
+    );
+    if (!receipt) {
+      report.failed.push(secret);
+      return;
+    }
+    await this.drop([secret], report.revealed);
+    this.log(`Revealed bundle commitment ${secret.commitmentId} in market ${marketId} in ${receipt.hash}`);
+  }
+
+  // Sends a reveal transaction, retrying with exponential backoff
+  private async submit(marketId: bigint, send: () => Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt | undefined> {
+    for (let attempt = 1; attempt <= this.options.maxRetries; attempt++) {
+      try {
+        const tx = await send();
+        const receipt = await tx.wait();
+        if (receipt) return receipt;
+      } catch (error: any) {
+        this.log(`Reveal in market ${marketId} failed (attempt ${attempt} of ${this.options.maxRetries}): ${error.shortMessage || error.message}`);
+      }
+      if (attempt < this.options.maxRetries) {
+        await sleep(this.options.retryDelay * 2 ** (attempt - 1));
+      }
+    }
+    return undefined;
+  }
+
+  private async drop(secrets: CommitmentSecret[], into: CommitmentSecret[]) {
+    for (const secret of secrets) {
+      await this.secrets.remove(secret);
+      into.push(secret);
+    }
+  }
+
+  private async getGasPrice(): Promise<bigint> {
+    const feeData = await this.signer.provider!.getFeeData();
+    return feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n;
+  }
+
+  private async getConsensusModule() {
+    return VPOPConsensus__factory.connect(await this.vpop.consensusModule(), this.signer);
+  }
+
+  private async getDomain(): Promise<CommitmentHashDomain> {
+    if (!this.domain) {
+      this.domain = await getCommitmentHashDomain(this.vpop);
+    }
+    return this.domain;
+  }
+}
@@ -0,0 +1,58 @@
+import { BigNumberish } from "ethers";
+
+// Score of an InverseDistance position at the winning threshold, VPOPMath.PAYOUT_SCALE
+export const PAYOUT_SCALE = 10n ** 18n;
+
+// Bits the winning threshold is scored in, VPOPMath.SCORE_BITS
+export const SCORE_BITS = 32;
+
+// How a market splits its winnings among winning positions, in VPOP.PayoutCurve declaration order
+export enum PayoutCurve {
+  Binary = 0, // every winning position scores the same
+  LinearFalloff = 1, // falls linearly from winningThreshold + 1 at the consensus to 1 at the threshold
+  Tiered = 2, // 2 within payoutParameter basis points of the threshold from the consensus, 1 beyond
+  InverseDistance = 3 // PAYOUT_SCALE * (winningThreshold + 1) / (distance + 1)
+}
+
+type MarketPayout = {
+  payoutCurve: BigNumberish,
+  payoutParameter: BigNumberish
+};
+
+/**
+ * Returns the payout score of a winning position, mirroring VPOPMath.payoutScore: thresholds
+ * wider than SCORE_BITS bits are scored with distance and threshold shifted down to SCORE_BITS bits
+ */
+export function getPayoutScore(market: MarketPayout, distance: BigNumberish, winningThreshold: BigNumberish): bigint {
+  let d = BigInt(distance);
+  let threshold = BigInt(winningThreshold);
+  if (d > threshold) {
+    throw new Error("Only winning positions have a payout score");
+  }
+  const shift = BigInt(Math.max(threshold.toString(2).length - SCORE_BITS, 0));
+  d >>= shift;
+  threshold >>= shift;
+  switch (Number(market.payoutCurve)) {
+    case PayoutCurve.LinearFalloff: return threshold + 1n - d;
+    case PayoutCurve.Tiered: return d * 10000n <= threshold * BigInt(market.payoutParameter) ? 2n : 1n;
+    case PayoutCurve.InverseDistance: return PAYOUT_SCALE * (threshold + 1n) / (d + 1n);
+    default: return 1n;
+  }
+}
+
+/**
+ * Returns what claim pays a winning position: its wager times its payout score, as a share of
+ * the winningScore resolve recorded, applied to the market's total winnings. Resolve records at
+ * least 1, so a resolved market always has a winningScore to divide by.
+ */
+export function getWinnings(
+  market: MarketPayout,
+  wager: BigNumberish,
+  distance: BigNumberish,
+  winningThreshold: BigNumberish,
+  totalWinnings: BigNumberish,
+  winningScore: BigNumberish
+): bigint {
+  const share = BigInt(wager) * getPayoutScore(market, distance, winningThreshold);
+  return share * BigInt(totalWinnings) / BigInt(winningScore);
+}
@@ -0,0 +1,59 @@
+import { BigNumberish, Signature, Signer } from "ethers";
+import { ERC20Permit__factory } from "../typechain-types";
+
+export type PermitSignature = {
+  v: number,
+  r: string,
+  s: string,
+  deadline: bigint
+};
+
+/**
+ * Signs an EIP-2612 permit letting a spender move a signer's tokens
+ * @param version The EIP-712 domain version of the token, "1" for OpenZeppelin ERC20Permit
+ */
+export async function signPermit(
+  signer: Signer,
+  token: string,
+  spender: string,
+  value: BigNumberish,
+  deadline: BigNumberish,
+  version = "1"
+): Promise<PermitSignature> {
+  const permitToken = ERC20Permit__factory.connect(token, signer);
+  const owner = await signer.getAddress();
+  const network = await signer.provider!.getNetwork();
+
+  const domain = {
+    name: await permitToken.name(),
+    version,
+    chainId: network.chainId,
+    verifyingContract: token
+  };
+
+  const types = {
+    Permit: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" }
+    ]
+  };
+
+  const values = {
+    owner,
+    spender,
+    value,
+    nonce: await permitToken.nonces(owner),
+    deadline
+  };
+
+  const sig = Signature.from(await signer.signTypedData(domain, types, values));
+  return {
+    v: sig.v,
+    r: sig.r,
+    s: sig.s,
+    deadline: BigInt(deadline)
+  };
+}
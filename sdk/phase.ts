@@ -0,0 +1,78 @@
+// Lifecycle phase of a market, derived from its timing and status
+export enum MarketPhase {
+  Scheduled = "scheduled",
+  Commit = "commit",
+  Reveal = "reveal",
+  AwaitingResolution = "awaitingResolution",
+  Resolved = "resolved",
+  Cancelled = "cancelled"
+}
+
+// VPOP.MarketPhase values in declaration order
+const ONCHAIN_PHASES = [
+  MarketPhase.Scheduled,
+  MarketPhase.Commit,
+  MarketPhase.Reveal,
+  MarketPhase.AwaitingResolution,
+  MarketPhase.Resolved,
+  MarketPhase.Cancelled
+];
+
+type MarketTiming = {
+  commitStart: bigint,
+  commitDuration: bigint,
+  revealDuration: bigint
+};
+
+type MarketStatus = {
+  resolved: boolean,
+  cancelled: boolean
+};
+
+export type PhaseTimestamps = {
+  commitStart: bigint, // first second commits are accepted
+  commitEnd: bigint, // last second commits are accepted
+  revealEnd: bigint // last second reveals are accepted
+};
+
+/**
+ * Converts a VPOP.MarketPhase value returned by the contract
+ */
+export function toMarketPhase(value: bigint | number): MarketPhase {
+  const phase = ONCHAIN_PHASES[Number(value)];
+  if (phase === undefined) {
+    throw new Error(`Unknown market phase ${value}`);
+  }
+  return phase;
+}
+
+/**
+ * Converts a phase to the VPOP.MarketPhase value the contract expects, e.g. in VPOPLens filters
+ */
+export function toOnchainPhase(phase: MarketPhase): bigint {
+  return BigInt(ONCHAIN_PHASES.indexOf(phase));
+}
+
+/**
+ * Returns the timestamps bounding the phases of a market, mirroring VPOP.getPhaseTimestamps
+ */
+export function getPhaseTimestamps(market: MarketTiming): PhaseTimestamps {
+  const commitEnd = market.commitStart + market.commitDuration;
+  return { commitStart: market.commitStart, commitEnd, revealEnd: commitEnd + market.revealDuration };
+}
+
+/**
+ * Returns the phase of a market at a timestamp, mirroring VPOP.getMarketPhase:
+ * commits are accepted up to and including the end of the commit phase and reveals
+ * up to and including the end of the reveal phase.
+ */
+export function getMarketPhase(market: MarketTiming, status: MarketStatus, timestamp: bigint): MarketPhase {
+  if (status.cancelled) return MarketPhase.Cancelled;
+  if (status.resolved) return MarketPhase.Resolved;
+
+  const { commitStart, commitEnd, revealEnd } = getPhaseTimestamps(market);
+  if (timestamp < commitStart) return MarketPhase.Scheduled;
+  if (timestamp <= commitEnd) return MarketPhase.Commit;
+  if (timestamp <= revealEnd) return MarketPhase.Reveal;
+  return MarketPhase.AwaitingResolution;
+}
@@ -0,0 +1,55 @@
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Base for long-running services that make a pass every pollInterval, such as the reveal
+ * keeper and the resolver. Errors in a pass are logged, not thrown, so one bad pass does
+ * not stop the service.
+ */
+export abstract class PollingService<Report> {
+  private running?: Promise<void>;
+  private wake?: () => void;
+
+  constructor(protected readonly pollInterval: number, protected readonly log: (message: string) => void) {}
+
+  /**
+   * Makes one pass
+   */
+  abstract tick(): Promise<Report>;
+
+  /**
+   * Runs passes every pollInterval until stop is called
+   */
+  start(): void {
+    if (this.running) return;
+    const loop = async () => {
+      while (this.running) {
+        try {
+          await this.tick();
+        } catch (error: any) {
+          this.log(`Pass failed: ${error.message}`);
+        }
+        if (!this.running) break;
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, this.pollInterval);
+          this.wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+      }
+    };
+    this.running = Promise.resolve().then(loop);
+  }
+
+  /**
+   * Stops the loop, waiting for a pass in progress to finish
+   */
+  async stop(): Promise<void> {
+    const running = this.running;
+    this.running = undefined;
+    this.wake?.();
+    await running;
+  }
+}
@@ -0,0 +1,90 @@
+import { BigNumberish } from "ethers";
+import { VPOP, VPOPConsensus__factory } from "../typechain-types";
+import { MarketType } from "./categorical";
+import { ConsensusMode, computeConsensus, getRevealedWeights } from "./consensus";
+import { getTickSize } from "./units";
+
+// Distances read per getRevealedDistances call, each reading its commitments from VPOP
+export const DISTANCE_PAGE_SIZE = 200;
+
+/**
+ * Mirrors the contract's getTargetRank: ceil(revealed * winningPercentile / 10000),
+ * and at least 1 once anything is revealed
+ */
+export function getTargetRank(revealedCommitments: BigNumberish, winningPercentile: BigNumberish): bigint {
+  const revealed = BigInt(revealedCommitments);
+  const rank = (BigInt(winningPercentile) * revealed + 9999n) / 10000n;
+  return rank == 0n && revealed > 0n ? 1n : rank;
+}
+
+/**
+ * Returns the threshold resolve accepts for a set of revealed distances: the distance at the
+ * target rank once sorted. Fewer than targetRank distances lie strictly below it and at least
+ * targetRank lie at or below it, which is exactly what resolve checks.
+ */
+export function selectWinningThreshold(distances: readonly bigint[], winningPercentile: BigNumberish): bigint {
+  if (distances.length == 0) {
+    throw new Error("No revealed distances to select a threshold from");
+  }
+  const sorted = [...distances].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const targetRank = getTargetRank(sorted.length, winningPercentile);
+  return sorted[Number(targetRank) - 1];
+}
+
+/**
+ * Reads the distance from consensus of every revealed commitment, paging through
+ * VPOPConsensus.getRevealedDistances so markets of any size can be read
+ */
+export async function getRevealedDistances(
+  vpop: VPOP,
+  marketId: BigNumberish,
+  pageSize = DISTANCE_PAGE_SIZE
+): Promise<bigint[]> {
+  const { totalCommitments } = await vpop.marketConsensus(marketId);
+  const consensusModule = VPOPConsensus__factory.connect(await vpop.consensusModule(), vpop.runner);
+
+  const distances: bigint[] = [];
+  for (let offset = 0n; offset < totalCommitments; offset += BigInt(pageSize)) {
+    distances.push(...await consensusModule.getRevealedDistances(marketId, offset, pageSize));
+  }
+  return distances;
+}
+
+/**
+ * Reads the rank of every option of a categorical market, its distance from consensus,
+ * from VPOPConsensus.getOptionRanks
+ */
+export async function getOptionRanks(vpop: VPOP, marketId: BigNumberish): Promise<bigint[]> {
+  const market = await vpop.getMarket(marketId);
+  if (Number(market.marketType) != MarketType.Categorical) {
+    throw new Error(`Market ${marketId} is not categorical`);
+  }
+  const consensusModule = VPOPConsensus__factory.connect(await vpop.consensusModule(), vpop.runner);
+  return consensusModule.getOptionRanks(marketId, market.upperBound + 1n);
+}
+
+/**
+ * Computes the winning threshold off-chain from the revealed commitments.
+ * Works for markets of any size, unlike VPOPConsensus.getWinningThreshold, and for
+ * WeightedMedian and TrimmedMean markets whose consensus is not settled yet.
+ */
+export async function computeWinningThreshold(
+  vpop: VPOP,
+  marketId: BigNumberish,
+  pageSize = DISTANCE_PAGE_SIZE
+): Promise<bigint> {
+  const market = await vpop.getMarket(marketId);
+  let distances: bigint[];
+  if (Number(market.consensusMode) == ConsensusMode.WeightedMean || await vpop.consensusSettled(marketId)) {
+    distances = await getRevealedDistances(vpop, marketId, pageSize);
+  } else {
+    // Measure from the consensus VPOPConsensus.settle will store
+    const reveals = await getRevealedWeights(vpop, marketId);
+    const { consensusPosition } = computeConsensus(Number(market.consensusMode), market.trimRate, reveals, getTickSize(market.decimals));
+    distances = reveals.map(({ position }) => position > consensusPosition ? position - consensusPosition : consensusPosition - position);
+  }
+  if (distances.length == 0) {
+    throw new Error(`Market ${marketId} has no revealed commitments`);
+  }
+  return selectWinningThreshold(distances, market.winningPercentile);
+}
@@ -0,0 +1,135 @@
+import { Signer } from "ethers";
+import { VPOP, VPOPConsensus__factory } from "../typechain-types";
+import { ConsensusMode, computeConsensusProposal } from "./consensus";
+import { MarketPhase, getMarketPhase } from "./phase";
+import { PollingService } from "./polling";
+import { computeWinningThreshold } from "./resolution";
+
+export const RESOLVER_POLL_INTERVAL = 60_000; // ms
+export const RESOLVE_BATCH_SIZE = 1000; // markets with more commitments resolve through resolveBatch
+
+export type MarketResolverOptions = {
+  pollInterval?: number, // ms between passes
+  batchSize?: number, // commitments counted per resolveBatch or VPOPConsensus.settle call
+  fromMarketId?: bigint, // first market to watch, defaults to 1
+  log?: (message: string) => void
+};
+
+export type ResolvedMarket = {
+  marketId: bigint,
+  winningThreshold: bigint,
+  transactionHash: string
+};
+
+export type ResolverReport = {
+  resolved: ResolvedMarket[],
+  failed: { marketId: bigint, reason: string }[], // simulation or transaction failed, retried next pass
+  unresolvable: bigint[] // reveal phase ended without any reveal, reported once
+};
+
+/**
+ * Resolves markets as soon as they can be: once every commitment is revealed, or once the
+ * reveal phase has ended. The winning threshold is computed off-chain from the revealed
+ * commitments and every call is simulated before it is sent, so a threshold the contract
+ * would reject never costs gas. WeightedMedian and TrimmedMean markets get their consensus
+ * settled the same way first.
+ */
+export class MarketResolver extends PollingService<ResolverReport> {
+  readonly vpop: VPOP;
+  readonly signer: Signer;
+  private readonly batchSize: number;
+  // Markets below this ID are settled and no longer read
+  private nextMarketId: bigint;
+  private unresolvable = new Set<bigint>();
+
+  constructor(vpop: VPOP, signer: Signer, options: MarketResolverOptions = {}) {
+    super(options.pollInterval ?? RESOLVER_POLL_INTERVAL, options.log ?? (() => {}));
+    this.vpop = vpop.connect(signer) as VPOP;
+    this.signer = signer;
+    this.batchSize = options.batchSize ?? RESOLVE_BATCH_SIZE;
+    this.nextMarketId = options.fromMarketId ?? 1n;
+  }
+
+  /**
+   * Makes one pass over every market that is not settled yet
+   */
+  async tick(): Promise<ResolverReport> {
+    const report: ResolverReport = { resolved: [], failed: [], unresolvable: [] };
+    const marketCount = await this.vpop.getMarketCount();
+    const block = await this.signer.provider!.getBlock("latest");
+    const timestamp = BigInt(block!.timestamp);
+
+    let settledSoFar = true;
+    for (let marketId = this.nextMarketId; marketId <= marketCount; marketId++) {
+      const [market, consensus] = await Promise.all([this.vpop.getMarket(marketId), this.vpop.marketConsensus(marketId)]);
+      const phase = getMarketPhase(market, consensus, timestamp);
+      const allRevealed = consensus.totalCommitments > 0n && consensus.totalCommitments == consensus.revealedCommitments;
+
+      let settled = phase == MarketPhase.Resolved || phase == MarketPhase.Cancelled;
+      if (phase == MarketPhase.AwaitingResolution && consensus.revealedCommitments == 0n) {
+        // Nothing was revealed, so only cancelMarket can settle it
+        if (!this.unresolvable.has(marketId)) {
+          this.unresolvable.add(marketId);
+          report.unresolvable.push(marketId);
+          this.log(`Market ${marketId} ended without reveals and cannot be resolved`);
+        }
+        settled = true;
+      } else if (phase == MarketPhase.AwaitingResolution || (phase == MarketPhase.Reveal && allRevealed)) {
+        settled = await this.resolve(marketId, consensus.totalCommitments, report);
+      }
+
+      settledSoFar = settledSoFar && settled;
+      if (settledSoFar) {
+        this.nextMarketId = marketId + 1n;
+      }
+    }
+    return report;
+  }
+
+  // Returns true once the market is resolved
+  private async resolve(marketId: bigint, totalCommitments: bigint, report: ResolverReport): Promise<boolean> {
+    try {
+      await this.settleConsensus(marketId);
+      const winningThreshold = await computeWinningThreshold(this.vpop, marketId);
+      let transactionHash: string;
+      if (totalCommitments <= BigInt(this.batchSize)) {
+        await this.vpop.resolve.staticCall(marketId, winningThreshold);
+        const tx = await this.vpop.resolve(marketId, winningThreshold);
+        transactionHash = (await tx.wait())!.hash;
+      } else {
+        // Each resolveBatch call counts the next batchSize commitments; the last one resolves
+        do {
+          await this.vpop.resolveBatch.staticCall(marketId, winningThreshold, this.batchSize);
+          const tx = await this.vpop.resolveBatch(marketId, winningThreshold, this.batchSize);
+          transactionHash = (await tx.wait())!.hash;
+        } while (!(await this.vpop.marketConsensus(marketId)).resolved);
+      }
+
+      this.log(`Resolved market ${marketId} with threshold ${winningThreshold} in ${transactionHash}`);
+      report.resolved.push({ marketId, winningThreshold, transactionHash });
+      return true;
+    } catch (error: any) {
+      const reason = error.reason || error.shortMessage || error.message;
+      this.log(`Could not resolve market ${marketId}: ${reason}`);
+      report.failed.push({ marketId, reason });
+      return false;
+    }
+  }
+
+  // Settles the consensus of a WeightedMedian or TrimmedMean market unless it already is
+  private async settleConsensus(marketId: bigint) {
+    const { consensusMode } = await this.vpop.getMarket(marketId);
+    if (Number(consensusMode) == ConsensusMode.WeightedMean || await this.vpop.consensusSettled(marketId)) {
+      return;
+    }
+
+    const { lower, upper } = await computeConsensusProposal(this.vpop, marketId);
+    const consensusModule = VPOPConsensus__factory.connect(await this.vpop.consensusModule(), this.signer);
+    // Each call counts the next batchSize commitments; the last one settles
+    do {
+      await consensusModule.settle.staticCall(marketId, lower, upper, this.batchSize);
+      await (await consensusModule.settle(marketId, lower, upper, this.batchSize)).wait();
+    } while (!(await this.vpop.consensusSettled(marketId)));
+    this.log(`Settled the consensus of market ${marketId}`);
+  }
+}
@@ -0,0 +1,223 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "crypto";
+import { promises as fs } from "fs";
+
+// Everything needed to reveal a commitment later
+export type CommitmentSecret = {
+  chainId: bigint,
+  contract: string,
+  marketId: bigint,
+  commitmentId: bigint,
+  owner: string,
+  position: bigint, // 0 for bundles
+  positions?: bigint[], // one per question of a bundle market
+  wager: bigint, // wager the hash was built with
+  salt: string,
+  commitmentHash: string
+};
+
+// Identifies one commitment across chains and deployments
+export type CommitmentKey = Pick<CommitmentSecret, "chainId" | "contract" | "marketId" | "commitmentId">;
+
+export type SecretFilter = Partial<Pick<CommitmentSecret, "chainId" | "contract" | "marketId" | "owner">>;
+
+/**
+ * Storage for commitment secrets. Positions and salts must stay private until reveal,
+ * so implementations decide where and how they are kept.
+ */
+export interface SecretStore {
+  save(secret: CommitmentSecret): Promise<void>;
+  load(key: CommitmentKey): Promise<CommitmentSecret | undefined>;
+  remove(key: CommitmentKey): Promise<void>;
+  list(filter?: SecretFilter): Promise<CommitmentSecret[]>;
+}
+
+export function secretKey(key: CommitmentKey): string {
+  return [key.chainId, key.contract.toLowerCase(), key.marketId, key.commitmentId].join(":");
+}
+
+function matches(secret: CommitmentSecret, filter: SecretFilter): boolean {
+  return (filter.chainId === undefined || secret.chainId === filter.chainId) &&
+    (filter.contract === undefined || secret.contract.toLowerCase() === filter.contract.toLowerCase()) &&
+    (filter.marketId === undefined || secret.marketId === filter.marketId) &&
+    (filter.owner === undefined || secret.owner.toLowerCase() === filter.owner.toLowerCase());
+}
+
+/**
+ * Keeps secrets in memory only. Secrets are lost when the process exits.
+ */
+export class MemorySecretStore implements SecretStore {
+  private secrets = new Map<string, CommitmentSecret>();
+
+  async save(secret: CommitmentSecret): Promise<void> {
+    this.secrets.set(secretKey(secret), { ...secret });
+  }
+
+  async load(key: CommitmentKey): Promise<CommitmentSecret | undefined> {
+    const secret = this.secrets.get(secretKey(key));
+    return secret && { ...secret };
+  }
+
+  async remove(key: CommitmentKey): Promise<void> {
+    this.secrets.delete(secretKey(key));
+  }
+
+  async list(filter: SecretFilter = {}): Promise<CommitmentSecret[]> {
+    return [...this.secrets.values()].filter((secret) => matches(secret, filter)).map((secret) => ({ ...secret }));
+  }
+}
+
+type SerializedSecret = { [K in keyof CommitmentSecret]: string };
+
+function serialize(secret: CommitmentSecret): SerializedSecret {
+  return {
+    chainId: secret.chainId.toString(),
+    contract: secret.contract,
+    marketId: secret.marketId.toString(),
+    commitmentId: secret.commitmentId.toString(),
+    owner: secret.owner,
+    position: secret.position.toString(),
+    ...(secret.positions && { positions: secret.positions.join(",") }),
+    wager: secret.wager.toString(),
+    salt: secret.salt,
+    commitmentHash: secret.commitmentHash
+  };
+}
+
+function deserialize(secret: SerializedSecret): CommitmentSecret {
+  return {
+    chainId: BigInt(secret.chainId),
+    contract: secret.contract,
+    marketId: BigInt(secret.marketId),
+    commitmentId: BigInt(secret.commitmentId),
+    owner: secret.owner,
+    position: BigInt(secret.position),
+    ...(secret.positions && { positions: secret.positions.split(",").map(BigInt) }),
+    wager: BigInt(secret.wager),
+    salt: secret.salt,
+    commitmentHash: secret.commitmentHash
+  };
+}
+
+/**
+ * Keeps secrets in a plain JSON file, keyed by secretKey. The file is rewritten on every change.
+ */
+export class JsonFileSecretStore implements SecretStore {
+  constructor(readonly path: string) {}
+
+  async save(secret: CommitmentSecret): Promise<void> {
+    const secrets = await this.read();
+    secrets[secretKey(secret)] = serialize(secret);
+    await this.write(secrets);
+  }
+
+  async load(key: CommitmentKey): Promise<CommitmentSecret | undefined> {
+    const secret = (await this.read())[secretKey(key)];
+    return secret && deserialize(secret);
+  }
+
+  async remove(key: CommitmentKey): Promise<void> {
+    const secrets = await this.read();
+    delete secrets[secretKey(key)];
+    await this.write(secrets);
+  }
+
+  async list(filter: SecretFilter = {}): Promise<CommitmentSecret[]> {
+    return Object.values(await this.read()).map(deserialize).filter((secret) => matches(secret, filter));
+  }
+
+  protected async read(): Promise<Record<string, SerializedSecret>> {
+    try {
+      return JSON.parse(await fs.readFile(this.path, "utf8"));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return {};
+      throw error;
+    }
+  }
+
+  protected async write(secrets: Record<string, SerializedSecret>): Promise<void> {
+    await fs.writeFile(this.path, JSON.stringify(secrets, null, 2), { mode: 0o600 });
+  }
+}
+
+// scrypt cost parameters for EncryptedFileSecretStore; stored in the file so they can be raised later
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+
+type EncryptedFile = {
+  version: 1,
+  kdf: { name: "scrypt", N: number, r: number, p: number, salt: string },
+  iv: string,
+  tag: string,
+  data: string
+};
+
+function deriveKey(passphrase: string, salt: Buffer, params: { N: number, r: number, p: number }): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, salt, 32, { ...params, maxmem: 64 * 1024 * 1024 }, (error, key) => error ? reject(error) : resolve(key));
+  });
+}
+
+/**
+ * Keeps secrets in a JSON file encrypted at rest with AES-256-GCM, for processes such as
+ * the reveal keeper that hold other users' secrets. The key is derived from a passphrase
+ * with scrypt; a wrong passphrase or a tampered file fails to decrypt instead of reading
+ * as empty.
+ */
+export class EncryptedFileSecretStore extends JsonFileSecretStore {
+  private key?: { salt: Buffer, value: Buffer };
+
+  constructor(path: string, private readonly passphrase: string) {
+    super(path);
+    if (!passphrase) {
+      throw new Error("EncryptedFileSecretStore needs a passphrase");
+    }
+  }
+
+  protected async read(): Promise<Record<string, SerializedSecret>> {
+    let file: EncryptedFile;
+    try {
+      file = JSON.parse(await fs.readFile(this.path, "utf8"));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return {};
+      throw error;
+    }
+    if (file.version !== 1 || file.kdf?.name !== "scrypt") {
+      throw new Error(`Unsupported secret file format in ${this.path}`);
+    }
+
+    const salt = Buffer.from(file.kdf.salt, "hex");
+    const key = await this.getKey(salt, file.kdf);
+    const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(file.iv, "hex"));
+    decipher.setAuthTag(Buffer.from(file.tag, "hex"));
+    try {
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(file.data, "base64")), decipher.final()]);
+      return JSON.parse(plaintext.toString("utf8"));
+    } catch {
+      throw new Error(`Cannot decrypt ${this.path}: wrong passphrase or corrupted file`);
+    }
+  }
+
+  protected async write(secrets: Record<string, SerializedSecret>): Promise<void> {
+    // Keep the salt of an existing file so the derived key can be reused; every write gets a fresh IV
+    const salt = this.key?.salt || randomBytes(16);
+    const key = await this.getKey(salt, SCRYPT_PARAMS);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(secrets), "utf8"), cipher.final()]);
+
+    const file: EncryptedFile = {
+      version: 1,
+      kdf: { name: "scrypt", ...SCRYPT_PARAMS, salt: salt.toString("hex") },
+      iv: iv.toString("hex"),
+      tag: cipher.getAuthTag().toString("hex"),
+      data: data.toString("base64")
+    };
+    await fs.writeFile(this.path, JSON.stringify(file, null, 2), { mode: 0o600 });
+  }
+
+  private async getKey(salt: Buffer, params: { N: number, r: number, p: number }): Promise<Buffer> {
+    if (!this.key || !this.key.salt.equals(salt)) {
+      this.key = { salt, value: await deriveKey(this.passphrase, salt, params) };
+    }
+    return this.key.value;
+  }
+}
@@ -0,0 +1,42 @@
+import { BigNumberish, formatUnits, parseUnits } from "ethers";
+
+// Range of a position, which VPOP stores as an int128
+export const MIN_POSITION = -(2n ** 127n);
+export const MAX_POSITION = 2n ** 127n - 1n;
+
+// Decimals of every position, bound and consensus, mirroring POSITION_DECIMALS in VPOPMath.sol
+export const POSITION_DECIMALS = 18;
+
+/**
+ * Mirrors tickSize in VPOPMath.sol: the multiple of contract units a market with the given
+ * decimals settles its consensus on, one whole unit at 0 decimals and one contract unit at 18
+ */
+export function getTickSize(decimals: BigNumberish): bigint {
+  return 10n ** BigInt(POSITION_DECIMALS - Number(decimals));
+}
+
+/**
+ * Converts a human-readable value such as "-12.5" into contract units, POSITION_DECIMALS fixed
+ * point, for a market with the given decimals. Throws for values finer than the market's tick or
+ * outside the range of a position.
+ */
+export function parsePosition(value: string | number, decimals: BigNumberish): bigint {
+  let position: bigint;
+  try {
+    position = parseUnits(String(value).trim(), Number(decimals)) * getTickSize(decimals);
+  } catch {
+    throw new Error(`Invalid value "${value}" for ${decimals} decimals`);
+  }
+  if (position < MIN_POSITION || position > MAX_POSITION) {
+    throw new Error(`Value ${value} is outside the range of a position`);
+  }
+  return position;
+}
+
+/**
+ * Converts a position, bound or consensus in contract units back into a human-readable value,
+ * e.g. -125n * 10n ** 17n into "-12.5"
+ */
+export function formatPosition(position: BigNumberish): string {
+  return formatUnits(position, POSITION_DECIMALS);
+}
@@ -0,0 +1,308 @@
+import { formatUnits, isAddress, parseUnits } from "ethers";
+import { BUNDLE_DISTANCE_SCALE } from "../sdk/bundle";
+import { MAX_OPTIONS, MarketType } from "../sdk/categorical";
+import { ConsensusMode } from "../sdk/consensus";
+import { DecayCurve } from "../sdk/decay";
+import { PayoutCurve } from "../sdk/payout";
+import { POSITION_DECIMALS, formatPosition, parsePosition } from "../sdk/units";
+
+// Parsers turning the human-readable task arguments into the integers the contract expects
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+
+/**
+ * Parses a duration such as "90", "90s", "30m", "1h", "2d" or "1w" into seconds
+ */
+export function parseDuration(value: string): bigint {
+  const match = value.trim().match(/^(\d+)\s*([smhdw]?)$/);
+  if (!match) {
+    throw new Error(`Invalid duration "${value}", expected e.g. 3600, 30m, 1h or 2d`);
+  }
+  return BigInt(match[1]) * BigInt(DURATION_UNITS[match[2] || "s"]);
+}
+
+/**
+ * Parses a start time: a delay from now such as "30m" or "2d", a unix timestamp in seconds,
+ * or an ISO date such as "2025-06-01T12:00:00Z"
+ */
+export function parseStartTime(value: string, now: bigint): bigint {
+  const trimmed = value.trim();
+  if (/^\d{10,}$/.test(trimmed)) {
+    return BigInt(trimmed);
+  }
+  if (/^\d+\s*[smhdw]?$/.test(trimmed)) {
+    return now + parseDuration(trimmed);
+  }
+  const time = Date.parse(trimmed);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid start time "${value}", expected e.g. 2d, a unix timestamp or 2025-06-01T12:00:00Z`);
+  }
+  return BigInt(Math.floor(time / 1000));
+}
+
+/**
+ * Parses a rate such as "2.5%", "2.5" (both percent) or "250bps" into basis points
+ */
+export function parseBasisPoints(value: string): bigint {
+  const trimmed = value.trim();
+  const bps = trimmed.match(/^(\d+)\s*bps$/);
+  if (bps) {
+    return BigInt(bps[1]);
+  }
+  const percent = trimmed.replace(/%$/, "").trim();
+  if (!/^\d+(\.\d{1,2})?$/.test(percent)) {
+    throw new Error(`Invalid rate "${value}", expected e.g. 50%, 2.5 or 250bps`);
+  }
+  return parseUnits(percent, 2);
+}
+
+const DECAY_CURVES: Record<string, DecayCurve> = {
+  linear: DecayCurve.Linear,
+  exponential: DecayCurve.Exponential,
+  step: DecayCurve.Step,
+  cliff: DecayCurve.Cliff
+};
+
+/**
+ * Parses a decay curve name and its parameter: a half-life such as "10m" for exponential,
+ * a share of the commit phase such as "25%" for step and cliff, nothing for linear
+ */
+export function parseDecayCurve(curve: string, parameter?: string): { decayCurve: DecayCurve, decayParameter: bigint } {
+  const decayCurve = DECAY_CURVES[curve.trim().toLowerCase()];
+  if (decayCurve === undefined) {
+    throw new Error(`Invalid decay curve "${curve}", expected linear, exponential, step or cliff`);
+  }
+  if (decayCurve == DecayCurve.Linear) {
+    return { decayCurve, decayParameter: 0n };
+  }
+  if (!parameter) {
+    throw new Error(`The ${curve} decay curve needs a decay parameter`);
+  }
+  const decayParameter = decayCurve == DecayCurve.Exponential ? parseDuration(parameter) : parseBasisPoints(parameter);
+  return { decayCurve, decayParameter };
+}
+
+const CONSENSUS_MODES: Record<string, ConsensusMode> = {
+  mean: ConsensusMode.WeightedMean,
+  median: ConsensusMode.WeightedMedian,
+  trimmed: ConsensusMode.TrimmedMean
+};
+
+/**
+ * Parses a consensus mode name and, for the trimmed mean, the share of the weight it drops
+ * from each end, such as "10%"
+ */
+export function parseConsensusMode(mode: string, trim?: string): { consensusMode: ConsensusMode, trimRate: bigint } {
+  const consensusMode = CONSENSUS_MODES[mode.trim().toLowerCase()];
+  if (consensusMode === undefined) {
+    throw new Error(`Invalid consensus mode "${mode}", expected mean, median or trimmed`);
+  }
+  if (consensusMode != ConsensusMode.TrimmedMean) {
+    return { consensusMode, trimRate: 0n };
+  }
+  if (!trim) {
+    throw new Error("The trimmed mean needs a trim rate");
+  }
+  return { consensusMode, trimRate: parseBasisPoints(trim) };
+}
+
+const PAYOUT_CURVES: Record<string, PayoutCurve> = {
+  binary: PayoutCurve.Binary,
+  linear: PayoutCurve.LinearFalloff,
+  tiered: PayoutCurve.Tiered,
+  inverse: PayoutCurve.InverseDistance
+};
+
+/**
+ * Parses a payout curve name and, for tiered, its inner band as a share of the winning
+ * threshold, such as "50%"
+ */
+export function parsePayoutCurve(curve: string, parameter?: string): { payoutCurve: PayoutCurve, payoutParameter: bigint } {
+  const payoutCurve = PAYOUT_CURVES[curve.trim().toLowerCase()];
+  if (payoutCurve === undefined) {
+    throw new Error(`Invalid payout curve "${curve}", expected binary, linear, tiered or inverse`);
+  }
+  if (payoutCurve != PayoutCurve.Tiered) {
+    return { payoutCurve, payoutParameter: 0n };
+  }
+  if (!parameter) {
+    throw new Error("The tiered payout curve needs an inner band");
+  }
+  return { payoutCurve, payoutParameter: parseBasisPoints(parameter) };
+}
+
+/**
+ * Parses a decimal number such as "12.5" into an integer with the given number of decimals
+ */
+export function parseScaled(value: string, decimals: number | bigint): bigint {
+  try {
+    return parseUnits(value.trim(), Number(decimals));
+  } catch {
+    throw new Error(`Invalid number "${value}" for ${decimals} decimals`);
+  }
+}
+
+/**
+ * Parses the positions of a market: an option count such as "5" for a categorical market, whose
+ * positions are option indexes from 0, or else a lower and upper bound, possibly negative, see parsePosition
+ */
+export function parseMarketRange(
+  lower: string | undefined,
+  upper: string | undefined,
+  options: string | undefined,
+  decimals: number
+): { marketType: MarketType, lowerBound: bigint, upperBound: bigint } {
+  if (options !== undefined) {
+    const count = Number(options.trim());
+    if (!Number.isInteger(count) || count < 2 || count > MAX_OPTIONS) {
+      throw new Error(`Invalid option count "${options}", expected 2 to ${MAX_OPTIONS}`);
+    }
+    return { marketType: MarketType.Categorical, lowerBound: 0n, upperBound: BigInt(count - 1) };
+  }
+  if (lower === undefined || upper === undefined) {
+    throw new Error("A numeric market needs a lower and an upper bound");
+  }
+  return { marketType: MarketType.Numeric, lowerBound: parsePosition(lower, decimals), upperBound: parsePosition(upper, decimals) };
+}
+
+/**
+ * Parses a position of a market: an option index for a categorical or bundle market, or else a
+ * value such as "42.5" with at most the market's decimals, see parsePosition
+ */
+export function parseMarketPosition(value: string, marketType: bigint | number, decimals: bigint | number): bigint {
+  return Number(marketType) == MarketType.Numeric ? parsePosition(value, decimals) : parseScaled(value, 0);
+}
+
+// Decimals a winning threshold is written with: numeric distances are positions, categorical
+// ones option ranks and bundle ones question ranges of BUNDLE_DISTANCE_SCALE each
+function getThresholdDecimals(marketType: bigint | number): number {
+  switch (Number(marketType)) {
+    case MarketType.Numeric: return POSITION_DECIMALS;
+    case MarketType.Categorical: return 0;
+    case MarketType.Bundle: return BUNDLE_DISTANCE_SCALE.toString().length - 1;
+    default: throw new Error(`Unknown market type ${marketType}`);
+  }
+}
+
+/**
+ * Parses a winning threshold: a distance such as "2.5" for a numeric market, a number of option
+ * ranks for a categorical market, or a sum of question ranges such as "0.25" for a bundle market
+ */
+export function parseThreshold(value: string, marketType: bigint | number): bigint {
+  return parseScaled(value, getThresholdDecimals(marketType));
+}
+
+/**
+ * Parses an address, or returns the fallback when the value is empty
+ */
+export function parseAddress(value: string | undefined, fallback?: string): string {
+  if (!value) {
+    if (fallback !== undefined) return fallback;
+    throw new Error("Missing address");
+  }
+  if (!isAddress(value)) {
+    throw new Error(`Invalid address "${value}"`);
+  }
+  return value;
+}
+
+/**
+ * Parses a yes/no flag such as "true", "false", "yes" or "no"
+ */
+export function parseBoolean(value: string): boolean {
+  const normalized = value.trim().toLowerCase();
+  if (["true", "yes", "1"].includes(normalized)) return true;
+  if (["false", "no", "0"].includes(normalized)) return false;
+  throw new Error(`Invalid flag "${value}", expected true or false`);
+}
+
+/**
+ * Parses a comma-separated list, dropping empty entries
+ */
+export function parseList(value: string): string[] {
+  return value.split(",").map((entry) => entry.trim()).filter((entry) => entry.length > 0);
+}
+
+/**
+ * Parses a fee split such as "0xabc…:8%,0xdef…:2%" into recipients and basis points
+ */
+export function parseFeeSplit(value: string): { recipient: string, rate: bigint }[] {
+  return parseList(value).map((entry) => {
+    const [recipient, rate] = entry.split(":");
+    if (rate === undefined) {
+      throw new Error(`Invalid fee split entry "${entry}", expected <address>:<rate>`);
+    }
+    return { recipient: parseAddress(recipient), rate: parseBasisPoints(rate) };
+  });
+}
+
+/**
+ * Formats basis points as a percentage, e.g. 250n => "2.5%"
+ */
+export function formatBasisPoints(value: bigint | number): string {
+  return `${Number(value) / 100}%`;
+}
+
+/**
+ * Formats a decay curve and its parameter, e.g. "exponential (half-life 600s)" or "cliff at 25%"
+ */
+export function formatDecayCurve(curve: bigint | number, parameter: bigint | number): string {
+  switch (Number(curve)) {
+    case DecayCurve.Linear: return "linear";
+    case DecayCurve.Exponential: return `exponential (half-life ${parameter}s)`;
+    case DecayCurve.Step: return `step every ${formatBasisPoints(parameter)}`;
+    case DecayCurve.Cliff: return `cliff at ${formatBasisPoints(parameter)}`;
+    default: throw new Error(`Unknown decay curve ${curve}`);
+  }
+}
+
+/**
+ * Formats a consensus mode, e.g. "weighted median" or "trimmed mean (10% from each end)"
+ */
+export function formatConsensusMode(mode: bigint | number, trimRate: bigint | number): string {
+  switch (Number(mode)) {
+    case ConsensusMode.WeightedMean: return "weighted mean";
+    case ConsensusMode.WeightedMedian: return "weighted median";
+    case ConsensusMode.TrimmedMean: return `trimmed mean (${formatBasisPoints(trimRate)} from each end)`;
+    default: throw new Error(`Unknown consensus mode ${mode}`);
+  }
+}
+
+/**
+ * Formats a market type, e.g. "numeric" or "categorical (5 options)"
+ */
+export function formatMarketType(marketType: bigint | number, upperBound: bigint): string {
+  switch (Number(marketType)) {
+    case MarketType.Numeric: return "numeric";
+    case MarketType.Categorical: return `categorical (${upperBound + 1n} options)`;
+    case MarketType.Bundle: return `bundle (${upperBound + 1n} questions)`;
+    default: throw new Error(`Unknown market type ${marketType}`);
+  }
+}
+
+/**
+ * Formats a position, bound or consensus of a market, the inverse of parseMarketPosition
+ */
+export function formatMarketPosition(position: bigint, marketType: bigint | number): string {
+  return Number(marketType) == MarketType.Numeric ? formatPosition(position) : position.toString();
+}
+
+/**
+ * Formats a winning threshold, the inverse of parseThreshold
+ */
+export function formatThreshold(threshold: bigint, marketType: bigint | number): string {
+  return formatUnits(threshold, getThresholdDecimals(marketType));
+}
+
+/**
+ * Formats a payout curve, e.g. "linear falloff" or "tiered (2x within 50% of the threshold)"
+ */
+export function formatPayoutCurve(curve: bigint | number, parameter: bigint | number): string {
+  switch (Number(curve)) {
+    case PayoutCurve.Binary: return "binary";
+    case PayoutCurve.LinearFalloff: return "linear falloff";
+    case PayoutCurve.Tiered: return `tiered (2x within ${formatBasisPoints(parameter)} of the threshold)`;
+    case PayoutCurve.InverseDistance: return "inverse distance";
+    default: throw new Error(`Unknown payout curve ${curve}`);
+  }
+}
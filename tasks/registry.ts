@@ -0,0 +1,53 @@
+import fs from "fs";
+import path from "path";
+
+// Deployed contract addresses are kept per network in deployments/<network>.json
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+export type Deployment = {
+  address: string,
+  chainId: string,
+  blockNumber?: number,
+  transactionHash?: string,
+  deployedAt: string // ISO timestamp
+};
+
+type Registry = Record<string, Deployment>;
+
+function registryPath(network: string): string {
+  return path.join(DEPLOYMENTS_DIR, `${network}.json`);
+}
+
+function readRegistry(network: string): Registry {
+  const file = registryPath(network);
+  if (!fs.existsSync(file)) return {};
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+/**
+ * Returns the recorded deployment of a contract on a network, if any
+ */
+export function getDeployment(network: string, contract: string): Deployment | undefined {
+  return readRegistry(network)[contract];
+}
+
+/**
+ * Returns the recorded address of a contract on a network, or throws if it was never deployed there
+ */
+export function getDeploymentAddress(network: string, contract: string): string {
+  const deployment = getDeployment(network, contract);
+  if (!deployment) {
+    throw new Error(`No ${contract} deployment recorded for network "${network}" in ${registryPath(network)}`);
+  }
+  return deployment.address;
+}
+
+/**
+ * Records the deployment of a contract on a network, replacing any earlier one
+ */
+export function saveDeployment(network: string, contract: string, deployment: Deployment): void {
+  const registry = readRegistry(network);
+  registry[contract] = deployment;
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  fs.writeFileSync(registryPath(network), JSON.stringify(registry, null, 2) + "\n");
+}
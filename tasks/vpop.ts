@@ -0,0 +1,457 @@
+import fs from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { VPOP } from "../typechain-types";
+import {
+  formatBasisPoints,
+  formatConsensusMode,
+  formatDecayCurve,
+  formatMarketPosition,
+  formatMarketType,
+  formatPayoutCurve,
+  formatThreshold,
+  parseAddress,
+  parseBasisPoints,
+  parseBoolean,
+  parseConsensusMode,
+  parseDecayCurve,
+  parseDuration,
+  parseFeeSplit,
+  parseList,
+  parseMarketPosition,
+  parseMarketRange,
+  parsePayoutCurve,
+  parseScaled,
+  parseStartTime,
+  parseThreshold
+} from "./args";
+import { getDeployment, getDeploymentAddress } from "./registry";
+
+// Operational tasks for running markets from the command line, e.g.
+//   npx hardhat vpop:create-market --network curtis --lower 0 --upper 100 --decimals 2 --ipfs ipfs://...
+// The VPOP address comes from deployments/<network>.json unless --address is given.
+// The SDK is loaded inside each action because it needs the generated typechain factories.
+
+async function getVPOP(hre: HardhatRuntimeEnvironment, address?: string): Promise<VPOP> {
+  const vpopAddress = address ? parseAddress(address) : getDeploymentAddress(hre.network.name, "VPOP");
+  const [signer] = await hre.ethers.getSigners();
+  return (await hre.ethers.getContractAt("VPOP", vpopAddress, signer)) as unknown as VPOP;
+}
+
+async function getClient(hre: HardhatRuntimeEnvironment, args: { address?: string, secrets?: string }) {
+  const { JsonFileSecretStore, VPOPClient } = await import("../sdk");
+  const vpop = await getVPOP(hre, args.address);
+  const [signer] = await hre.ethers.getSigners();
+  const secretsPath = args.secrets || path.join(hre.config.paths.root, ".vpop", `secrets-${hre.network.name}.json`);
+  fs.mkdirSync(path.dirname(secretsPath), { recursive: true });
+  return new VPOPClient(vpop, signer, { secretStore: new JsonFileSecretStore(secretsPath) });
+}
+
+// The keeper holds other users' secrets, so its store is always encrypted
+async function getKeeperStore(hre: HardhatRuntimeEnvironment, file?: string) {
+  const { EncryptedFileSecretStore } = await import("../sdk");
+  const passphrase = process.env.VPOP_KEEPER_PASSPHRASE;
+  if (!passphrase) {
+    throw new Error("Set VPOP_KEEPER_PASSPHRASE to encrypt the keeper's secrets");
+  }
+  const keeperPath = file || path.join(hre.config.paths.root, ".vpop", `keeper-${hre.network.name}.json`);
+  fs.mkdirSync(path.dirname(keeperPath), { recursive: true });
+  return new EncryptedFileSecretStore(keeperPath, passphrase);
+}
+
+// Decimals wagers are entered in: 18 for ETH, the token's own decimals otherwise
+async function getTokenDecimals(hre: HardhatRuntimeEnvironment, token: string): Promise<bigint> {
+  if (token == hre.ethers.ZeroAddress) return 18n;
+  const metadata = await hre.ethers.getContractAt("IERC20Metadata", token);
+  return metadata.decimals();
+}
+
+task("vpop:create-market", "Creates a market")
+  .addOptionalParam("lower", "Lower bound of the position range, e.g. 0 or 1.5")
+  .addOptionalParam("upper", "Upper bound of the position range, e.g. 100")
+  .addOptionalParam("options", "Number of options of a categorical market instead of a range, positions are option indexes from 0")
+  .addParam("ipfs", "IPFS hash with the market metadata")
+  .addOptionalParam("decimals", "Decimal places the consensus settles on, positions are entered with at most as many", 0, types.int)
+  .addOptionalParam("token", "ERC20 token for wagers, ETH when omitted")
+  .addOptionalParam("minWager", "Minimum wager in token units, e.g. 0.1", "0")
+  .addOptionalParam("decay", "Weight lost by the end of the commit phase, e.g. 20%", "0%")
+  .addOptionalParam("curve", "Shape of the decay: linear, exponential, step or cliff", "linear")
+  .addOptionalParam("decayParam", "Half-life for exponential, e.g. 10m; step or cliff as a share of the commit phase, e.g. 25%")
+  .addOptionalParam("start", "When commits open: a delay such as 2d, a unix timestamp or an ISO date, immediately when omitted")
+  .addOptionalParam("commit", "Commit phase duration, e.g. 1h or 2d", "1h")
+  .addOptionalParam("reveal", "Reveal phase duration, at least 30m", "1h")
+  .addOptionalParam("percentile", "Share of revealed positions that win, e.g. 50%", "50%")
+  .addOptionalParam("consensus", "How the consensus is estimated: mean, median or trimmed", "mean")
+  .addOptionalParam("trim", "Share of the weight the trimmed mean drops from each end, e.g. 10%")
+  .addOptionalParam("payout", "How winners split the winnings: binary, linear, tiered or inverse", "binary")
+  .addOptionalParam("payoutParam", "Inner band of the tiered curve as a share of the winning threshold, e.g. 50%")
+  .addOptionalParam("creatorFee", "Creator fee rate, e.g. 2%", "0%")
+  .addOptionalParam("creatorFeeRecipient", "Address receiving creator fees, the sender when omitted")
+  .addOptionalParam("address", "VPOP address, overrides the deployment registry")
+  .setAction(async (args, hre) => {
+    const client = await getClient(hre, args);
+    const token = parseAddress(args.token, hre.ethers.ZeroAddress);
+    const now = BigInt((await hre.ethers.provider.getBlock("latest"))!.timestamp);
+
+    const { tx, marketId } = await client.createMarket({
+      token,
+      ...parseMarketRange(args.lower, args.upper, args.options, args.decimals),
+      decimals: args.decimals,
+      minWager: parseScaled(args.minWager, await getTokenDecimals(hre, token)),
+      decayFactor: parseBasisPoints(args.decay),
+      ...parseDecayCurve(args.curve, args.decayParam),
+      commitStart: args.start ? parseStartTime(args.start, now) : 0n,
+      commitDuration: parseDuration(args.commit),
+      revealDuration: parseDuration(args.reveal),
+      winningPercentile: parseBasisPoints(args.percentile),
+      ...parseConsensusMode(args.consensus, args.trim),
+      ...parsePayoutCurve(args.payout, args.payoutParam),
+      creatorFeeRate: parseBasisPoints(args.creatorFee),
+      creatorFeeRecipient: parseAddress(args.creatorFeeRecipient, hre.ethers.ZeroAddress),
+      ipfsHash: args.ipfs
+    });
+    console.log(`Created market ${marketId} in ${tx.hash}`);
+    return marketId;
+  });
+
+task("vpop:update-metadata", "Replaces the metadata of a scheduled market (creator only)")
+  .addParam("market", "Market ID", undefined, types.string)
+  .addParam("ipfs", "IPFS hash with the new market metadata")
+  .addOptionalParam("address", "VPOP address, overrides the deployment registry")
+  .setAction(async (args, hre) => {
+    const client = await getClient(hre, args);
+    const tx = await client.updateMetadata(BigInt(args.market), args.ipfs);
+    console.log(`Updated the metadata of market ${args.market} in ${tx.hash}`);
+  });
+
+task("vpop:commit", "Commits a position and stores its secret for the reveal")
+  .addParam("market", "Market ID", undefined, types.string)
+  .addParam("position", "Position in market units, e.g. 42.5, or the option index of a categorical market")
+  .addParam("wager", "Wager in token units, e.g. 0.5")
+  .addOptionalParam("salt", "32-byte salt, random when omitted")
+  .addOptionalParam("proof", "Comma-separated Merkle proof for whitelisted markets", "")
+  .addOptionalParam("secrets", "Secret store file, .vpop/secrets-<network>.json by default")
+  .addOptionalParam("address", "VPOP address, overrides the deployment registry")
+  .addFlag("permit", "Approve the ERC20 wager with an EIP-2612 permit")
+  .setAction(async (args, hre) => {
+    const client = await getClient(hre, args);
+    const marketId = BigInt(args.market);
+    const market = await client.getMarket(marketId);
+
+    const params = {
+      marketId,
+      position: parseMarketPosition(args.position, market.marketType, market.decimals),
+      wager: parseScaled(args.wager, await getTokenDecimals(hre, market.token)),
+      salt: args.salt,
+      proof: parseList(args.proof)
+    };
+    const { tx, commitmentId } = args.permit ? await client.commitWithPermit(params) : await client.commit(params);
+    console.log(`Created commitment ${commitmentId} in market ${marketId} in ${tx.hash}`);
+    return commitmentId;
+  });
+
+task("vpop:reveal", "Reveals stored commitments")
+  .addParam("market", "Market ID", undefined, types.string)
+  .addOptionalParam("commitment", "Commitment ID, every stored commitment of the sender when omitted", undefined, types.string)
+  .addOptionalParam("secrets", "Secret store file, .vpop/secrets-<network>.json by default")
+  .addOptionalParam("address", "VPOP address, overrides the deployment registry")
+  .setAction(async (args, hre) => {
+    const client = await getClient(hre, args);
+    const marketId = BigInt(args.market);
+
+    if (args.commitment !== undefined) {
+      const tx = await client.reveal(marketId, BigInt(args.commitment));
+      console.log(`Revealed commitment ${args.commitment} in market ${marketId} in ${tx.hash}`);
+      return;
+    }
+    const tx = await client.revealAll(marketId);
+    console.log(tx ? `Revealed stored commitments in market ${marketId} in ${tx.hash}` : "Nothing to reveal");
+  });
+
+task("vpop:resolve", "Resolves a market, computing the winning threshold off-chain")
+  .addParam("market", "Market ID", undefined, types.string)
+  .addOptionalParam("threshold", "Winning threshold: a distance in market units, option ranks or question ranges of a bundle, computed when omitted")
+  .addOptionalParam("batch", "Commitments counted per transaction, resolves in one transaction when omitted", undefined, types.int)
+  .addOptionalParam("address", "VPOP address, overrides the deployment registry")
+  .setAction(async (args, hre) => {
+    const { ConsensusMode, computeConsensusProposal, computeWinningThreshold } = await import("../sdk");
+    const client = await getClient(hre, args);
+    const marketId = BigInt(args.market);
+    const market = await client.getMarket(marketId);
+    const threshold = args.threshold !== undefined
+      ? parseThreshold(args.threshold, market.marketType)
+      : await computeWinningThreshold(client.vpop, marketId);
+
+    if (args.batch === undefined) {
+      const tx = await client.resolve(marketId, threshold);
+      console.log(`Resolved market ${marketId} with threshold ${threshold} in ${tx.hash}`);
+      return;
+    }
+
+    // WeightedMedian and TrimmedMean markets need their consensus settled first, in batches as well
+    if (Number(market.consensusMode) != ConsensusMode.WeightedMean && !(await client.vpop.consensusSettled(marketId))) {
+      const { lower, upper } = await computeConsensusProposal(client.vpop, marketId);
+      const consensusModule = await hre.ethers.getContractAt("VPOPConsensus", await client.vpop.consensusModule(), client.signer);
+      while (!(await client.vpop.consensusSettled(marketId))) {
+        const tx = await consensusModule.settle(marketId, lower, upper, args.batch);
+        await tx.wait();
+        console.log(`Counted commitments for the consensus in ${tx.hash}`);
+      }
+    }
+
+    // resolveBatch keeps its progress on-chain, so an interrupted run can simply be restarted
+    while (true) {
+      const tx = await client.vpop.resolveBatch(marketId, threshold, args.batch);
+      await tx.wait();
+      if ((await client.vpop.marketConsensus(marketId)).resolved) {
+        console.log(`Resolved market ${marketId} with threshold ${threshold} in ${tx.hash}`);
+        return;
+      }
+      const progress = await client.vpop.resolutionProgress(marketId, threshold);
+      console.log(`Counted ${progress.processedCommitments} commitments in ${tx.hash}`);
+    }
+  });
+
+task("vpop:claim", "Claims the winnings of a commitment for its owner")
+  .addParam("market", "Market ID", undefined, types.string)
+  .addParam("commitment", "Commitment ID", undefined, types.string)
+  .addOptionalParam("address", "VPOP address, overrides the deployment registry")
+  .setAction(async (args, hre) => {
+    const client = await getClient(hre, args);
+    const tx = await client.claim(BigInt(args.market), BigInt(args.commitment));
+    console.log(`Claimed commitment ${args.commitment} in market ${args.market} in ${tx.hash}`);
+  });
+
+task("vpop:market-info", "Prints a market, its phase and its consensus")
+  .addParam("market", "Market ID", undefined, types.string)
+  .addOptionalParam("address", "VPOP address, overrides the deployment registry")
+  .setAction(async (args, hre) => {
+    const { formatUnits } = hre.ethers;
+    const client = await getClient(hre, args);
+    const marketId = BigInt(args.market);
+    const market = await client.getMarket(marketId);
+    const consensus = await client.vpop.marketConsensus(marketId);
+    const tokenDecimals = await getTokenDecimals(hre, market.token);
+    const [commitStart, commitEnd, revealEnd] = await client.vpop.getPhaseTimestamps(marketId);
+    const formatTime = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toISOString();
+
+    const info = {
+      marketId: marketId.toString(),
+      phase: await client.getPhase(marketId),
+      creator: market.creator,
+      token: market.token == hre.ethers.ZeroAddress ? "ETH" : market.token,
+      type: formatMarketType(market.marketType, market.upperBound),
+      range: `${formatMarketPosition(market.lowerBound, market.marketType)} - ${formatMarketPosition(market.upperBound, market.marketType)}`,
+      minWager: formatUnits(market.minWager, tokenDecimals),
+      decay: formatBasisPoints(market.decayFactor),
+      decayCurve: formatDecayCurve(market.decayCurve, market.decayParameter),
+      commitStarts: formatTime(commitStart),
+      commitEnds: formatTime(commitEnd),
+      revealEnds: formatTime(revealEnd),
+      winningPercentile: formatBasisPoints(market.winningPercentile),
+      consensusMode: formatConsensusMode(market.consensusMode, market.trimRate),
+      payout: formatPayoutCurve(market.payoutCurve, market.payoutParameter),
+      creatorFee: formatBasisPoints(market.creatorFeeRate),
+      creatorFeeRecipient: market.creatorFeeRecipient,
+      feeSplitId: market.feeSplitId.toString(),
+      ipfsHash: market.ipfsHash,
+      commitments: `${consensus.revealedCommitments} of ${consensus.totalCommitments} revealed`,
+      totalWagers: formatUnits(consensus.totalWagers, tokenDecimals),
+      totalWinnings: formatUnits(consensus.totalWinnings, tokenDecimals),
+      consensusPosition: formatMarketPosition(consensus.consensusPosition, market.marketType),
+      winningThreshold: formatThreshold(consensus.winningThreshold, market.marketType),
+      winningCommitments: consensus.winningCommitments.toString()
+    };
+    console.table(info);
+    return info;
+  });
+
+task("vpop:set-whitelist", "Restricts a market to a list of addresses (owner only)")
+  .addParam("market", "Market ID", undefined, types.string)
+  .addParam("addresses", "Comma-separated addresses, or @file with one address per line")
+  .addOptionalParam("out", "File to write each address's Merkle proof to, as JSON")
+  .addOptionalParam("address", "VPOP address, overrides the deployment registry")
+  .setAction(async (args, hre) => {
+    const { MerkleTree } = await import("merkletreejs");
+    const { keccak256, solidityPacked } = hre.ethers;
+    const vpop = await getVPOP(hre, args.address);
+
+    const list = args.addresses.startsWith("@")
+      ? fs.readFileSync(args.addresses.slice(1), "utf8").split(/\s+/).join(",")
+      : args.addresses;
+    const addresses = parseList(list).map((address) => parseAddress(address));
+    // Leaves match the contract: keccak256(abi.encodePacked(account))
+    const leaves = addresses.map((address) => keccak256(solidityPacked(["address"], [address])));
+    const tree = new MerkleTree(leaves, keccak256, { sortPairs: true });
+    const root = tree.getHexRoot();
+
+    const tx = await vpop.updateWhitelistRoot(BigInt(args.market), root);
+    console.log(`Set whitelist root ${root} for market ${args.market} in ${tx.hash}`);
+
+    if (args.out) {
+      const proofs = Object.fromEntries(addresses.map((address, i) => [address, tree.getHexProof(leaves[i])]));
+      fs.writeFileSync(args.out, JSON.stringify(proofs, null, 2) + "\n");
+      console.log(`Wrote ${addresses.length} proofs to ${args.out}`);
+    }
+    return root;
+  });
+
+task("vpop:settings", "Shows, queues, executes or cancels platform settings (owner only)")
+  .addOptionalPositionalParam("action", "show, queue, execute or cancel", "show")
+  .addOptionalParam("feeSplit", "Fee split to queue, e.g. 0xabc...:8%,0xdef...:2%")
+  .addOptionalParam("maxCreatorFee", "Highest creator fee rate to queue, e.g. 2%")
+  .addOptionalParam("createFee", "Market creation fee to queue, in ETH", "0")
+  .addOptionalParam("publicMarkets", "Whether anyone can create markets, true or false", "true")
+  .addOptionalParam("address", "VPOP address, overrides the deployment registry")
+  .setAction(async (args, hre) => {
+    const vpop = await getVPOP(hre, args.address);
+
+    switch (args.action) {
+      case "show": {
+        const feeSplit = await vpop.getFeeSplit(await vpop.getCurrentFeeSplitId());
+        console.log("Fee split:");
+        for (const { recipient, rate } of feeSplit) {
+          console.log(`  ${recipient} ${formatBasisPoints(rate)}`);
+        }
+        console.log("Max creator fee:", formatBasisPoints(await vpop.maxCreatorFeeRate()));
+        console.log("Market create fee:", hre.ethers.formatEther(await vpop.marketCreateFee()), "ETH");
+        const executableAt = await vpop.pendingSettingsExecutableAt();
+        console.log("Queued settings:", executableAt == 0n ? "none" : `executable at ${new Date(Number(executableAt) * 1000).toISOString()}`);
+        return;
+      }
+      case "queue": {
+        if (!args.feeSplit || !args.maxCreatorFee) {
+          throw new Error("Queueing settings needs --fee-split and --max-creator-fee");
+        }
+        const tx = await vpop.queuePlatformSettings(
+          parseFeeSplit(args.feeSplit),
+          parseBasisPoints(args.maxCreatorFee),
+          hre.ethers.parseEther(args.createFee),
+          parseBoolean(args.publicMarkets)
+        );
+        const executableAt = await vpop.pendingSettingsExecutableAt();
+        console.log(`Queued settings in ${tx.hash}, executable at ${new Date(Number(executableAt) * 1000).toISOString()}`);
+        return;
+      }
+      case "execute": {
+        const tx = await vpop.executePlatformSettings();
+        console.log(`Executed queued settings in ${tx.hash}`);
+        return;
+      }
+      case "cancel": {
+        const tx = await vpop.cancelPlatformSettings();
+        console.log(`Cancelled queued settings in ${tx.hash}`);
+        return;
+      }
+      default:
+        throw new Error(`Unknown action "${args.action}", expected show, queue, execute or cancel`);
+    }
+  });
+
+task("vpop:keeper-add", "Hands stored commitment secrets to the reveal keeper")
+  .addOptionalParam("market", "Only hand over secrets for this market", undefined, types.string)
+  .addOptionalParam("secrets", "Secret store file to read, .vpop/secrets-<network>.json by default")
+  .addOptionalParam("keeperSecrets", "Keeper's encrypted store, .vpop/keeper-<network>.json by default")
+  .addOptionalParam("address", "VPOP address, overrides the deployment registry")
+  .setAction(async (args, hre) => {
+    const client = await getClient(hre, args);
+    const store = await getKeeperStore(hre, args.keeperSecrets);
+    const domain = await client.getDomain();
+
+    const secrets = await client.secrets.list({
+      chainId: domain.chainId,
+      contract: domain.verifyingContract,
+      marketId: args.market !== undefined ? BigInt(args.market) : undefined
+    });
+    for (const secret of secrets) {
+      await store.save(secret);
+    }
+    console.log(`Handed ${secrets.length} secrets to the keeper`);
+    return secrets.length;
+  });
+
+task("vpop:keeper", "Reveals the keeper's commitments as soon as each reveal window opens")
+  .addOptionalParam("interval", "Time between passes, e.g. 15s or 1m", "15s")
+  .addOptionalParam("maxGasPrice", "Defer reveals while the gas price is above this, in gwei")
+  .addOptionalParam("retries", "Attempts per reveal transaction", 3, types.int)
+  .addOptionalParam("keeperSecrets", "Keeper's encrypted store, .vpop/keeper-<network>.json by default")
+  .addOptionalParam("address", "VPOP address, overrides the deployment registry")
+  .addFlag("once", "Make a single pass and exit, e.g. when run from cron")
+  .setAction(async (args, hre) => {
+    const { RevealKeeper } = await import("../sdk");
+    const vpop = await getVPOP(hre, args.address);
+    const [signer] = await hre.ethers.getSigners();
+    const keeper = new RevealKeeper(vpop, signer, {
+      secretStore: await getKeeperStore(hre, args.keeperSecrets),
+      pollInterval: Number(parseDuration(args.interval)) * 1000,
+      maxGasPrice: args.maxGasPrice !== undefined ? parseScaled(args.maxGasPrice, 9) : undefined,
+      maxRetries: args.retries,
+      log: (message) => console.log(`[${new Date().toISOString()}] ${message}`)
+    });
+
+    if (args.once) {
+      return keeper.tick();
+    }
+    console.log(`Keeper running as ${signer.address}, press Ctrl+C to stop`);
+    keeper.start();
+    await new Promise<void>((resolve) => process.once("SIGINT", resolve));
+    await keeper.stop();
+  });
+
+task("vpop:resolver", "Resolves every market as soon as it can be resolved")
+  .addOptionalParam("interval", "Time between passes, e.g. 30s or 5m", "1m")
+  .addOptionalParam("batch", "Markets with more commitments than this resolve over several transactions", undefined, types.int)
+  .addOptionalParam("from", "First market ID to watch", "1")
+  .addOptionalParam("address", "VPOP address, overrides the deployment registry")
+  .addFlag("once", "Make a single pass and exit, e.g. when run from cron")
+  .setAction(async (args, hre) => {
+    const { MarketResolver } = await import("../sdk");
+    const vpop = await getVPOP(hre, args.address);
+    const [signer] = await hre.ethers.getSigners();
+    const resolver = new MarketResolver(vpop, signer, {
+      pollInterval: Number(parseDuration(args.interval)) * 1000,
+      batchSize: args.batch,
+      fromMarketId: BigInt(args.from),
+      log: (message) => console.log(`[${new Date().toISOString()}] ${message}`)
+    });
+
+    if (args.once) {
+      return resolver.tick();
+    }
+    console.log(`Resolver running as ${signer.address}, press Ctrl+C to stop`);
+    resolver.start();
+    await new Promise<void>((resolve) => process.once("SIGINT", resolve));
+    await resolver.stop();
+  });
+
+task("vpop:indexer", "Indexes VPOP events into SQLite and serves them over HTTP")
+  .addOptionalParam("db", "Database file, .vpop/indexer-<network>.sqlite by default")
+  .addOptionalParam("port", "HTTP port", 8080, types.int)
+  .addOptionalParam("fromBlock", "First block to index, the recorded deployment block by default", undefined, types.int)
+  .addOptionalParam("confirmations", "Blocks to stay behind the head", 0, types.int)
+  .addOptionalParam("interval", "Time between syncs, e.g. 5s", "5s")
+  .addOptionalParam("address", "VPOP address, overrides the deployment registry")
+  .setAction(async (args, hre) => {
+    const { IndexerStore, VPOPIndexer, createIndexerServer } = await import("../indexer");
+    const vpop = await getVPOP(hre, args.address);
+    const dbPath = args.db || path.join(hre.config.paths.root, ".vpop", `indexer-${hre.network.name}.sqlite`);
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+    const store = await IndexerStore.open(dbPath);
+    const indexer = new VPOPIndexer(vpop, hre.ethers.provider, store, {
+      fromBlock: args.fromBlock ?? getDeployment(hre.network.name, "VPOP")?.blockNumber ?? 0,
+      confirmations: args.confirmations,
+      pollInterval: Number(parseDuration(args.interval)) * 1000,
+      log: (message) => console.log(`[${new Date().toISOString()}] ${message}`)
+    });
+    const server = createIndexerServer(store);
+    await new Promise<void>((resolve) => server.listen(args.port, resolve));
+    console.log(`Indexer serving http://localhost:${args.port}, press Ctrl+C to stop`);
+
+    indexer.start();
+    await new Promise<void>((resolve) => process.once("SIGINT", resolve));
+    await indexer.stop();
+    await new Promise((resolve) => server.close(resolve));
+    store.close();
+  });
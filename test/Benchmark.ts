@@ -0,0 +1,32 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { VPOP } from "../typechain-types";
+import { GAS_CEILING, benchmarkBundle, benchmarkNumeric } from "../scripts/benchmark-resolve";
+
+// scripts/benchmark-resolve.ts at a reduced size: one full batch of each scenario at the batch
+// sizes the full benchmark uses, so a resolveBatch call outgrowing GAS_CEILING fails the suite
+describe("Resolve benchmark", function () {
+  this.timeout(120_000);
+
+  let vpop: VPOP;
+  let deployer: HardhatEthersSigner;
+
+  before(async function () {
+    [deployer] = await ethers.getSigners();
+    const VPOP = await ethers.getContractFactory("VPOP");
+    vpop = await VPOP.deploy([{ recipient: deployer.address, rate: 1000 }]) as unknown as VPOP;
+  });
+
+  it("Should resolve a batch of 500 numeric commitments under the gas ceiling", async function () {
+    const { batches, maxGasUsed } = await benchmarkNumeric(vpop, deployer, 500, 500);
+    expect(batches).to.equal(1);
+    expect(maxGasUsed).to.be.lte(GAS_CEILING);
+  });
+
+  it("Should resolve a batch of 100 bundles of 32 questions under the gas ceiling", async function () {
+    const { batches, maxGasUsed } = await benchmarkBundle(vpop, deployer, 100, 32, 100);
+    expect(batches).to.equal(1);
+    expect(maxGasUsed).to.be.lte(GAS_CEILING);
+  });
+});
@@ -0,0 +1,293 @@
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import "@nomicfoundation/hardhat-chai-matchers";
+import { ethers, network } from "hardhat";
+import { promises as fs } from "fs";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { VPOP } from "../typechain-types";
+import { IndexerStore, VPOPIndexer, createIndexerServer, getBundleQuestions, getClaimable, getConsensusHistory, listMarkets } from "../indexer";
+import { ConsensusMode, MarketPhase, MarketType, MemorySecretStore, VPOPClient } from "../sdk";
+
+describe("Indexer", function () {
+  let vpop: VPOP;
+  let owner: any;
+  let alice: any;
+  let bob: any;
+  let deployBlock: number;
+  let dir: string;
+
+  const marketParams = {
+    lowerBound: 0n,
+    upperBound: 1000n,
+    minWager: ethers.parseEther("0.1"),
+    commitDuration: 3600,
+    revealDuration: 3600,
+    winningPercentile: 5000,
+    creatorFeeRate: 100,
+    ipfsHash: "ipfs://indexer"
+  };
+
+  before(async function () {
+    [owner, alice, bob] = await ethers.getSigners();
+    const VPOP = await ethers.getContractFactory("VPOP");
+    vpop = await VPOP.deploy([{ recipient: owner.address, rate: 800 }]) as unknown as VPOP;
+    deployBlock = (await vpop.deploymentTransaction()!.wait())!.blockNumber;
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "vpop-indexer-"));
+  });
+
+  after(async function () {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("Should index a market's lifecycle and serve it over HTTP", async function () {
+    const store = await IndexerStore.open();
+    const indexer = new VPOPIndexer(vpop, ethers.provider, store, { fromBlock: deployBlock, blockRange: 5 });
+    const secrets = new MemorySecretStore();
+    const creator = new VPOPClient(vpop, owner);
+    const aliceClient = new VPOPClient(vpop, alice, { secretStore: secrets });
+    const bobClient = new VPOPClient(vpop, bob, { secretStore: secrets });
+
+    // One market resolves, the other is cancelled because nobody reveals
+    const { marketId } = await creator.createMarket(marketParams);
+    const { marketId: cancelledId } = await creator.createMarket(marketParams);
+    await aliceClient.commit({ marketId, position: 200n, wager: ethers.parseEther("1") });
+    await bobClient.commit({ marketId, position: 900n, wager: ethers.parseEther("3") });
+    await aliceClient.commit({ marketId, position: 500n, wager: ethers.parseEther("2") });
+    await bobClient.commit({ marketId: cancelledId, position: 10n, wager: ethers.parseEther("1") });
+
+    await indexer.sync();
+    expect(listMarkets(store, MarketPhase.Commit).map((market) => market.marketId)).to.deep.equal([Number(marketId), Number(cancelledId)]);
+
+    await time.increase(3601);
+    await aliceClient.reveal(marketId, 1);
+    await bobClient.reveal(marketId, 2);
+    await aliceClient.reveal(marketId, 3);
+    await creator.resolve(marketId);
+    // Sponsored after resolution, which claims pay out on top of what resolve recorded
+    const sponsorship = ethers.parseEther("0.5");
+    await vpop.addWinnings(marketId, sponsorship, { value: sponsorship });
+    await time.increase(3600);
+    await vpop.cancelMarket(cancelledId);
+
+    const report = await indexer.sync();
+    expect(report.events).to.be.greaterThan(0);
+
+    // The consensus after the last reveal is the one the market resolved with
+    const history = getConsensusHistory(store, Number(marketId));
+    expect(history.map((point) => point.commitmentId)).to.deep.equal([1, 2, 3]);
+    expect(history[0].consensusPosition).to.equal("200");
+    expect(history[2].consensusPosition).to.equal((await vpop.marketConsensus(marketId)).consensusPosition.toString());
+
+    const server = createIndexerServer(store);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const base = `http://localhost:${(server.address() as AddressInfo).port}`;
+    const get = async (route: string) => {
+      const response = await fetch(base + route);
+      return { status: response.status, body: await response.json() };
+    };
+
+    try {
+      expect((await get("/status")).body.lastBlock).to.equal(await ethers.provider.getBlockNumber());
+      expect((await get("/markets?phase=resolved")).body.map((market: any) => market.marketId)).to.deep.equal([Number(marketId)]);
+      expect((await get("/markets?phase=cancelled")).body.map((market: any) => market.marketId)).to.deep.equal([Number(cancelledId)]);
+
+      const market = (await get(`/markets/${marketId}`)).body;
+      expect(market.totalCommitments).to.equal(3);
+      expect(market.revealedCommitments).to.equal(3);
+      expect(market.totalWagers).to.equal(ethers.parseEther("6").toString());
+      expect(market.winningThreshold).to.equal((await vpop.marketConsensus(marketId)).winningThreshold.toString());
+      expect((await get(`/markets/${marketId}/consensus`)).body).to.have.length(3);
+
+      // Claimable amounts match what claim and claimRefund pay out
+      const claimable = (await get(`/users/${alice.address}/claimable`)).body;
+      expect(claimable.commitments.length).to.be.greaterThan(0);
+      for (const { commitmentId, claimable: amount } of claimable.commitments) {
+        await expect(aliceClient.claim(marketId, commitmentId)).to.changeEtherBalance(alice, BigInt(amount));
+      }
+      const bobRefund = (await get(`/users/${bob.address}/claimable`)).body.commitments
+        .find((commitment: any) => commitment.marketId == Number(cancelledId));
+      await expect(vpop.connect(bob).claimRefund(cancelledId, 1)).to.changeEtherBalance(bob, BigInt(bobRefund.claimable));
+
+      await indexer.sync();
+      const aliceCommitments = (await get(`/users/${alice.address}/commitments`)).body;
+      expect(aliceCommitments.filter((commitment: any) => commitment.winning).every((commitment: any) => commitment.claimed)).to.be.true;
+      expect((await get(`/users/${alice.address}/claimable`)).body.commitments).to.be.empty;
+
+      expect((await get("/markets?phase=bogus")).status).to.equal(400);
+      expect((await get("/markets/999")).status).to.equal(404);
+      expect((await get("/users/nobody/commitments")).status).to.equal(400);
+      expect((await get("/unknown")).status).to.equal(404);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+      store.close();
+    }
+  });
+
+  it("Should index scheduled markets and their metadata updates", async function () {
+    const store = await IndexerStore.open();
+    const indexer = new VPOPIndexer(vpop, ethers.provider, store, { fromBlock: deployBlock });
+    const creator = new VPOPClient(vpop, owner);
+    const commitStart = BigInt(await time.latest()) + 3600n;
+    const { marketId } = await creator.createMarket({ ...marketParams, commitStart, ipfsHash: "ipfs://draft" });
+    await creator.updateMetadata(marketId, "ipfs://final");
+
+    await indexer.sync();
+    const [market] = listMarkets(store, MarketPhase.Scheduled);
+    expect(market.marketId).to.equal(Number(marketId));
+    expect(market.commitStart).to.equal(Number(commitStart));
+    expect(market.commitEnd).to.equal(Number(commitStart) + 3600);
+    expect(market.ipfsHash).to.equal("ipfs://final");
+
+    await time.increaseTo(commitStart);
+    await indexer.sync();
+    expect(listMarkets(store, MarketPhase.Scheduled)).to.be.empty;
+    store.close();
+  });
+
+  it("Should track the live consensus of a weighted median market", async function () {
+    const store = await IndexerStore.open();
+    const indexer = new VPOPIndexer(vpop, ethers.provider, store, { fromBlock: deployBlock });
+    const secrets = new MemorySecretStore();
+    const creator = new VPOPClient(vpop, owner);
+    const aliceClient = new VPOPClient(vpop, alice, { secretStore: secrets });
+    const bobClient = new VPOPClient(vpop, bob, { secretStore: secrets });
+
+    const { marketId } = await creator.createMarket({ ...marketParams, consensusMode: ConsensusMode.WeightedMedian });
+    await aliceClient.commit({ marketId, position: 200n, wager: ethers.parseEther("1") });
+    await aliceClient.commit({ marketId, position: 300n, wager: ethers.parseEther("1") });
+    await bobClient.commit({ marketId, position: 1000n, wager: ethers.parseEther("1.5") });
+    await time.increase(3601);
+    await aliceClient.revealAll(marketId);
+    await bobClient.revealAll(marketId);
+    await creator.resolve(marketId);
+
+    await indexer.sync();
+    const market = listMarkets(store).find((market) => market.marketId == Number(marketId))!;
+    expect(market.consensusMode).to.equal(ConsensusMode.WeightedMedian);
+    // The whale only moves the median from 200 to 300, where the market settled
+    expect(getConsensusHistory(store, Number(marketId)).map((point) => point.consensusPosition)).to.deep.equal(["200", "200", "300"]);
+    expect(market.consensusPosition).to.equal("300");
+    store.close();
+  });
+
+  it("Should track the plurality option of a categorical market and what its winners can claim", async function () {
+    const store = await IndexerStore.open();
+    const indexer = new VPOPIndexer(vpop, ethers.provider, store, { fromBlock: deployBlock });
+    const secrets = new MemorySecretStore();
+    const creator = new VPOPClient(vpop, owner);
+    const aliceClient = new VPOPClient(vpop, alice, { secretStore: secrets });
+    const bobClient = new VPOPClient(vpop, bob, { secretStore: secrets });
+
+    const { marketId } = await creator.createMarket({
+      ...marketParams,
+      upperBound: 3n,
+      winningPercentile: 1,
+      marketType: MarketType.Categorical
+    });
+    await aliceClient.commit({ marketId, position: 1n, wager: ethers.parseEther("1") });
+    await bobClient.commit({ marketId, position: 3n, wager: ethers.parseEther("2") });
+    await time.increase(3601);
+    await aliceClient.revealAll(marketId);
+    await bobClient.revealAll(marketId);
+    await creator.resolve(marketId);
+
+    await indexer.sync();
+    const market = listMarkets(store).find((market) => market.marketId == Number(marketId))!;
+    expect(market.marketType).to.equal(MarketType.Categorical);
+    // Bob's heavier wager moves the plurality from option 1 to option 3
+    expect(getConsensusHistory(store, Number(marketId)).map((point) => point.consensusPosition)).to.deep.equal(["1", "3"]);
+    expect(market.consensusPosition).to.equal("3");
+
+    const [winnings] = getClaimable(store, bob.address).commitments.filter((commitment) => commitment.marketId == Number(marketId));
+    expect(winnings.winning).to.be.true;
+    expect(getClaimable(store, alice.address).commitments.some((commitment) => commitment.marketId == Number(marketId))).to.be.false;
+    await expect(vpop.connect(bob).claim(marketId, winnings.commitmentId)).to.changeEtherBalance(bob, BigInt(winnings.claimable));
+    store.close();
+  });
+
+  it("Should track the questions of a bundle market and what its winners can claim", async function () {
+    const store = await IndexerStore.open();
+    const indexer = new VPOPIndexer(vpop, ethers.provider, store, { fromBlock: deployBlock });
+    const secrets = new MemorySecretStore();
+    const creator = new VPOPClient(vpop, owner);
+    const aliceClient = new VPOPClient(vpop, alice, { secretStore: secrets });
+    const bobClient = new VPOPClient(vpop, bob, { secretStore: secrets });
+
+    const { marketId } = await creator.createBundleMarket({
+      ...marketParams,
+      winningPercentile: 1,
+      questions: [{ lowerBound: 0n, upperBound: 100n }, { lowerBound: 50n, upperBound: 60n }]
+    });
+    await aliceClient.commit({ marketId, positions: [10n, 60n], wager: ethers.parseEther("1") });
+    await bobClient.commit({ marketId, positions: [30n, 52n], wager: ethers.parseEther("3") });
+
+    await indexer.sync();
+    expect(listMarkets(store).find((market) => market.marketId == Number(marketId))!.marketType).to.equal(MarketType.Bundle);
+    expect(getBundleQuestions(store, Number(marketId))).to.deep.equal([
+      { question: 0, lowerBound: "0", upperBound: "100", consensusPosition: "0" },
+      { question: 1, lowerBound: "50", upperBound: "60", consensusPosition: "0" }
+    ]);
+
+    await time.increase(3601);
+    await aliceClient.revealAll(marketId);
+    await bobClient.revealAll(marketId);
+    await creator.resolve(marketId);
+
+    await indexer.sync();
+    // Weighted by wager: (10 + 3 * 30) / 4 and (60 + 3 * 52) / 4
+    expect(getBundleQuestions(store, Number(marketId)).map((question) => question.consensusPosition)).to.deep.equal(["25", "54"]);
+
+    const [winnings] = getClaimable(store, bob.address).commitments.filter((commitment) => commitment.marketId == Number(marketId));
+    expect(winnings.positions).to.deep.equal(["30", "52"]);
+    expect(winnings.winning).to.be.true;
+    expect(getClaimable(store, alice.address).commitments.some((commitment) => commitment.marketId == Number(marketId))).to.be.false;
+    await expect(vpop.connect(bob).claim(marketId, winnings.commitmentId)).to.changeEtherBalance(bob, BigInt(winnings.claimable));
+    store.close();
+  });
+
+  it("Should resume from its checkpoint", async function () {
+    const file = path.join(dir, "resume.sqlite");
+    const first = await IndexerStore.open(file);
+    await new VPOPIndexer(vpop, ethers.provider, first, { fromBlock: deployBlock }).sync();
+    const marketCount = listMarkets(first).length;
+    first.close();
+
+    const { marketId } = await new VPOPClient(vpop, owner).createMarket(marketParams);
+    const lastBlock = await ethers.provider.getBlockNumber();
+
+    const second = await IndexerStore.open(file);
+    const report = await new VPOPIndexer(vpop, ethers.provider, second, { fromBlock: deployBlock }).sync();
+    expect(report.fromBlock).to.equal(lastBlock);
+    expect(report.events).to.equal(1);
+    expect(listMarkets(second)).to.have.length(marketCount + 1);
+    expect(listMarkets(second).pop()!.marketId).to.equal(Number(marketId));
+    second.close();
+  });
+
+  it("Should roll back blocks that were reorganized away", async function () {
+    const store = await IndexerStore.open();
+    const indexer = new VPOPIndexer(vpop, ethers.provider, store, { fromBlock: deployBlock });
+    await indexer.sync();
+    const marketCount = listMarkets(store).length;
+
+    const snapshot = await network.provider.send("evm_snapshot");
+    const { marketId } = await new VPOPClient(vpop, owner).createMarket({ ...marketParams, ipfsHash: "ipfs://orphaned" });
+    await indexer.sync();
+    expect(listMarkets(store).pop()!.ipfsHash).to.equal("ipfs://orphaned");
+
+    // Replace the block with a different one at the same height, plus one more
+    await network.provider.send("evm_revert", [snapshot]);
+    await new VPOPClient(vpop, owner).createMarket({ ...marketParams, ipfsHash: "ipfs://canonical" });
+    await network.provider.send("evm_mine");
+
+    const report = await indexer.sync();
+    expect(report.rolledBackTo).to.be.lessThan(report.fromBlock);
+    const markets = listMarkets(store);
+    expect(markets).to.have.length(marketCount + 1);
+    expect(markets[markets.length - 1].marketId).to.equal(Number(marketId));
+    expect(markets[markets.length - 1].ipfsHash).to.equal("ipfs://canonical");
+    store.close();
+  });
+});
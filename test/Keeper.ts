@@ -0,0 +1,167 @@
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import "@nomicfoundation/hardhat-chai-matchers";
+import { ethers } from "hardhat";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { VPOP } from "../typechain-types";
+import {
+  EncryptedFileSecretStore,
+  MemorySecretStore,
+  RevealKeeper,
+  VPOPClient
+} from "../sdk";
+
+describe("Reveal Keeper", function () {
+  let vpop: VPOP;
+  let owner: any;
+  let alice: any;
+  let bob: any;
+  let keeperAccount: any;
+  let dir: string;
+
+  const marketParams = {
+    lowerBound: 0n,
+    upperBound: 1000n,
+    minWager: ethers.parseEther("0.1"),
+    commitDuration: 3600,
+    revealDuration: 3600,
+    winningPercentile: 5000,
+    ipfsHash: "ipfs://keeper"
+  };
+  const wager = ethers.parseEther("1");
+
+  // Creates a market with one commitment each from Alice and Bob, handing both secrets to the store
+  async function marketWithCommitments(store: MemorySecretStore | EncryptedFileSecretStore) {
+    const { marketId } = await new VPOPClient(vpop, owner).createMarket(marketParams);
+    await new VPOPClient(vpop, alice, { secretStore: store }).commit({ marketId, position: 300n, wager });
+    await new VPOPClient(vpop, bob, { secretStore: store }).commit({ marketId, position: 700n, wager });
+    return marketId;
+  }
+
+  before(async function () {
+    [owner, alice, bob, keeperAccount] = await ethers.getSigners();
+    const VPOP = await ethers.getContractFactory("VPOP");
+    vpop = await VPOP.deploy([{ recipient: owner.address, rate: 800 }]) as unknown as VPOP;
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "vpop-keeper-"));
+  });
+
+  after(async function () {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe("Encrypted secret store", function () {
+    it("Should keep secrets encrypted at rest", async function () {
+      const file = path.join(dir, "encrypted.json");
+      const store = new EncryptedFileSecretStore(file, "correct horse");
+      const marketId = await marketWithCommitments(store);
+
+      const [secret] = await store.list({ marketId, owner: alice.address });
+      expect(secret.position).to.equal(300n);
+      const raw = await fs.readFile(file, "utf8");
+      expect(raw).to.not.include(secret.salt.slice(2));
+      expect(raw).to.not.include(alice.address);
+
+      // A new instance with the same passphrase reads the same secrets
+      expect(await new EncryptedFileSecretStore(file, "correct horse").load(secret)).to.deep.equal(secret);
+      await expect(new EncryptedFileSecretStore(file, "wrong").list()).to.be.rejectedWith("wrong passphrase or corrupted file");
+
+      const tampered = JSON.parse(raw);
+      tampered.data = Buffer.from("{}").toString("base64");
+      await fs.writeFile(file, JSON.stringify(tampered));
+      await expect(new EncryptedFileSecretStore(file, "correct horse").list()).to.be.rejectedWith("wrong passphrase or corrupted file");
+      expect(() => new EncryptedFileSecretStore(file, "")).to.throw("needs a passphrase");
+    });
+  });
+
+  it("Should reveal for other users once the reveal window opens", async function () {
+    const store = new MemorySecretStore();
+    const marketId = await marketWithCommitments(store);
+    const keeper = new RevealKeeper(vpop, keeperAccount, { secretStore: store });
+
+    // Nothing to do during the commit phase
+    expect((await keeper.tick()).revealed).to.be.empty;
+    expect(await store.list()).to.have.length(2);
+
+    await time.increase(3601);
+    const report = await keeper.tick();
+    expect(report.revealed.map((secret) => secret.owner)).to.have.members([alice.address, bob.address]);
+    expect((await vpop.commitments(marketId, 1)).revealed).to.be.true;
+    expect((await vpop.commitments(marketId, 2)).position).to.equal(700n);
+    expect(await store.list()).to.be.empty;
+  });
+
+  it("Should defer reveals while gas is above the limit", async function () {
+    const store = new MemorySecretStore();
+    const marketId = await marketWithCommitments(store);
+    await time.increase(3601);
+
+    const report = await new RevealKeeper(vpop, keeperAccount, { secretStore: store, maxGasPrice: 1n }).tick();
+    expect(report.deferred).to.have.length(2);
+    expect((await vpop.commitments(marketId, 1)).revealed).to.be.false;
+    expect(await store.list()).to.have.length(2);
+
+    const cheap = await new RevealKeeper(vpop, keeperAccount, { secretStore: store, maxGasPrice: ethers.parseUnits("1000", "gwei") }).tick();
+    expect(cheap.revealed).to.have.length(2);
+  });
+
+  it("Should retry failed transactions and keep their secrets", async function () {
+    const store = new MemorySecretStore();
+    const marketId = await marketWithCommitments(store);
+    await time.increase(3601);
+
+    // A keeper account without funds cannot pay for the reveal
+    const broke = ethers.Wallet.createRandom().connect(ethers.provider);
+    const messages: string[] = [];
+    const report = await new RevealKeeper(vpop, broke, {
+      secretStore: store,
+      maxRetries: 2,
+      retryDelay: 1,
+      log: (message) => messages.push(message)
+    }).tick();
+    expect(report.failed).to.have.length(2);
+    expect(messages.filter((message) => message.includes("attempt"))).to.have.length(2);
+    expect(await store.list({ marketId })).to.have.length(2);
+  });
+
+  it("Should drop secrets it can no longer use", async function () {
+    const store = new MemorySecretStore();
+    const marketId = await marketWithCommitments(store);
+    const [aliceSecret] = await store.list({ owner: alice.address });
+    await store.save({ ...aliceSecret, salt: ethers.hexlify(ethers.randomBytes(32)) });
+    await time.increase(3601);
+
+    const keeper = new RevealKeeper(vpop, keeperAccount, { secretStore: store });
+    // Bob revealed himself, so only Alice's mismatched secret is left to check
+    await new VPOPClient(vpop, bob, { secretStore: store }).reveal(marketId, 2);
+    const report = await keeper.tick();
+    expect(report.invalid).to.have.length(1);
+    expect(report.revealed).to.be.empty;
+    expect(await store.list()).to.be.empty;
+
+    const late = new MemorySecretStore();
+    const lateMarket = await marketWithCommitments(late);
+    await time.increase(7201);
+    const missed = await new RevealKeeper(vpop, keeperAccount, { secretStore: late }).tick();
+    expect(missed.missed).to.have.length(2);
+    expect((await vpop.commitments(lateMarket, 1)).revealed).to.be.false;
+    expect(await late.list()).to.be.empty;
+  });
+
+  it("Should reveal from its polling loop as time passes", async function () {
+    const store = new MemorySecretStore();
+    const marketId = await marketWithCommitments(store);
+    const keeper = new RevealKeeper(vpop, keeperAccount, { secretStore: store, pollInterval: 20 });
+    keeper.start();
+    try {
+      await time.increase(3601);
+      for (let i = 0; i < 100 && (await store.list()).length > 0; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+    } finally {
+      await keeper.stop();
+    }
+    expect((await vpop.marketConsensus(marketId)).revealedCommitments).to.equal(2n);
+  });
+});
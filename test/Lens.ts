@@ -0,0 +1,241 @@
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import "@nomicfoundation/hardhat-chai-matchers";
+import { ethers } from "hardhat";
+import { VPOP, VPOPLens } from "../typechain-types";
+import { DecayCurve, MarketPhase, MarketType, MemorySecretStore, PayoutCurve, VPOPClient, getCommitWeight, toMarketPhase, toOnchainPhase } from "../sdk";
+
+describe("VPOPLens", function () {
+  let vpop: VPOP;
+  let lens: VPOPLens;
+  let owner: any;
+  let alice: any;
+  let bob: any;
+
+  const marketParams = {
+    lowerBound: 0n,
+    upperBound: 1000n,
+    minWager: ethers.parseEther("0.1"),
+    commitDuration: 3600,
+    revealDuration: 3600,
+    winningPercentile: 5000,
+    ipfsHash: "ipfs://lens"
+  };
+  const noFilter = { byPhase: false, phase: 0n, byToken: false, token: ethers.ZeroAddress };
+
+  before(async function () {
+    [owner, alice, bob] = await ethers.getSigners();
+    const VPOP = await ethers.getContractFactory("VPOP");
+    vpop = await VPOP.deploy([{ recipient: owner.address, rate: 800 }]) as unknown as VPOP;
+    const VPOPLens = await ethers.getContractFactory("VPOPLens");
+    lens = await VPOPLens.deploy(await vpop.getAddress()) as unknown as VPOPLens;
+  });
+
+  it("Should index commitments by owner across markets and entry points", async function () {
+    const creator = new VPOPClient(vpop, owner);
+    const aliceClient = new VPOPClient(vpop, alice, { secretStore: new MemorySecretStore() });
+    const { marketId: first } = await creator.createMarket(marketParams);
+    const { marketId: second } = await creator.createMarket(marketParams);
+
+    const wager = ethers.parseEther("1");
+    await aliceClient.commit({ marketId: first, position: 100n, wager });
+    await new VPOPClient(vpop, bob).commit({ marketId: first, position: 900n, wager });
+    await aliceClient.commit({ marketId: second, position: 200n, wager });
+    const hashes = [ethers.id("a"), ethers.id("b")];
+    await vpop.connect(alice).commitMany(second, hashes, [wager, wager], [], false, { value: wager * 2n });
+
+    expect(await vpop.getUserCommitmentCount(alice.address)).to.equal(4n);
+    expect(await vpop.getUserCommitmentCount(bob.address)).to.equal(1n);
+    const refs = await vpop.getUserCommitmentRefs(alice.address, 1, 2);
+    expect(refs.map((ref) => [ref.marketId, ref.commitmentId])).to.deep.equal([[second, 1n], [second, 2n]]);
+    expect(await vpop.getUserCommitmentRefs(alice.address, 10, 5)).to.be.empty;
+
+    const [views, total] = await lens.getUserCommitments(alice.address, 0, 10);
+    expect(total).to.equal(4n);
+    expect(views.map((view) => [view.marketId, view.commitmentId])).to.deep.equal([[first, 1n], [second, 1n], [second, 2n], [second, 3n]]);
+    expect(views.every((view) => toMarketPhase(view.phase) == MarketPhase.Commit && !view.revealed && view.claimable == 0n)).to.be.true;
+    expect(views[0].token).to.equal(ethers.ZeroAddress);
+    expect(views[0].wager).to.equal(wager);
+  });
+
+  it("Should report claimable winnings and refunds", async function () {
+    const creator = new VPOPClient(vpop, owner);
+    const store = new MemorySecretStore();
+    const aliceClient = new VPOPClient(vpop, alice, { secretStore: store });
+    const bobClient = new VPOPClient(vpop, bob, { secretStore: store });
+    const { marketId } = await creator.createMarket({ ...marketParams, winningPercentile: 1 });
+    const { marketId: cancelled } = await creator.createMarket(marketParams);
+    const aliceCount = await vpop.getUserCommitmentCount(alice.address);
+
+    await aliceClient.commit({ marketId, position: 400n, wager: ethers.parseEther("3") });
+    await bobClient.commit({ marketId, position: 100n, wager: ethers.parseEther("1") });
+    await aliceClient.commit({ marketId: cancelled, position: 400n, wager: ethers.parseEther("1") });
+    await time.increase(3601);
+    expect(toMarketPhase((await lens.getCommitmentView(marketId, 1)).phase)).to.equal(MarketPhase.Reveal);
+    await aliceClient.revealAll(marketId);
+    await bobClient.revealAll(marketId);
+    await creator.resolve(marketId);
+    await time.increase(3600);
+    await vpop.cancelMarket(cancelled);
+
+    // Alice's position sits closest to the consensus, Bob's loses
+    const [views] = await lens.getUserCommitments(alice.address, aliceCount, 10);
+    expect(views.map((view) => toMarketPhase(view.phase))).to.deep.equal([MarketPhase.Resolved, MarketPhase.Cancelled]);
+    expect(views[0].revealed).to.be.true;
+    expect(views[0].position).to.equal(400n);
+    expect(views[0].claimable).to.be.greaterThan(0n);
+    expect((await lens.getCommitmentView(marketId, 2)).claimable).to.equal(0n);
+
+    await expect(vpop.connect(alice).claim(marketId, 1)).to.changeEtherBalance(alice, views[0].claimable);
+    await expect(vpop.connect(alice).claimRefund(cancelled, 1)).to.changeEtherBalance(alice, views[1].claimable);
+    const [claimed] = await lens.getUserCommitments(alice.address, aliceCount, 10);
+    expect(claimed.every((view) => view.claimed && view.claimable == 0n)).to.be.true;
+    expect(await lens.getClaimableAmount(marketId, 99)).to.equal(0n);
+  });
+
+  it("Should list markets page by page, filtered by phase or token", async function () {
+    const TestToken = await ethers.getContractFactory("TestToken");
+    const token = await TestToken.deploy();
+    const creator = new VPOPClient(vpop, owner);
+    const { marketId: tokenMarket } = await creator.createMarket({ ...marketParams, token: await token.getAddress() });
+    const marketCount = await vpop.getMarketCount();
+
+    const [all, end] = await lens.getMarkets(noFilter, 0, 100);
+    expect(end).to.equal(marketCount);
+    expect(all.map((view) => view.marketId)).to.deep.equal(Array.from({ length: Number(marketCount) }, (_, i) => BigInt(i + 1)));
+
+    // Pages scan a fixed number of IDs and return where to continue
+    const [page, next] = await lens.getMarkets(noFilter, 2, 2);
+    expect(page.map((view) => view.marketId)).to.deep.equal([3n, 4n]);
+    expect(next).to.equal(4n);
+
+    const [byToken] = await lens.getMarkets({ ...noFilter, byToken: true, token: await token.getAddress() }, 0, 100);
+    expect(byToken.map((view) => view.marketId)).to.deep.equal([tokenMarket]);
+    expect(byToken[0].market.token).to.equal(await token.getAddress());
+
+    const [open] = await lens.getMarkets({ ...noFilter, byPhase: true, phase: toOnchainPhase(MarketPhase.Commit) }, 0, 100);
+    expect(open.map((view) => view.marketId)).to.deep.equal([tokenMarket]);
+    const [resolved] = await lens.getMarkets({ ...noFilter, byPhase: true, phase: toOnchainPhase(MarketPhase.Resolved) }, 0, 100);
+    expect(resolved).to.have.length(1);
+    expect(resolved[0].revealedCommitments).to.equal(2n);
+    expect(resolved[0].totalWagers).to.equal(ethers.parseEther("4"));
+
+    const [beyond, beyondEnd] = await lens.getMarkets(noFilter, 100, 10);
+    expect(beyond).to.be.empty;
+    expect(beyondEnd).to.equal(marketCount);
+    await expect(lens.getMarketView(999)).to.be.revertedWith("Market does not exist");
+  });
+
+  it("Should report the claimable winnings of a categorical market by option rank", async function () {
+    const creator = new VPOPClient(vpop, owner);
+    const store = new MemorySecretStore();
+    const aliceClient = new VPOPClient(vpop, alice, { secretStore: store });
+    const bobClient = new VPOPClient(vpop, bob, { secretStore: store });
+    const { marketId } = await creator.createMarket({
+      ...marketParams,
+      upperBound: 2n,
+      winningPercentile: 1,
+      marketType: MarketType.Categorical
+    });
+
+    // Option 2 gathers the most weight, so it wins even though its distance to option 0 is the largest
+    await aliceClient.commit({ marketId, position: 2n, wager: ethers.parseEther("3") });
+    await bobClient.commit({ marketId, position: 0n, wager: ethers.parseEther("1") });
+    await time.increase(3601);
+    await aliceClient.revealAll(marketId);
+    await bobClient.revealAll(marketId);
+    await creator.resolve(marketId);
+
+    expect(await lens.getClaimableAmount(marketId, 2)).to.equal(0n);
+    const claimable = await lens.getClaimableAmount(marketId, 1);
+    expect(claimable).to.be.greaterThan(0n);
+    await expect(vpop.connect(alice).claim(marketId, 1)).to.changeEtherBalance(alice, claimable);
+  });
+
+  it("Should report the claimable winnings of a bundle market by bundle distance", async function () {
+    const creator = new VPOPClient(vpop, owner);
+    const store = new MemorySecretStore();
+    const aliceClient = new VPOPClient(vpop, alice, { secretStore: store });
+    const bobClient = new VPOPClient(vpop, bob, { secretStore: store });
+    const { marketId } = await creator.createBundleMarket({
+      ...marketParams,
+      winningPercentile: 1,
+      questions: [{ lowerBound: 0n, upperBound: 100n }, { lowerBound: 0n, upperBound: 10n }]
+    });
+
+    // Alice's heavier wager pulls both consensus positions closer to her answers
+    await aliceClient.commit({ marketId, positions: [40n, 2n], wager: ethers.parseEther("3") });
+    await bobClient.commit({ marketId, positions: [80n, 6n], wager: ethers.parseEther("1") });
+    await time.increase(3601);
+    await aliceClient.revealAll(marketId);
+    await bobClient.revealAll(marketId);
+    await creator.resolve(marketId);
+
+    expect(await lens.getClaimableAmount(marketId, 2)).to.equal(0n);
+    const claimable = await lens.getClaimableAmount(marketId, 1);
+    expect(claimable).to.be.greaterThan(0n);
+    await expect(vpop.connect(alice).claim(marketId, 1)).to.changeEtherBalance(alice, claimable);
+  });
+
+  it("Should preview the weight of a commit the same way commit and the SDK compute it", async function () {
+    const creator = new VPOPClient(vpop, owner);
+    const commitStart = BigInt(await time.latest()) + 100n;
+    const curves = [
+      { decayCurve: DecayCurve.Linear, decayFactor: 2500, decayParameter: 0 },
+      { decayCurve: DecayCurve.Exponential, decayFactor: 0, decayParameter: 700 },
+      { decayCurve: DecayCurve.Step, decayFactor: 9000, decayParameter: 1500 },
+      { decayCurve: DecayCurve.Cliff, decayFactor: 10000, decayParameter: 6000 }
+    ];
+    const wager = ethers.parseEther("0.37");
+    for (const curve of curves) {
+      const { marketId } = await creator.createMarket({ ...marketParams, ...curve, commitStart });
+      const market = await vpop.getMarket(marketId);
+      for (const offset of [0n, 1n, 539n, 700n, 1401n, 2160n, 2161n, 3599n, 3600n]) {
+        expect(await lens.previewWeight(marketId, wager, commitStart + offset)).to.equal(
+          getCommitWeight(market, wager, commitStart + offset),
+          `curve ${curve.decayCurve} at ${offset}s`
+        );
+      }
+      await expect(lens.previewWeight(marketId, wager, commitStart - 1n)).to.be.revertedWith("Timestamp outside the commit phase");
+      await expect(lens.previewWeight(marketId, wager, commitStart + 3601n)).to.be.revertedWith("Timestamp outside the commit phase");
+    }
+
+    // The preview holds once the commit lands at that time
+    const marketId = await vpop.getMarketCount();
+    const preview = await lens.previewWeight(marketId, wager, commitStart + 2160n);
+    await time.setNextBlockTimestamp(commitStart + 2160n);
+    await vpop.connect(alice).commit(marketId, ethers.ZeroHash, wager, [], { value: wager });
+    expect((await vpop.commitments(marketId, 1)).weight).to.equal(preview);
+    await expect(lens.previewWeight(999, wager, commitStart)).to.be.revertedWith("Market does not exist");
+  });
+
+  it("Should report the claimable share of a payout curve", async function () {
+    const creator = new VPOPClient(vpop, owner);
+    const store = new MemorySecretStore();
+    const aliceClient = new VPOPClient(vpop, alice, { secretStore: store });
+    const bobClient = new VPOPClient(vpop, bob, { secretStore: store });
+    const { marketId } = await creator.createMarket({
+      ...marketParams,
+      decayFactor: 0,
+      winningPercentile: 10000,
+      payoutCurve: PayoutCurve.LinearFalloff
+    });
+
+    // Consensus is 400, so Alice sits on it and Bob at the threshold
+    await aliceClient.commit({ marketId, position: 400n, wager: ethers.parseEther("2") });
+    await bobClient.commit({ marketId, position: 100n, wager: ethers.parseEther("0.5") });
+    await bobClient.commit({ marketId, position: 700n, wager: ethers.parseEther("0.5") });
+    await time.increase(3601);
+    await aliceClient.revealAll(marketId);
+    await bobClient.revealAll(marketId);
+    await creator.resolve(marketId);
+
+    const claimable = await Promise.all([1, 2, 3].map((commitmentId) => lens.getClaimableAmount(marketId, commitmentId)));
+    // Alice scores 301 per wei of her wager, Bob 1 per wei on each of his
+    expect(claimable[0]).to.be.closeTo(claimable[1] * 301n * 4n, 301n * 4n);
+    expect(claimable[1]).to.equal(claimable[2]);
+    await expect(vpop.connect(alice).claim(marketId, 1)).to.changeEtherBalance(alice, claimable[0]);
+    await expect(vpop.connect(bob).claim(marketId, 2)).to.changeEtherBalance(bob, claimable[1]);
+    await expect(vpop.connect(bob).claim(marketId, 3)).to.changeEtherBalance(bob, claimable[2]);
+  });
+});
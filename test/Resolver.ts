@@ -0,0 +1,231 @@
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import "@nomicfoundation/hardhat-chai-matchers";
+import { ethers } from "hardhat";
+import { VPOP, VPOPConsensus__factory } from "../typechain-types";
+import {
+  ConsensusMode,
+  MarketResolver,
+  MemorySecretStore,
+  VPOPClient,
+  computeConsensus,
+  computeWinningThreshold,
+  getRevealedWeights,
+  getTargetRank,
+  selectWinningThreshold
+} from "../sdk";
+
+// Small seeded generator so failing cases can be replayed from the seed in the test title
+function random(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  const pick = <T>(values: readonly T[]) => values[int(0, values.length - 1)];
+  return { next, int, pick };
+}
+
+describe("Resolver", function () {
+  let vpop: VPOP;
+  let owner: any;
+  let signers: any[];
+
+  const marketParams = {
+    lowerBound: 0n,
+    upperBound: 1000n,
+    minWager: ethers.parseEther("0.1"),
+    commitDuration: 3600,
+    revealDuration: 3600,
+    winningPercentile: 5000,
+    ipfsHash: "ipfs://resolver"
+  };
+
+  before(async function () {
+    [owner, ...signers] = await ethers.getSigners();
+    const VPOP = await ethers.getContractFactory("VPOP");
+    vpop = await VPOP.deploy([{ recipient: owner.address, rate: 800 }]) as unknown as VPOP;
+  });
+
+  it("Should mirror the contract's ceil-rank rule", function () {
+    expect(getTargetRank(8, 5000)).to.equal(4n);
+    expect(getTargetRank(3, 5000)).to.equal(2n);
+    expect(getTargetRank(7, 1)).to.equal(1n);
+    expect(getTargetRank(5, 0)).to.equal(1n);
+    expect(getTargetRank(0, 5000)).to.equal(0n);
+    // The example from resolve's documentation
+    expect(selectWinningThreshold([5n, 1n, 2n, 1n, 4n, 3n, 1n, 2n], 5000)).to.equal(2n);
+    expect(() => selectWinningThreshold([], 5000)).to.throw("No revealed distances");
+  });
+
+  it("Should resolve markets once they can be resolved", async function () {
+    const store = new MemorySecretStore();
+    const creator = new VPOPClient(vpop, owner);
+    const [alice, bob] = signers;
+    const aliceClient = new VPOPClient(vpop, alice, { secretStore: store });
+    const bobClient = new VPOPClient(vpop, bob, { secretStore: store });
+    const resolver = new MarketResolver(vpop, owner);
+
+    // Market A is fully revealed early, B only partly, C never, D is still open
+    const { marketId: a } = await creator.createMarket(marketParams);
+    const { marketId: b } = await creator.createMarket(marketParams);
+    const { marketId: c } = await creator.createMarket(marketParams);
+    for (const marketId of [a, b, c]) {
+      await aliceClient.commit({ marketId, position: 200n, wager: ethers.parseEther("1") });
+      await bobClient.commit({ marketId, position: 800n, wager: ethers.parseEther("2") });
+    }
+    await time.increase(3601);
+    const { marketId: d } = await creator.createMarket(marketParams);
+    await aliceClient.revealAll(a);
+    await bobClient.revealAll(a);
+    await aliceClient.revealAll(b);
+
+    let report = await resolver.tick();
+    expect(report.resolved.map((resolved) => resolved.marketId)).to.deep.equal([a]);
+    expect((await vpop.marketConsensus(a)).resolved).to.be.true;
+
+    await time.increase(3600);
+    report = await resolver.tick();
+    expect(report.resolved.map((resolved) => resolved.marketId)).to.deep.equal([b]);
+    expect(report.unresolvable).to.deep.equal([c]);
+    expect(report.failed).to.be.empty;
+    expect((await vpop.marketConsensus(d)).resolved).to.be.false;
+
+    // Settled markets are not reported again
+    report = await resolver.tick();
+    expect(report).to.deep.equal({ resolved: [], failed: [], unresolvable: [] });
+  });
+
+  it("Should report markets whose resolution is rejected", async function () {
+    const store = new MemorySecretStore();
+    const { marketId } = await new VPOPClient(vpop, owner).createMarket(marketParams);
+    const client = new VPOPClient(vpop, signers[0], { secretStore: store });
+    await client.commit({ marketId, position: 10n, wager: ethers.parseEther("1") });
+    await time.increase(3601);
+    await client.revealAll(marketId);
+
+    // A resolver without funds fails the transaction, not the simulation, and retries next pass
+    const broke = ethers.Wallet.createRandom().connect(ethers.provider);
+    const report = await new MarketResolver(vpop, broke, { fromMarketId: marketId }).tick();
+    expect(report.failed.map((failed) => failed.marketId)).to.deep.equal([marketId]);
+    expect((await new MarketResolver(vpop, owner, { fromMarketId: marketId }).tick()).resolved).to.have.length(1);
+  });
+
+  describe("Threshold properties", function () {
+    const seeds = Array.from({ length: 20 }, (_, i) => 1000 + i);
+
+    for (const seed of seeds) {
+      it(`Should compute a threshold resolve accepts (seed ${seed})`, async function () {
+        const rand = random(seed);
+        const store = new MemorySecretStore();
+        // Narrow ranges force ties between distances, wide ones spread them out
+        const upperBound = BigInt(rand.pick([1, 4, 20, 1000, 1_000_000]));
+        const winningPercentile = rand.pick([0, 1, 2500, 3333, 5000, 6667, 9999, 10000, rand.int(0, 10000)]);
+        const { marketId } = await new VPOPClient(vpop, owner).createMarket({
+          ...marketParams,
+          upperBound,
+          winningPercentile,
+          decayFactor: rand.pick([0, 2500, 9000])
+        });
+
+        const count = rand.int(1, 12);
+        const committed: { client: VPOPClient, commitmentId: bigint }[] = [];
+        for (let i = 0; i < count; i++) {
+          const client = new VPOPClient(vpop, rand.pick(signers.slice(0, 8)), { secretStore: store });
+          const position = BigInt(rand.int(0, Number(upperBound)));
+          const wager = ethers.parseEther("0.1") * BigInt(rand.int(1, 50));
+          const { commitmentId } = await client.commit({ marketId, position, wager });
+          committed.push({ client, commitmentId });
+          // Spread commitments over the commit phase so their weights decay differently
+          await time.increase(rand.int(1, 250));
+        }
+
+        await time.increaseTo((await vpop.getMarket(marketId)).createdAt + 3601n);
+        const revealed = committed.filter(() => rand.next() < 0.75);
+        if (revealed.length == 0) revealed.push(committed[0]);
+        for (const { client, commitmentId } of revealed) {
+          await client.reveal(marketId, commitmentId);
+        }
+        if (revealed.length < committed.length) {
+          await time.increase(3600);
+        }
+
+        const threshold = await computeWinningThreshold(vpop, marketId);
+        const consensusModule = VPOPConsensus__factory.connect(await vpop.consensusModule(), owner);
+        expect(threshold).to.equal(await consensusModule.getWinningThreshold(marketId));
+        expect(getTargetRank(revealed.length, winningPercentile)).to.equal(await vpop.getTargetRank(marketId));
+
+        // The threshold is the only one resolve accepts
+        await vpop.resolve.staticCall(marketId, threshold);
+        await expect(vpop.resolve.staticCall(marketId, threshold + 1n)).to.be.revertedWith("PWT too high or non-existent rank");
+        if (threshold > 0n) {
+          await expect(vpop.resolve.staticCall(marketId, threshold - 1n)).to.be.revertedWith("PWT too low or non-existent rank");
+        }
+
+        const resolver = new MarketResolver(vpop, owner, { fromMarketId: marketId, batchSize: rand.pick([1, 3, 1000]) });
+        const report = await resolver.tick();
+        expect(report.resolved).to.have.length(1);
+        expect(report.resolved[0].winningThreshold).to.equal(threshold);
+        expect((await vpop.marketConsensus(marketId)).winningThreshold).to.equal(threshold);
+      });
+    }
+  });
+
+  describe("Consensus properties", function () {
+    const seeds = Array.from({ length: 12 }, (_, i) => 2000 + i);
+
+    for (const seed of seeds) {
+      it(`Should settle the consensus the SDK computes (seed ${seed})`, async function () {
+        const rand = random(seed);
+        const store = new MemorySecretStore();
+        const consensusMode = rand.pick([ConsensusMode.WeightedMean, ConsensusMode.WeightedMedian, ConsensusMode.TrimmedMean]);
+        const trimRate = consensusMode == ConsensusMode.TrimmedMean ? rand.pick([0, 1000, 2500, 4999, rand.int(0, 4999)]) : 0;
+        // Narrow ranges stack weight on the same positions, wide ones spread it out
+        const upperBound = BigInt(rand.pick([4, 1000, 1_000_000]));
+        const { marketId } = await new VPOPClient(vpop, owner).createMarket({
+          ...marketParams,
+          upperBound,
+          consensusMode,
+          trimRate,
+          decayFactor: rand.pick([0, 9000])
+        });
+
+        const count = rand.int(1, 12);
+        const committed: { client: VPOPClient, commitmentId: bigint }[] = [];
+        for (let i = 0; i < count; i++) {
+          const client = new VPOPClient(vpop, rand.pick(signers.slice(0, 8)), { secretStore: store });
+          const position = BigInt(rand.int(0, Number(upperBound)));
+          const wager = ethers.parseEther("0.1") * BigInt(rand.int(1, 50));
+          const { commitmentId } = await client.commit({ marketId, position, wager });
+          committed.push({ client, commitmentId });
+          await time.increase(rand.int(1, 250));
+        }
+
+        await time.increaseTo((await vpop.getMarket(marketId)).createdAt + 3601n);
+        const revealed = committed.filter(() => rand.next() < 0.75);
+        if (revealed.length == 0) revealed.push(committed[0]);
+        for (const { client, commitmentId } of revealed) {
+          await client.reveal(marketId, commitmentId);
+        }
+        if (revealed.length < committed.length) {
+          await time.increase(3600);
+        }
+
+        const expected = computeConsensus(consensusMode, trimRate, await getRevealedWeights(vpop, marketId, 5), 1n);
+        const threshold = await computeWinningThreshold(vpop, marketId);
+
+        const resolver = new MarketResolver(vpop, owner, { fromMarketId: marketId, batchSize: rand.pick([1, 3, 1000]) });
+        const report = await resolver.tick();
+        expect(report.resolved).to.have.length(1);
+        const consensus = await vpop.marketConsensus(marketId);
+        expect(consensus.consensusPosition).to.equal(expected.consensusPosition);
+        expect(consensus.winningThreshold).to.equal(threshold);
+        expect(await vpop.consensusSettled(marketId)).to.equal(consensusMode != ConsensusMode.WeightedMean);
+      });
+    }
+  });
+});
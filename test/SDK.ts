@@ -0,0 +1,268 @@
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import "@nomicfoundation/hardhat-chai-matchers";
+import { ethers } from "hardhat";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { VPOP } from "../typechain-types";
+import {
+  JsonFileSecretStore,
+  MarketPhase,
+  MemorySecretStore,
+  VPOPClient,
+  VPOPError,
+  createCommitmentHash,
+  formatPosition,
+  getCommitmentHashDomain,
+  getMarketPhase,
+  getPhaseTimestamps,
+  getTickSize,
+  parsePosition,
+  randomSalt,
+  toMarketPhase
+} from "../sdk";
+
+// Asserts that an SDK call is refused with the given VPOPError code
+async function expectRefused(promise: Promise<unknown>, code: string) {
+  try {
+    await promise;
+  } catch (error: any) {
+    expect(error).to.be.instanceOf(VPOPError);
+    expect(error.code).to.equal(code);
+    return;
+  }
+  expect.fail(`Expected the SDK to refuse with ${code}`);
+}
+
+describe("SDK", function () {
+  let vpop: VPOP;
+  let owner: any;
+  let alice: any;
+  let bob: any;
+
+  const marketParams = {
+    lowerBound: 0n,
+    upperBound: 1000n,
+    minWager: ethers.parseEther("0.1"),
+    commitDuration: 3600,
+    revealDuration: 3600,
+    winningPercentile: 5000,
+    ipfsHash: "ipfs://sdk"
+  };
+
+  before(async function () {
+    [owner, alice, bob] = await ethers.getSigners();
+    const VPOP = await ethers.getContractFactory("VPOP");
+    vpop = await VPOP.deploy([{ recipient: owner.address, rate: 800 }]) as unknown as VPOP;
+  });
+
+  it("Should build the same commitment hash as the contract", async function () {
+    const domain = await getCommitmentHashDomain(vpop);
+    const salt = randomSalt();
+    expect(createCommitmentHash(domain, 7n, alice.address, 123n, 456n, salt))
+      .to.equal(await vpop.getCommitmentHash(7n, alice.address, 123n, 456n, salt));
+    expect(createCommitmentHash(domain, 7n, alice.address, -123n, 456n, salt))
+      .to.equal(await vpop.getCommitmentHash(7n, alice.address, -123n, 456n, salt));
+  });
+
+  it("Should convert human-readable values to contract units and back", async function () {
+    expect(parsePosition("-12.34", 2)).to.equal(-1234n * 10n ** 16n);
+    expect(parsePosition(7, 1)).to.equal(7n * 10n ** 18n);
+    expect(parsePosition("0.000000000000000001", 18)).to.equal(1n);
+    expect(getTickSize(2)).to.equal(10n ** 16n);
+    expect(formatPosition(-1234n * 10n ** 16n)).to.equal("-12.34");
+    expect(formatPosition(parsePosition("0.05", 2))).to.equal("0.05");
+    expect(() => parsePosition("1.234", 2)).to.throw("Invalid value");
+    expect(() => parsePosition((2n ** 127n).toString(), 18)).to.throw("outside the range of a position");
+
+    // A market around zero, entered and read back in its own decimals
+    const creator = new VPOPClient(vpop, owner);
+    const aliceClient = new VPOPClient(vpop, alice);
+    const bobClient = new VPOPClient(vpop, bob);
+    const { marketId } = await creator.createMarket({
+      ...marketParams,
+      lowerBound: parsePosition("-50", 2),
+      upperBound: parsePosition("50", 2),
+      decimals: 2
+    });
+    const wager = ethers.parseEther("1");
+    await aliceClient.commit({ marketId, position: parsePosition("-12.34", 2), wager });
+    await bobClient.commit({ marketId, position: parsePosition("3.21", 2), wager });
+    await time.increase(3601);
+    await aliceClient.revealAll(marketId);
+    await bobClient.revealAll(marketId);
+
+    // (-12.34 + 3.21) / 2 = -4.565 rounds away from zero to the nearest tick
+    const { consensusPosition } = await vpop.marketConsensus(marketId);
+    expect(formatPosition(consensusPosition)).to.equal("-4.57");
+    await time.increase(3601);
+    await creator.resolve(marketId);
+    const lens = await (await ethers.getContractFactory("VPOPLens")).deploy(await vpop.getAddress());
+    expect(await lens.isWinningPosition(marketId, parsePosition("-12.34", 2))).to.be.true;
+    expect(await lens.isWinningPosition(marketId, parsePosition("3.21", 2))).to.be.false;
+  });
+
+  it("Should run a market through every phase", async function () {
+    const creator = new VPOPClient(vpop, owner);
+    const aliceClient = new VPOPClient(vpop, alice);
+    const bobClient = new VPOPClient(vpop, bob);
+
+    const { marketId } = await creator.createMarket(marketParams);
+    expect(marketId).to.equal(await vpop.getMarketCount());
+    expect(await creator.getPhase(marketId)).to.equal(MarketPhase.Commit);
+
+    const wager = ethers.parseEther("1");
+    const aliceCommit = await aliceClient.commit({ marketId, position: 400n, wager });
+    const bobCommit = await bobClient.commit({ marketId, position: 900n, wager });
+    expect(aliceCommit.commitmentId).to.equal(1n);
+    expect(bobCommit.commitmentId).to.equal(2n);
+    expect((await vpop.commitments(marketId, 1)).commitmentHash).to.equal(aliceCommit.secret.commitmentHash);
+
+    // Revealing and claiming are refused until their phase
+    await expectRefused(aliceClient.reveal(marketId, 1), "WRONG_PHASE");
+    await expectRefused(aliceClient.claim(marketId, 1), "WRONG_PHASE");
+    await expectRefused(creator.resolve(marketId), "WRONG_PHASE");
+
+    await time.increase(3601);
+    expect(await aliceClient.getPhase(marketId)).to.equal(MarketPhase.Reveal);
+    await expectRefused(aliceClient.commit({ marketId, position: 500n, wager }), "WRONG_PHASE");
+    // Bob's secret lives in Bob's store only
+    await expectRefused(aliceClient.reveal(marketId, 2), "SECRET_NOT_FOUND");
+
+    await aliceClient.reveal(marketId, 1);
+    await expectRefused(aliceClient.reveal(marketId, 1), "ALREADY_REVEALED");
+    await bobClient.revealAll(marketId);
+    expect((await vpop.commitments(marketId, 2)).revealed).to.be.true;
+    expect(await bobClient.revealAll(marketId)).to.be.undefined;
+
+    // Every commitment is revealed, so the market can resolve before the reveal phase ends
+    await creator.resolve(marketId);
+    expect(await creator.getPhase(marketId)).to.equal(MarketPhase.Resolved);
+
+    // Consensus is 650, both are 250 away and the threshold is the median distance
+    const { totalWinnings } = await vpop.marketConsensus(marketId);
+    await expect(aliceClient.claim(marketId, 1)).to.changeEtherBalance(alice, totalWinnings / 2n);
+    await expectRefused(aliceClient.claim(marketId, 1), "ALREADY_CLAIMED");
+  });
+
+  it("Should derive the same phases as the contract at every boundary", async function () {
+    const commitStart = BigInt(await time.latest()) + 600n;
+    const { marketId } = await new VPOPClient(vpop, owner).createMarket({ ...marketParams, commitStart });
+    const market = await vpop.getMarket(marketId);
+    const timestamps = getPhaseTimestamps(market);
+    expect(Object.values(timestamps)).to.deep.equal([...await vpop.getPhaseTimestamps(marketId)]);
+
+    const phases: MarketPhase[] = [];
+    const boundaries = [commitStart - 1n, commitStart, timestamps.commitEnd, timestamps.commitEnd + 1n, timestamps.revealEnd, timestamps.revealEnd + 1n];
+    for (const timestamp of boundaries) {
+      await time.increaseTo(timestamp);
+      const phase = getMarketPhase(market, await vpop.marketConsensus(marketId), timestamp);
+      expect(phase).to.equal(toMarketPhase(await vpop.getMarketPhase(marketId)));
+      phases.push(phase);
+    }
+    expect(phases).to.deep.equal([
+      MarketPhase.Scheduled,
+      MarketPhase.Commit,
+      MarketPhase.Commit,
+      MarketPhase.Reveal,
+      MarketPhase.Reveal,
+      MarketPhase.AwaitingResolution
+    ]);
+  });
+
+  it("Should only let the creator update the metadata of a scheduled market", async function () {
+    const creator = new VPOPClient(vpop, owner);
+    const { marketId } = await creator.createMarket({ ...marketParams, commitStart: BigInt(await time.latest()) + 600n });
+    expect(await creator.getPhase(marketId)).to.equal(MarketPhase.Scheduled);
+    await expectRefused(new VPOPClient(vpop, alice).updateMetadata(marketId, "ipfs://other"), "NOT_CREATOR");
+    await expectRefused(new VPOPClient(vpop, alice).commit({ marketId, position: 1n, wager: ethers.parseEther("1") }), "WRONG_PHASE");
+    await creator.updateMetadata(marketId, "ipfs://updated");
+    expect((await vpop.getMarket(marketId)).ipfsHash).to.equal("ipfs://updated");
+
+    await time.increase(600);
+    await expectRefused(creator.updateMetadata(marketId, "ipfs://late"), "WRONG_PHASE");
+  });
+
+  it("Should refuse to claim a losing position", async function () {
+    const creator = new VPOPClient(vpop, owner);
+    const aliceClient = new VPOPClient(vpop, alice);
+    const { marketId } = await creator.createMarket({ ...marketParams, winningPercentile: 1 });
+
+    await aliceClient.commit({ marketId, position: 100n, wager: ethers.parseEther("1") });
+    await aliceClient.commit({ marketId, position: 900n, wager: ethers.parseEther("3") });
+    await time.increase(3601);
+    await aliceClient.revealAll(marketId);
+    await time.increase(3601);
+    expect(await creator.getPhase(marketId)).to.equal(MarketPhase.AwaitingResolution);
+    await creator.resolve(marketId);
+
+    await expectRefused(aliceClient.claim(marketId, 1), "NOT_WINNING");
+    await aliceClient.claim(marketId, 2);
+  });
+
+  it("Should approve ERC20 wagers or use a permit", async function () {
+    const TestTokenPermit = await ethers.getContractFactory("TestTokenPermit");
+    const token = await TestTokenPermit.deploy();
+    const wager = ethers.parseEther("1");
+    await token.mint(alice.address, wager * 2n);
+
+    const creator = new VPOPClient(vpop, owner);
+    const aliceClient = new VPOPClient(vpop, alice);
+    const { marketId } = await creator.createMarket({ ...marketParams, token: await token.getAddress() });
+
+    await aliceClient.commit({ marketId, position: 300n, wager });
+    const { commitmentId } = await aliceClient.commitWithPermit({ marketId, position: 600n, wager });
+    expect(commitmentId).to.equal(2n);
+    expect(await token.balanceOf(alice.address)).to.equal(0n);
+    expect(await token.balanceOf(await vpop.getAddress())).to.equal(wager * 2n);
+
+    const ethMarket = await creator.createMarket(marketParams);
+    await expectRefused(aliceClient.commitWithPermit({ marketId: ethMarket.marketId, position: 1n, wager }), "UNSUPPORTED");
+  });
+
+  it("Should keep secrets in a JSON file across clients", async function () {
+    const file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "vpop-sdk-")), "secrets.json");
+    try {
+      const creator = new VPOPClient(vpop, owner);
+      const { marketId } = await creator.createMarket(marketParams);
+
+      const committer = new VPOPClient(vpop, alice, { secretStore: new JsonFileSecretStore(file) });
+      const { secret } = await committer.commit({ marketId, position: 321n, wager: ethers.parseEther("0.5") });
+
+      // A fresh client on the same file, e.g. after a restart, can still reveal
+      const store = new JsonFileSecretStore(file);
+      expect(await store.load(secret)).to.deep.equal(secret);
+      expect(await store.list({ marketId, owner: alice.address })).to.deep.equal([secret]);
+      expect(await store.list({ marketId: marketId + 1n })).to.deep.equal([]);
+
+      await time.increase(3601);
+      await new VPOPClient(vpop, alice, { secretStore: store }).reveal(marketId, secret.commitmentId);
+      expect((await vpop.commitments(marketId, secret.commitmentId)).position).to.equal(321n);
+
+      await store.remove(secret);
+      expect(await store.load(secret)).to.be.undefined;
+    } finally {
+      await fs.rm(path.dirname(file), { recursive: true, force: true });
+    }
+  });
+
+  it("Should keep secrets in memory by default", async function () {
+    const store = new MemorySecretStore();
+    const secret = {
+      chainId: 31337n,
+      contract: await vpop.getAddress(),
+      marketId: 1n,
+      commitmentId: 1n,
+      owner: alice.address,
+      position: 5n,
+      wager: 10n,
+      salt: randomSalt(),
+      commitmentHash: ethers.ZeroHash
+    };
+    await store.save(secret);
+    // Lookups ignore the case of the contract address
+    expect(await store.load({ ...secret, contract: secret.contract.toLowerCase() })).to.deep.equal(secret);
+    await expectRefused(new VPOPClient(vpop, alice).getPhase(9999n), "MARKET_NOT_FOUND");
+  });
+});
@@ -0,0 +1,325 @@
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import "@nomicfoundation/hardhat-chai-matchers";
+import hre, { ethers } from "hardhat";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { VPOP } from "../typechain-types";
+import { ConsensusMode, DecayCurve, MarketType, PayoutCurve } from "../sdk";
+import {
+  formatBasisPoints,
+  formatConsensusMode,
+  formatDecayCurve,
+  formatMarketType,
+  formatPayoutCurve,
+  formatThreshold,
+  parseBasisPoints,
+  parseBoolean,
+  parseConsensusMode,
+  parseDecayCurve,
+  parseDuration,
+  parseFeeSplit,
+  parseList,
+  parseMarketRange,
+  parsePayoutCurve,
+  parseScaled,
+  parseStartTime,
+  parseThreshold
+} from "../tasks/args";
+
+describe("Tasks", function () {
+  let vpop: VPOP;
+  let address: string;
+  let owner: any;
+  let alice: any;
+  let dir: string;
+
+  before(async function () {
+    [owner, alice] = await ethers.getSigners();
+    const VPOP = await ethers.getContractFactory("VPOP");
+    vpop = await VPOP.deploy([{ recipient: owner.address, rate: 800 }]) as unknown as VPOP;
+    address = await vpop.getAddress();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "vpop-tasks-"));
+  });
+
+  after(async function () {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe("Argument parsing", function () {
+    it("Should parse durations", function () {
+      expect(parseDuration("90")).to.equal(90n);
+      expect(parseDuration("30m")).to.equal(1800n);
+      expect(parseDuration("2d")).to.equal(172800n);
+      expect(() => parseDuration("1.5h")).to.throw("Invalid duration");
+    });
+
+    it("Should parse start times", function () {
+      expect(parseStartTime("2d", 1000n)).to.equal(173800n);
+      expect(parseStartTime("1750000000", 1000n)).to.equal(1750000000n);
+      expect(parseStartTime("2025-06-01T12:00:00Z", 1000n)).to.equal(1748779200n);
+      expect(() => parseStartTime("next week", 1000n)).to.throw("Invalid start time");
+    });
+
+    it("Should parse rates into basis points", function () {
+      expect(parseBasisPoints("2.5%")).to.equal(250n);
+      expect(parseBasisPoints("50")).to.equal(5000n);
+      expect(parseBasisPoints("75bps")).to.equal(75n);
+      expect(() => parseBasisPoints("0.125%")).to.throw("Invalid rate");
+      expect(formatBasisPoints(250n)).to.equal("2.5%");
+    });
+
+    it("Should parse decay curves and their parameters", function () {
+      expect(parseDecayCurve("linear")).to.deep.equal({ decayCurve: DecayCurve.Linear, decayParameter: 0n });
+      expect(parseDecayCurve("Exponential", "10m")).to.deep.equal({ decayCurve: DecayCurve.Exponential, decayParameter: 600n });
+      expect(parseDecayCurve("cliff", "25%")).to.deep.equal({ decayCurve: DecayCurve.Cliff, decayParameter: 2500n });
+      expect(() => parseDecayCurve("step")).to.throw("needs a decay parameter");
+      expect(() => parseDecayCurve("sigmoid", "1h")).to.throw("Invalid decay curve");
+      expect(formatDecayCurve(DecayCurve.Step, 2500n)).to.equal("step every 25%");
+    });
+
+    it("Should parse consensus modes and trim rates", function () {
+      expect(parseConsensusMode("mean")).to.deep.equal({ consensusMode: ConsensusMode.WeightedMean, trimRate: 0n });
+      expect(parseConsensusMode("Median", "10%")).to.deep.equal({ consensusMode: ConsensusMode.WeightedMedian, trimRate: 0n });
+      expect(parseConsensusMode("trimmed", "12.5%")).to.deep.equal({ consensusMode: ConsensusMode.TrimmedMean, trimRate: 1250n });
+      expect(() => parseConsensusMode("trimmed")).to.throw("needs a trim rate");
+      expect(() => parseConsensusMode("mode")).to.throw("Invalid consensus mode");
+      expect(formatConsensusMode(ConsensusMode.TrimmedMean, 1000n)).to.equal("trimmed mean (10% from each end)");
+    });
+
+    it("Should parse payout curves and tiered bands", function () {
+      expect(parsePayoutCurve("binary")).to.deep.equal({ payoutCurve: PayoutCurve.Binary, payoutParameter: 0n });
+      expect(parsePayoutCurve("Linear", "50%")).to.deep.equal({ payoutCurve: PayoutCurve.LinearFalloff, payoutParameter: 0n });
+      expect(parsePayoutCurve("tiered", "25%")).to.deep.equal({ payoutCurve: PayoutCurve.Tiered, payoutParameter: 2500n });
+      expect(() => parsePayoutCurve("tiered")).to.throw("needs an inner band");
+      expect(() => parsePayoutCurve("quadratic")).to.throw("Invalid payout curve");
+      expect(formatPayoutCurve(PayoutCurve.Tiered, 5000n)).to.equal("tiered (2x within 50% of the threshold)");
+    });
+
+    it("Should parse numeric ranges and categorical option counts", function () {
+      expect(parseMarketRange("1.5", "100", undefined, 1)).to.deep.equal({ marketType: MarketType.Numeric, lowerBound: 15n * 10n ** 17n, upperBound: 100n * 10n ** 18n });
+      expect(parseMarketRange("-40.5", "-0.5", undefined, 1)).to.deep.equal({ marketType: MarketType.Numeric, lowerBound: -405n * 10n ** 17n, upperBound: -5n * 10n ** 17n });
+      expect(parseMarketRange(undefined, undefined, "4", 0)).to.deep.equal({ marketType: MarketType.Categorical, lowerBound: 0n, upperBound: 3n });
+      expect(() => parseMarketRange("0", undefined, undefined, 0)).to.throw("needs a lower and an upper bound");
+      expect(() => parseMarketRange(undefined, undefined, "1", 0)).to.throw("Invalid option count");
+      expect(() => parseMarketRange(undefined, undefined, "33", 0)).to.throw("Invalid option count");
+      expect(formatMarketType(MarketType.Categorical, 3n)).to.equal("categorical (4 options)");
+      expect(formatMarketType(MarketType.Bundle, 2n)).to.equal("bundle (3 questions)");
+    });
+
+    it("Should parse thresholds in the units of each market type", function () {
+      expect(parseThreshold("2.5", MarketType.Numeric)).to.equal(25n * 10n ** 17n);
+      expect(parseThreshold("2", MarketType.Categorical)).to.equal(2n);
+      expect(parseThreshold("0.25", MarketType.Bundle)).to.equal(2500n);
+      expect(() => parseThreshold("1.5", MarketType.Categorical)).to.throw("Invalid number");
+      expect(formatThreshold(25n * 10n ** 17n, MarketType.Numeric)).to.equal("2.5");
+      expect(formatThreshold(2n, MarketType.Categorical)).to.equal("2");
+      expect(formatThreshold(2500n, MarketType.Bundle)).to.equal("0.25");
+    });
+
+    it("Should parse scaled numbers, flags, lists and fee splits", function () {
+      expect(parseScaled("12.5", 2)).to.equal(1250n);
+      expect(() => parseScaled("1.234", 2)).to.throw("Invalid number");
+      expect(parseBoolean("no")).to.be.false;
+      expect(parseList(" a, ,b ")).to.deep.equal(["a", "b"]);
+      expect(parseFeeSplit(`${owner.address}:8%,${alice.address}:200bps`)).to.deep.equal([
+        { recipient: owner.address, rate: 800n },
+        { recipient: alice.address, rate: 200n }
+      ]);
+      expect(() => parseFeeSplit(owner.address)).to.throw("Invalid fee split entry");
+    });
+  });
+
+  it("Should run a market end-to-end", async function () {
+    const secrets = path.join(dir, "secrets.json");
+    const marketId = await hre.run("vpop:create-market", {
+      address,
+      lower: "0",
+      upper: "100",
+      decimals: 2,
+      minWager: "0.01",
+      commit: "1h",
+      reveal: "1h",
+      percentile: "50%",
+      creatorFee: "1%",
+      ipfs: "ipfs://tasks"
+    });
+    const market = await vpop.getMarket(marketId);
+    expect(market.upperBound).to.equal(ethers.parseEther("100"));
+    expect(market.minWager).to.equal(ethers.parseEther("0.01"));
+    expect(market.creatorFeeRate).to.equal(100n);
+
+    const first = await hre.run("vpop:commit", { address, secrets, market: marketId.toString(), position: "42.5", wager: "1" });
+    const second = await hre.run("vpop:commit", { address, secrets, market: marketId.toString(), position: "60", wager: "1" });
+    expect(first).to.equal(1n);
+    expect(second).to.equal(2n);
+
+    await time.increase(3601);
+    await hre.run("vpop:reveal", { address, secrets, market: marketId.toString(), commitment: "1" });
+    await hre.run("vpop:reveal", { address, secrets, market: marketId.toString() });
+    expect((await vpop.commitments(marketId, 1)).position).to.equal(ethers.parseEther("42.5"));
+    expect((await vpop.commitments(marketId, 2)).revealed).to.be.true;
+
+    await hre.run("vpop:resolve", { address, market: marketId.toString(), batch: 1 });
+    expect((await vpop.marketConsensus(marketId)).resolved).to.be.true;
+
+    const info = await hre.run("vpop:market-info", { address, market: marketId.toString() });
+    expect(info.phase).to.equal("resolved");
+    expect(info.range).to.equal("0.0 - 100.0");
+    expect(info.commitments).to.equal("2 of 2 revealed");
+
+    await hre.run("vpop:claim", { address, market: marketId.toString(), commitment: "1" });
+    expect((await vpop.commitments(marketId, 1)).claimed).to.be.true;
+  });
+
+  it("Should create a categorical market from an option count", async function () {
+    const marketId = await hre.run("vpop:create-market", { address, options: "3", ipfs: "ipfs://categorical" });
+    const market = await vpop.getMarket(marketId);
+    expect(market.marketType).to.equal(BigInt(MarketType.Categorical));
+    expect(market.upperBound).to.equal(2n);
+
+    const info = await hre.run("vpop:market-info", { address, market: marketId.toString() });
+    expect(info.type).to.equal("categorical (3 options)");
+    expect(info.range).to.equal("0 - 2");
+  });
+
+  it("Should resolve a categorical market with a threshold in option ranks", async function () {
+    const secrets = path.join(dir, "categorical-secrets.json");
+    const marketId = await hre.run("vpop:create-market", { address, options: "3", decimals: 2, ipfs: "ipfs://categorical-threshold" });
+    // Tied options rank by index, so options 0, 1 and 2 are 0, 1 and 2 ranks from the consensus
+    for (const position of ["0", "1", "2"]) {
+      await hre.run("vpop:commit", { address, secrets, market: marketId.toString(), position, wager: "1" });
+    }
+    await time.increase(3601);
+    await hre.run("vpop:reveal", { address, secrets, market: marketId.toString() });
+    expect((await vpop.commitments(marketId, 3)).position).to.equal(2n);
+
+    await time.increase(3601);
+    await expect(
+      hre.run("vpop:resolve", { address, market: marketId.toString(), threshold: "0.5" })
+    ).to.be.rejectedWith("Invalid number");
+    await hre.run("vpop:resolve", { address, market: marketId.toString(), threshold: "1" });
+    expect((await vpop.marketConsensus(marketId)).winningThreshold).to.equal(1n);
+
+    const info = await hre.run("vpop:market-info", { address, market: marketId.toString() });
+    expect(info.consensusPosition).to.equal("0");
+    expect(info.winningThreshold).to.equal("1");
+  });
+
+  it("Should settle the consensus of a median market before resolving it in batches", async function () {
+    const secrets = path.join(dir, "median-secrets.json");
+    const marketId = await hre.run("vpop:create-market", {
+      address,
+      lower: "0",
+      upper: "100",
+      decimals: 0,
+      consensus: "median",
+      payout: "tiered",
+      payoutParam: "50%",
+      ipfs: "ipfs://median"
+    });
+    for (const position of ["10", "20", "90"]) {
+      await hre.run("vpop:commit", { address, secrets, market: marketId.toString(), position, wager: "1" });
+    }
+    await time.increase(3601);
+    await hre.run("vpop:reveal", { address, secrets, market: marketId.toString() });
+
+    await hre.run("vpop:resolve", { address, market: marketId.toString(), batch: 2 });
+    expect(await vpop.consensusSettled(marketId)).to.be.true;
+    expect((await vpop.marketConsensus(marketId)).consensusPosition).to.equal(ethers.parseEther("20"));
+
+    const info = await hre.run("vpop:market-info", { address, market: marketId.toString() });
+    expect(info.consensusMode).to.equal("weighted median");
+    expect(info.payout).to.equal("tiered (2x within 50% of the threshold)");
+    expect(info.phase).to.equal("resolved");
+  });
+
+  it("Should schedule a market with a decay curve and edit its metadata before it opens", async function () {
+    const marketId = await hre.run("vpop:create-market", {
+      address,
+      lower: "0",
+      upper: "10",
+      start: "1d",
+      curve: "exponential",
+      decayParam: "10m",
+      ipfs: "ipfs://draft"
+    });
+    await hre.run("vpop:update-metadata", { address, market: marketId.toString(), ipfs: "ipfs://final" });
+
+    const info = await hre.run("vpop:market-info", { address, market: marketId.toString() });
+    expect(info.phase).to.equal("scheduled");
+    expect(info.ipfsHash).to.equal("ipfs://final");
+    expect(info.decayCurve).to.equal("exponential (half-life 600s)");
+    expect(Date.parse(info.commitStarts) / 1000).to.equal(Number((await vpop.getPhaseTimestamps(marketId)).commitStart));
+
+    await time.increase(86400);
+    await expect(
+      hre.run("vpop:update-metadata", { address, market: marketId.toString(), ipfs: "ipfs://late" })
+    ).to.be.rejectedWith("is in the commit phase, expected scheduled");
+  });
+
+  it("Should set a whitelist and write the proofs", async function () {
+    const marketId = await hre.run("vpop:create-market", { address, lower: "0", upper: "10", ipfs: "ipfs://whitelist" });
+    const list = path.join(dir, "whitelist.txt");
+    const out = path.join(dir, "proofs.json");
+    await fs.writeFile(list, `${owner.address}\n${alice.address}\n`);
+
+    const root = await hre.run("vpop:set-whitelist", { address, market: marketId.toString(), addresses: `@${list}`, out });
+    expect(await vpop.whitelistRoots(marketId)).to.equal(root);
+
+    const proofs = JSON.parse(await fs.readFile(out, "utf8"));
+    await hre.run("vpop:commit", {
+      address,
+      secrets: path.join(dir, "secrets.json"),
+      market: marketId.toString(),
+      position: "5",
+      wager: "0",
+      proof: proofs[owner.address].join(",")
+    });
+    expect((await vpop.marketConsensus(marketId)).totalCommitments).to.equal(1n);
+  });
+
+  it("Should queue, cancel and execute platform settings", async function () {
+    await hre.run("vpop:settings", { address, action: "queue", feeSplit: `${owner.address}:5%`, maxCreatorFee: "3%", createFee: "0", publicMarkets: "true" });
+    expect(await vpop.pendingSettingsExecutableAt()).to.be.greaterThan(0n);
+    await hre.run("vpop:settings", { address, action: "cancel" });
+    expect(await vpop.pendingSettingsExecutableAt()).to.equal(0n);
+
+    await hre.run("vpop:settings", { address, action: "queue", feeSplit: `${owner.address}:5%`, maxCreatorFee: "3%", createFee: "0", publicMarkets: "true" });
+    await time.increaseTo(await vpop.pendingSettingsExecutableAt());
+    await hre.run("vpop:settings", { address, action: "execute" });
+    expect(await vpop.maxCreatorFeeRate()).to.equal(300n);
+    expect((await vpop.getFeeSplit(await vpop.getCurrentFeeSplitId()))[0].rate).to.equal(500n);
+
+    await expect(hre.run("vpop:settings", { address, action: "queue" })).to.be.rejectedWith("needs --fee-split");
+    await expect(hre.run("vpop:settings", { address, action: "bogus" })).to.be.rejectedWith("Unknown action");
+  });
+
+  it("Should hand secrets to the keeper and reveal them", async function () {
+    const secrets = path.join(dir, "keeper-user.json");
+    const keeperSecrets = path.join(dir, "keeper.json");
+    const marketId = await hre.run("vpop:create-market", { address, lower: "0", upper: "10", ipfs: "ipfs://keeper" });
+    await hre.run("vpop:commit", { address, secrets, market: marketId.toString(), position: "3", wager: "0.1" });
+
+    const passphrase = process.env.VPOP_KEEPER_PASSPHRASE;
+    process.env.VPOP_KEEPER_PASSPHRASE = "test passphrase";
+    try {
+      expect(await hre.run("vpop:keeper-add", { address, secrets, keeperSecrets })).to.equal(1);
+      await time.increase(3601);
+      const report = await hre.run("vpop:keeper", { address, keeperSecrets, once: true });
+      expect(report.revealed).to.have.length(1);
+      expect((await vpop.commitments(marketId, 1)).revealed).to.be.true;
+
+      delete process.env.VPOP_KEEPER_PASSPHRASE;
+      await expect(hre.run("vpop:keeper", { address, keeperSecrets, once: true })).to.be.rejectedWith("Set VPOP_KEEPER_PASSPHRASE");
+    } finally {
+      process.env.VPOP_KEEPER_PASSPHRASE = passphrase;
+      if (passphrase === undefined) delete process.env.VPOP_KEEPER_PASSPHRASE;
+    }
+  });
+
+  it("Should require a recorded deployment when no address is given", async function () {
+    await expect(hre.run("vpop:market-info", { market: "1" })).to.be.rejectedWith('No VPOP deployment recorded for network "hardhat"');
+  });
+});
@@ -7,82 +7,61 @@ import { MerkleTree } from "merkletreejs";
 
 import { expect } from "chai";
 import "@nomicfoundation/hardhat-chai-matchers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 import hre from "hardhat";
 import { ethers } from "hardhat";
-import { TestToken, TestToken__factory, TestTokenPermit, TestTokenPermit__factory } from "../typechain-types";
-
-// Helper function to create commitment hash
-function createCommitmentHash(position: bigint, wager: bigint, nonce: bigint): string {
-  return ethers.keccak256(
-    ethers.solidityPacked(
-      ["uint256", "uint256", "uint256"],
-      [position, wager, nonce]
-    )
-  );
-}
-
-// Helper function to calculate winning threshold
-async function calculateWinningThreshold(vpopContract: any, marketId: bigint): Promise<bigint> {
-  const market = await vpopContract.markets(marketId);
-  const marketConsensus = await vpopContract.marketConsensus(marketId);
-  const consensus = marketConsensus.consensusPosition;
-  
-  // Calculate the range of possible positions
-  const range = market.upperBound - market.lowerBound;
-  
-  // Calculate threshold based on winningPercentile (in basis points)
-  // winningPercentile is in basis points (e.g., 2000 = 20%)
-  const winningPercentile = BigInt(market.winningPercentile);
-
-  const totalCommitments = marketConsensus.totalCommitments;
-
-  // Create array to store distances
-  const distances: bigint[] = [];
-  
-  // Loop through all commitments
-  for (let i = 0; i < totalCommitments; i++) {
-    const commitment = await vpopContract.commitments(marketId, i + 1);
-    // Only process revealed commitments
-    if (commitment.revealed) {
-      const position = commitment.position;
-      // Calculate absolute distance from consensus
-      const distance = position > consensus ? 
-        position - consensus : 
-        consensus - position;
-      
-      distances.push(BigInt(distance));
-    }
-  }
-
-  // Sort distances
-  distances.sort((a, b) => {
-    if (a < b) return -1;
-    if (a > b) return 1;
-    return 0;
-  });
-  
-  const winIndex = Math.floor(Number(distances.length) * Number(winningPercentile) / 10000)-1;
-
-  if(distances.length == 1 || winIndex < 0){
-    return distances[0];
-  }
-  
-  return distances[winIndex];
-}
-
-// Helper function to create a market
+import { TestToken, TestToken__factory, TestTokenPermit, TestTokenPermit__factory, VPOPConsensus__factory, VPOPLens, VPOPMath__factory } from "../typechain-types";
+import {
+  CommitmentHashDomain,
+  ConsensusMode,
+  DecayCurve,
+  MarketPhase,
+  MarketType,
+  PAYOUT_SCALE,
+  PayoutCurve,
+  VPOPClient,
+  bundleDistance,
+  computeBundleConsensus,
+  computeConsensus,
+  computeConsensusProposal,
+  computeWinningThreshold,
+  createBundleCommitmentHash,
+  createCommitmentHash,
+  getBundleSalt,
+  getCommitmentHashDomain,
+  getTickSize,
+  getWinnings,
+  randomSalt,
+  rankOptions,
+  roundedMean,
+  signPermit,
+  sumOptionWeights,
+  toMarketPhase
+} from "../sdk";
+
+// Helper function to create a market through the SDK with the defaults the tests use
 async function createMarket({
   vpopContract,
   signer,
   token = ethers.ZeroAddress,
   lowerBound = 1n,
   upperBound = 100n,
-  decimals = 1,
+  decimals = 18,
   minWager = ethers.parseEther("0.1"),
   decayFactor = 20,
+  decayCurve = DecayCurve.Linear,
+  decayParameter = 0,
+  commitStart = 0n,
   commitDuration = 3600,
   revealDuration = 3600,
   winningPercentile = 50,
+  consensusMode = ConsensusMode.WeightedMean,
+  trimRate = 0,
+  payoutCurve = PayoutCurve.Binary,
+  payoutParameter = 0,
+  marketType = MarketType.Numeric,
+  creatorFeeRate,
+  creatorFeeRecipient = ethers.ZeroAddress,
   ipfsHash = "QmTest123"
 }: {
   vpopContract: any,
@@ -93,121 +72,108 @@ async function createMarket({
   decimals?: number,
   minWager?: bigint,
   decayFactor?: number,
+  decayCurve?: DecayCurve,
+  decayParameter?: number,
+  commitStart?: bigint,
   commitDuration?: number,
   revealDuration?: number,
   winningPercentile?: number,
+  consensusMode?: ConsensusMode,
+  trimRate?: number,
+  payoutCurve?: PayoutCurve,
+  payoutParameter?: number,
+  marketType?: MarketType,
+  creatorFeeRate?: bigint | number,
+  creatorFeeRecipient?: string,
   ipfsHash?: string
 }): Promise<bigint> {
-  const tx = await vpopContract.connect(signer).initializeMarket(
+  // Creators charge the highest creator fee the platform allows unless a rate is given
+  if (creatorFeeRate === undefined) {
+    creatorFeeRate = await vpopContract.maxCreatorFeeRate();
+  }
+  const { marketId } = await new VPOPClient(vpopContract, signer).createMarket({
     token,
     lowerBound,
     upperBound,
     decimals,
     minWager,
     decayFactor,
+    decayCurve,
+    decayParameter,
+    commitStart,
     commitDuration,
     revealDuration,
     winningPercentile,
+    consensusMode,
+    trimRate,
+    payoutCurve,
+    payoutParameter,
+    marketType,
+    creatorFeeRate,
+    creatorFeeRecipient,
     ipfsHash
+  });
+  return marketId;
+}
+
+type FeeRecipient = { recipient: string; rate: number | bigint };
+
+// Helper function to compare a fee split returned by the contract with the expected recipients
+function expectFeeSplit(actual: any[], expected: FeeRecipient[]) {
+  expect(actual.map((feeRecipient: any) => [feeRecipient.recipient, feeRecipient.rate])).to.deep.equal(
+    expected.map((feeRecipient) => [feeRecipient.recipient, BigInt(feeRecipient.rate)])
   );
-  const receipt = await tx.wait();
-  return await vpopContract.getMarketCount();
 }
 
-// Helper function to create a single commit
+// Helper function to queue platform settings and execute them once the timelock has passed
+async function updatePlatformSettings(
+  vpopContract: any,
+  feeSplit: FeeRecipient[],
+  maxCreatorFeeRate: number,
+  marketCreateFee: bigint | number,
+  allowPublicMarkets: boolean
+) {
+  await vpopContract.queuePlatformSettings(feeSplit, maxCreatorFeeRate, marketCreateFee, allowPublicMarkets);
+  await time.increase(await vpopContract.SETTINGS_TIMELOCK());
+  return vpopContract.executePlatformSettings();
+}
+
+// Helper function to create a single commit through the SDK
 async function createCommit({
   vpopContract,
   marketId,
   signer,
   position,
   wager,
-  nonce,
-  proof = [],
-  valueOverride
+  salt,
+  proof = []
 }: {
   vpopContract: any,
   marketId: bigint,
   signer: any,
   position: bigint,
   wager: bigint,
-  nonce: bigint,
-  proof?: string[],
-  valueOverride?: any
+  salt: string,
+  proof?: string[]
 }) {
-  const commitmentHash = createCommitmentHash(position, proof.length == 0 ? wager : 100000n, nonce);
-  const value = valueOverride !== undefined ? valueOverride : { value: wager };
-  return vpopContract.connect(signer).commit(
-    marketId,
-    commitmentHash,
-    wager,
-    proof,
-    value
-  );
-}
-
-// === added helper =============================================
-// Generates a nonce that fits into uint64 (required by the contract)
-const randomNonce64 = (): bigint => {
-  // 8 random bytes -> 64-bit unsigned integer
-  return ethers.toBigInt(ethers.hexlify(ethers.randomBytes(8)));
-};
-
-// Helper function to generate permit signature
-async function generatePermitSignature(
-  token: TestTokenPermit,
-  owner: any,
-  spender: string,
-  value: bigint,
-  deadline: number
-) {
-  const nonce = await token.nonces(owner.address);
-  const name = await token.name();
-  const version = "1";
-  const chainId = await owner.provider.getNetwork().then((n: any) => n.chainId);
-  
-  const domain = {
-    name,
-    version,
-    chainId,
-    verifyingContract: await token.getAddress()
-  };
-
-  const types = {
-    Permit: [
-      { name: "owner", type: "address" },
-      { name: "spender", type: "address" },
-      { name: "value", type: "uint256" },
-      { name: "nonce", type: "uint256" },
-      { name: "deadline", type: "uint256" }
-    ]
-  };
-
-  const values = {
-    owner: owner.address,
-    spender,
-    value,
-    nonce,
-    deadline
-  };
-
-  const signature = await owner.signTypedData(domain, types, values);
-  const sig = ethers.Signature.from(signature);
-  
-  return {
-    v: sig.v,
-    r: sig.r,
-    s: sig.s,
-    deadline
-  };
+  const { tx } = await new VPOPClient(vpopContract, signer).commit({ marketId, position, wager, salt, proof });
+  return tx;
 }
 
 describe("VPOP", function () {
   let vpop: any;
+  let lens: VPOPLens;
   let owner: any;
   let otherAccount: any;
   let thirdAccount: any;
   let testToken: TestToken;
+  let hashDomain: CommitmentHashDomain;
   const apeAddress = "0x5AC40A1175715F1c27e3FEAa8C79664040717679";
+  // The platform fee goes to the owner and the partner fee to the ape address
+  const platformSplit = (platformFeeRate: number, apeFeeRate: number): FeeRecipient[] => [
+    { recipient: owner.address, rate: platformFeeRate },
+    { recipient: apeAddress, rate: apeFeeRate }
+  ];
   before(async function() {
     const [ownerSigner, otherAccountSigner, thirdAccountSigner] = await hre.ethers.getSigners();
     owner = ownerSigner;
@@ -218,13 +184,23 @@ describe("VPOP", function () {
     thirdAccount = thirdAccountSigner;
 
     const VPOP = await hre.ethers.getContractFactory("VPOP");
-    vpop = await VPOP.deploy();
+    vpop = await VPOP.deploy(platformSplit(800, 200));
+    hashDomain = await getCommitmentHashDomain(vpop);
+    const VPOPLens = await hre.ethers.getContractFactory("VPOPLens");
+    lens = await VPOPLens.deploy(await vpop.getAddress()) as unknown as VPOPLens;
   });
 
   it("Should deploy the contract", async function() {
     expect(vpop).to.not.be.undefined;
   });
 
+  it("Should keep VPOP within the contract size limit", async function () {
+    // EIP-170 caps deployed code at 24,576 bytes. This is the one place the margin is tracked:
+    // code that does not fit goes to VPOPMath, VPOPConsensus or VPOPLens.
+    const code = await ethers.provider.getCode(await vpop.getAddress());
+    expect((code.length - 2) / 2).to.be.lte(24576);
+  });
+
   describe("Market Creation", function () {
     it("Should create a market with correct parameters", async function () {
       const marketId = await createMarket({
@@ -243,7 +219,7 @@ describe("VPOP", function () {
       });
       
       // Verify the market was created correctly
-      const market = await vpop.markets(1n); // Use BigInt for market ID
+      const market = await vpop.getMarket(1n); // Use BigInt for market ID
       expect(market.creator).to.equal(owner.address);
       expect(market.token).to.equal(ethers.ZeroAddress);
       expect(market.lowerBound).to.equal(ethers.parseEther("1"));
@@ -320,11 +296,11 @@ describe("VPOP", function () {
 
       // Create commitment parameters
       const position = 5000n; // 50%
-      const nonce = randomNonce64();
+      const salt = randomSalt();
       const wager = ethers.parseEther("0.5");
 
       // Calculate the commitment hash
-      const commitmentHash = createCommitmentHash(position, wager, nonce);
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, owner.address, position, wager, salt);
 
       // Create commitment
       const tx = await createCommit({
@@ -333,7 +309,7 @@ describe("VPOP", function () {
         signer: owner,
         position,
         wager,
-        nonce
+        salt
       });
       const receipt = await tx.wait();
       const event = receipt?.logs[0];
@@ -346,16 +322,15 @@ describe("VPOP", function () {
       expect(commitment.commitmentHash).to.equal(commitmentHash);
       expect(commitment.wager).to.equal(wager);
       expect(commitment.position).to.equal(0); // Position should be 0 until revealed
-      expect(commitment.nonce).to.equal(0); // Nonce should be 0 until revealed
       expect(commitment.revealed).to.be.false;
     });
 
     it("Should fail when creating commitment for non-existent market", async function () {
       const position = 5000n;
-      const nonce = randomNonce64();
+      const salt = randomSalt();
       const wager = ethers.parseEther("0.01");
       const marketCount = await vpop.getMarketCount();
-      const commitmentHash = createCommitmentHash(position, wager, nonce);
+      const commitmentHash = createCommitmentHash(hashDomain, marketCount + 1n, owner.address, position, wager, salt);
 
       await expect(
         vpop.commit(marketCount + 1n, commitmentHash, wager, [], { value: wager })
@@ -375,9 +350,9 @@ describe("VPOP", function () {
       });
 
       const position = 5000n;
-      const nonce = randomNonce64();
+      const salt = randomSalt();
       const wager = ethers.parseEther("0.05"); // Below minimum wager
-      const commitmentHash = createCommitmentHash(position, wager, nonce);
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, owner.address, position, wager, salt);
 
       await expect(
         vpop.commit(marketId, commitmentHash, wager, [], { value: wager })
@@ -398,16 +373,16 @@ describe("VPOP", function () {
       });
 
       const position = 5000n;
-      const nonce = randomNonce64();
+      const salt = randomSalt();
       const wager = ethers.parseEther("0.5");
-      const commitmentHash = createCommitmentHash(position, wager, nonce);
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, owner.address, position, wager, salt);
 
       // Advance time by 2 hours
       await time.increase(7200);
 
       await expect(
         vpop.commit(marketId, commitmentHash, wager, [], { value: wager })
-      ).to.be.revertedWith("Commitment phase has ended");
+      ).to.be.revertedWith("Not in commit phase");
     });
 
     it("Should create multiple commitments", async function () {
@@ -426,16 +401,16 @@ describe("VPOP", function () {
       // Create commitment parameters
       const position1 = 5000n;
       const position2 = 6000n;
-      const nonce1 = randomNonce64();
-      const nonce2 = randomNonce64();
+      const salt1 = randomSalt();
+      const salt2 = randomSalt();
       const wager = ethers.parseEther("0.5");
 
       // Calculate commitment hashes
-      const commitmentHash1 = createCommitmentHash(position1, wager, nonce1);
-      const commitmentHash2 = createCommitmentHash(position2, wager, nonce2);
+      const commitmentHash1 = createCommitmentHash(hashDomain, marketId, owner.address, position1, wager, salt1);
+      const commitmentHash2 = createCommitmentHash(hashDomain, marketId, owner.address, position2, wager, salt2);
 
       // Get the market to check timing
-      const market = await vpop.markets(marketId);
+      const market = await vpop.getMarket(marketId);
       const commitEndTime = market.createdAt + market.commitDuration;
       const currentTime = await time.latest();
       
@@ -449,7 +424,7 @@ describe("VPOP", function () {
         signer: owner,
         position: position1,
         wager,
-        nonce: nonce1
+        salt: salt1
       });
       const receipt1 = await tx1.wait();
       const event1 = receipt1?.logs[0];
@@ -460,7 +435,7 @@ describe("VPOP", function () {
         signer: owner,
         position: position2,
         wager,
-        nonce: nonce2
+        salt: salt2
       });
       const receipt2 = await tx2.wait();
       const event2 = receipt2?.logs[0];
@@ -478,55 +453,193 @@ describe("VPOP", function () {
 
   describe("Fee Management", function () {
     it("Should have correct initial fee rates", async function () {
-      const platformFeeRate = await vpop.platformFeeRate();
-      const creatorFeeRate = await vpop.creatorFeeRate();
-      const apeFeeRate = await vpop.apeFeeRate();
-      const apeOwner = await vpop.apeOwner();
+      const maxCreatorFeeRate = await vpop.maxCreatorFeeRate();
+      const feeSplitId = await vpop.getCurrentFeeSplitId();
 
-      expect(platformFeeRate).to.equal(800); // 8%
-      expect(creatorFeeRate).to.equal(200); // 2%
-      expect(apeFeeRate).to.equal(200); // 2%
-      expect(apeOwner).to.equal(apeAddress); // Initial ape owner should be zero address
+      expect(maxCreatorFeeRate).to.equal(200); // 2%
+      expect(feeSplitId).to.equal(0);
+      expectFeeSplit(await vpop.getFeeSplit(feeSplitId), platformSplit(800, 200)); // 8% platform, 2% ape
     });
 
     it("Should allow owner to update fee rates", async function () {
-      const newPlatformFeeRate = 1000; // 10%
+      const newFeeSplit = platformSplit(1000, 300); // 10% platform, 3% ape
       const newCreatorFeeRate = 300; // 3%
-      const newApeFeeRate = 300; // 3%
       const newMarketCreateFee = 0; // 0 ETH market creation fee
       const newAllowPublicMarkets = true;
-      await vpop.updatePlatformSettings(
-        newPlatformFeeRate,
+      const queueTx = await vpop.queuePlatformSettings(
+        newFeeSplit,
         newCreatorFeeRate,
-        newApeFeeRate,
         newMarketCreateFee,
         newAllowPublicMarkets
       );
-
-      const platformFeeRate = await vpop.platformFeeRate();
-      const creatorFeeRate = await vpop.creatorFeeRate();
-      const apeFeeRate = await vpop.apeFeeRate();
-
-      expect(platformFeeRate).to.equal(newPlatformFeeRate);
-      expect(creatorFeeRate).to.equal(newCreatorFeeRate);
-      expect(apeFeeRate).to.equal(newApeFeeRate);
+      const timelock = await vpop.SETTINGS_TIMELOCK();
+      const executableAt = BigInt(await time.latest()) + timelock;
+      await expect(queueTx)
+        .to.emit(vpop, "PlatformSettingsQueued")
+        .withArgs(anyValue, newCreatorFeeRate, newMarketCreateFee, newAllowPublicMarkets, executableAt);
+
+      // Settings do not apply before the timelock has passed
+      await expect(vpop.executePlatformSettings()).to.be.revertedWith("Settings timelock not expired");
+      expect(await vpop.getCurrentFeeSplitId()).to.equal(0);
+
+      await time.increaseTo(executableAt);
+      await expect(vpop.executePlatformSettings())
+        .to.emit(vpop, "PlatformSettingsUpdated")
+        .withArgs(1, anyValue, newCreatorFeeRate, newMarketCreateFee, newAllowPublicMarkets);
+      await expect(vpop.executePlatformSettings()).to.be.revertedWith("No settings queued");
+
+      expect(await vpop.maxCreatorFeeRate()).to.equal(newCreatorFeeRate);
+      expect(await vpop.getCurrentFeeSplitId()).to.equal(1);
+      expectFeeSplit(await vpop.getFeeSplit(1), newFeeSplit);
+      // Earlier fee splits stay readable for the markets created with them
+      expectFeeSplit(await vpop.getFeeSplit(0), platformSplit(800, 200));
     });
 
     it("Should not allow non-owner to update fee rates", async function () {
-      const newPlatformFeeRate = 1000;
       const newCreatorFeeRate = 300;
-      const newApeFeeRate = 300;
       const newMarketCreateFee = 0; // 0 ETH market creation fee
       const newAllowPublicMarkets = true;
       await expect(
-        vpop.connect(otherAccount).updatePlatformSettings(
-          newPlatformFeeRate,
+        vpop.connect(otherAccount).queuePlatformSettings(
+          platformSplit(1000, 300),
           newCreatorFeeRate,
-          newApeFeeRate,  
           newMarketCreateFee,
           newAllowPublicMarkets
         )
       ).to.be.revertedWithCustomError(vpop, "OwnableUnauthorizedAccount");
+      await expect(
+        vpop.connect(otherAccount).executePlatformSettings()
+      ).to.be.revertedWithCustomError(vpop, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should cap the total fee rate", async function () {
+      const cap = await vpop.MAX_TOTAL_FEE_RATE();
+      await expect(
+        vpop.queuePlatformSettings([{ recipient: owner.address, rate: cap }], 1, 0, true)
+      ).to.be.revertedWith("Total fee rate exceeds cap");
+      await expect(
+        vpop.queuePlatformSettings(platformSplit(1000, 1001), 500, 0, true)
+      ).to.be.revertedWith("Total fee rate exceeds cap");
+    });
+
+    it("Should validate fee split recipients", async function () {
+      await expect(
+        vpop.queuePlatformSettings([{ recipient: ethers.ZeroAddress, rate: 100 }], 300, 0, true)
+      ).to.be.revertedWith("Fee recipient cannot be zero address");
+
+      const maxRecipients = await vpop.MAX_FEE_RECIPIENTS();
+      const tooManyRecipients = Array.from({ length: Number(maxRecipients) + 1 }, () => ({ recipient: owner.address, rate: 1 }));
+      await expect(
+        vpop.queuePlatformSettings(tooManyRecipients, 300, 0, true)
+      ).to.be.revertedWith("Too many fee recipients");
+    });
+
+    it("Should allow owner to cancel queued settings", async function () {
+      await expect(vpop.cancelPlatformSettings()).to.be.revertedWith("No settings queued");
+
+      await vpop.queuePlatformSettings(platformSplit(2000, 200), 300, 0, true);
+      await expect(vpop.cancelPlatformSettings()).to.emit(vpop, "PlatformSettingsCancelled");
+
+      await time.increase(await vpop.SETTINGS_TIMELOCK());
+      await expect(vpop.executePlatformSettings()).to.be.revertedWith("No settings queued");
+      expectFeeSplit(await vpop.getFeeSplit(await vpop.getCurrentFeeSplitId()), platformSplit(1000, 300));
+    });
+
+    it("Should keep the fee rates a market was created with", async function () {
+      // Long commit phase so the market stays open across a settings change
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: otherAccount,
+        lowerBound: 1000n,
+        upperBound: 10000n,
+        minWager: ethers.parseEther("0.1"),
+        decayFactor: 0,
+        commitDuration: 7 * 24 * 3600,
+        ipfsHash: "QmTest123"
+      });
+      const market = await vpop.getMarket(marketId);
+      expect(market.creatorFeeRate).to.equal(300);
+      expectFeeSplit(await vpop.getFeeSplit(market.feeSplitId), platformSplit(1000, 300));
+
+      await updatePlatformSettings(vpop, platformSplit(2000, 200), 300, 0, true);
+
+      const initialCreatorFees = await vpop.accruedFees(otherAccount.address, ethers.ZeroAddress);
+      const initialPlatformFees = await vpop.accruedFees(owner.address, ethers.ZeroAddress);
+      const wager = ethers.parseEther("1.0");
+      await createCommit({ vpopContract: vpop, marketId, signer: thirdAccount, position: 5000n, wager, salt: randomSalt() });
+
+      expect(await vpop.accruedFees(owner.address, ethers.ZeroAddress) - initialPlatformFees).to.equal((wager * 1000n) / 10000n);
+      expect((await vpop.marketConsensus(marketId)).escrowedCreatorFees).to.equal((wager * 300n) / 10000n);
+      expect(await vpop.accruedFees(otherAccount.address, ethers.ZeroAddress)).to.equal(initialCreatorFees);
+
+      // Restore the rates the following tests expect
+      await updatePlatformSettings(vpop, platformSplit(1000, 300), 300, 0, true);
+    });
+
+    it("Should let creators choose their fee terms within the platform cap", async function () {
+      const maxCreatorFeeRate = await vpop.maxCreatorFeeRate();
+      await expect(
+        createMarket({ vpopContract: vpop, signer: otherAccount, creatorFeeRate: maxCreatorFeeRate + 1n })
+      ).to.be.revertedWith("Creator fee rate exceeds cap");
+
+      // A charity market that pays no creator fee
+      const charityMarketId = await createMarket({ vpopContract: vpop, signer: otherAccount, creatorFeeRate: 0 });
+      const charityMarket = await vpop.getMarket(charityMarketId);
+      expect(charityMarket.creatorFeeRate).to.equal(0);
+      expect(charityMarket.creatorFeeRecipient).to.equal(otherAccount.address);
+
+      const initialCreatorFees = await vpop.accruedFees(otherAccount.address, ethers.ZeroAddress);
+      const wager = ethers.parseEther("1.0");
+      await createCommit({ vpopContract: vpop, marketId: charityMarketId, signer: owner, position: 50n, wager, salt: randomSalt() });
+      expect(await vpop.accruedFees(otherAccount.address, ethers.ZeroAddress)).to.equal(initialCreatorFees);
+
+      // A market whose creator fees are paid out to a separate address
+      const payoutMarketId = await createMarket({
+        vpopContract: vpop,
+        signer: otherAccount,
+        creatorFeeRate: 150,
+        creatorFeeRecipient: thirdAccount.address
+      });
+      const payoutMarket = await vpop.getMarket(payoutMarketId);
+      expect(payoutMarket.creator).to.equal(otherAccount.address);
+      expect(payoutMarket.creatorFeeRate).to.equal(150);
+      expect(payoutMarket.creatorFeeRecipient).to.equal(thirdAccount.address);
+
+      const initialPayoutFees = await vpop.accruedFees(thirdAccount.address, ethers.ZeroAddress);
+      const salt = randomSalt();
+      await createCommit({ vpopContract: vpop, marketId: payoutMarketId, signer: owner, position: 50n, wager, salt });
+      await time.increase(3601);
+      await vpop.reveal(payoutMarketId, 1, createCommitmentHash(hashDomain, payoutMarketId, owner.address, 50n, wager, salt), 50n, salt);
+      await time.increase(3601);
+      await vpop.resolve(payoutMarketId, await computeWinningThreshold(vpop, payoutMarketId));
+
+      expect(await vpop.accruedFees(thirdAccount.address, ethers.ZeroAddress) - initialPayoutFees).to.equal((wager * 150n) / 10000n);
+      expect(await vpop.accruedFees(otherAccount.address, ethers.ZeroAddress)).to.equal(initialCreatorFees);
+    });
+
+    it("Should split fees between any number of recipients", async function () {
+      const partnerSplit = [...platformSplit(1000, 300), { recipient: thirdAccount.address, rate: 250 }];
+      await updatePlatformSettings(vpop, partnerSplit, 300, 0, true);
+
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: otherAccount,
+        lowerBound: 1000n,
+        upperBound: 10000n,
+        minWager: ethers.parseEther("0.1"),
+        decayFactor: 0,
+        ipfsHash: "QmTest123"
+      });
+      const initialPartnerFees = await vpop.accruedFees(thirdAccount.address, ethers.ZeroAddress);
+      const wager = ethers.parseEther("1.0");
+      await createCommit({ vpopContract: vpop, marketId, signer: owner, position: 5000n, wager, salt: randomSalt() });
+
+      expect(await vpop.accruedFees(thirdAccount.address, ethers.ZeroAddress) - initialPartnerFees).to.equal((wager * 250n) / 10000n);
+      const consensus = await vpop.marketConsensus(marketId);
+      expect(consensus.totalWinnings).to.equal(wager - (wager * (1000n + 300n + 250n + 300n)) / 10000n);
+
+      // Restore the fee split the following tests expect
+      await updatePlatformSettings(vpop, platformSplit(1000, 300), 300, 0, true);
     });
 
     it("Should distribute fees correctly including ape fee", async function () {
@@ -541,20 +654,20 @@ describe("VPOP", function () {
         ipfsHash: "QmTest123"
       });
 
-      const market = await vpop.markets(marketId);
+      const market = await vpop.getMarket(marketId);
       const marketCreator = market.creator;
       expect(marketCreator).to.equal(otherAccount.address);
 
       // Create commitment parameters
       const position = 5000n;
-      const nonce = randomNonce64();
+      const salt = randomSalt();
       const wager = ethers.parseEther("1.0"); // 1 ETH wager
-      const commitmentHash = createCommitmentHash(position, wager, nonce);
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, thirdAccount.address, position, wager, salt);
 
-      // Get initial balances
-      const initialOwnerBalance = await ethers.provider.getBalance(owner.address);
-      const initialCreatorBalance = await ethers.provider.getBalance(marketCreator);
-      const initialApeOwnerBalance = await ethers.provider.getBalance(apeAddress);
+      // Get initial accrued fees
+      const initialOwnerFees = await vpop.accruedFees(owner.address, ethers.ZeroAddress);
+      const initialCreatorFees = await vpop.accruedFees(marketCreator, ethers.ZeroAddress);
+      const initialApeOwnerFees = await vpop.accruedFees(apeAddress, ethers.ZeroAddress);
 
       // Create commitment
       const tx = await createCommit({
@@ -563,7 +676,7 @@ describe("VPOP", function () {
         signer: thirdAccount,
         position,
         wager,
-        nonce
+        salt
       });
       const receipt = await tx.wait();
 
@@ -572,15 +685,24 @@ describe("VPOP", function () {
       const creatorFee = (wager * 300n) / 10000n; // 3%
       const apeFee = (wager * 300n) / 10000n; // 3%
 
-      // Get final balances
-      const finalOwnerBalance = await ethers.provider.getBalance(owner.address);
-      const finalCreatorBalance = await ethers.provider.getBalance(marketCreator);
-      const finalApeOwnerBalance = await ethers.provider.getBalance(apeAddress);
-
-      // Verify fee distribution
-      expect(finalOwnerBalance - initialOwnerBalance).to.equal(platformFee);
-      expect(finalCreatorBalance - initialCreatorBalance).to.equal(creatorFee);
-      expect(finalApeOwnerBalance - initialApeOwnerBalance).to.equal(apeFee);
+      // Verify fee accrual, the creator fee stays in escrow until the market resolves
+      await expect(tx).to.emit(vpop, "FeesAccrued").withArgs(marketId, apeAddress, ethers.ZeroAddress, apeFee);
+      expect(await vpop.accruedFees(owner.address, ethers.ZeroAddress) - initialOwnerFees).to.equal(platformFee);
+      expect(await vpop.accruedFees(marketCreator, ethers.ZeroAddress)).to.equal(initialCreatorFees);
+      expect(await vpop.accruedFees(apeAddress, ethers.ZeroAddress) - initialApeOwnerFees).to.equal(apeFee);
+      expect((await vpop.marketConsensus(marketId)).escrowedCreatorFees).to.equal(creatorFee);
+      expect((await vpop.commitments(marketId, 1)).creatorFee).to.equal(creatorFee);
+
+      // Platform owner pulls their fees
+      const ownerFees = await vpop.accruedFees(owner.address, ethers.ZeroAddress);
+      const withdrawTx = vpop.withdrawFees(ethers.ZeroAddress);
+      await expect(withdrawTx)
+        .to.emit(vpop, "FeesWithdrawn")
+        .withArgs(owner.address, ethers.ZeroAddress, ownerFees);
+      await expect(withdrawTx).to.changeEtherBalances([owner, vpop], [ownerFees, -ownerFees]);
+      expect(await vpop.accruedFees(owner.address, ethers.ZeroAddress)).to.equal(0);
+      await expect(vpop.withdrawFees(ethers.ZeroAddress))
+        .to.be.revertedWith("No fees to withdraw");
     });
 
     it("Should distribute ERC20 fees correctly including ape fee", async function () {
@@ -606,18 +728,15 @@ describe("VPOP", function () {
         ipfsHash: "QmTest123"
       });
 
-      const market = await vpop.markets(marketId);
+      const market = await vpop.getMarket(marketId);
       const marketCreator = market.creator;
       
       // Create commitment parameters
       const position = 5000n;
-      const nonce = randomNonce64();
-      const commitmentHash = createCommitmentHash(position, wager, nonce);
+      const salt = randomSalt();
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, thirdAccount.address, position, wager, salt);
 
-      // Get initial balances
-      const initialOwnerBalance = await testToken.balanceOf(owner.address);
-      const initialCreatorBalance = await testToken.balanceOf(marketCreator);
-      const initialApeOwnerBalance = await testToken.balanceOf(apeAddress);
+      const tokenAddress = await testToken.getAddress();
 
       // Create commitment
       const tx = await createCommit({
@@ -626,7 +745,7 @@ describe("VPOP", function () {
         signer: thirdAccount,
         position,
         wager,
-        nonce
+        salt
       });
       const receipt = await tx.wait();
 
@@ -635,15 +754,51 @@ describe("VPOP", function () {
       const creatorFee = (wager * 300n) / 10000n; // 3%
       const apeFee = (wager * 300n) / 10000n; // 3%
 
-      // Get final balances
-      const finalOwnerBalance = await testToken.balanceOf(owner.address);
-      const finalCreatorBalance = await testToken.balanceOf(marketCreator);
-      const finalApeOwnerBalance = await testToken.balanceOf(apeAddress);
+      // Verify fee accrual, all fees stay in the contract until withdrawn
+      expect(await vpop.accruedFees(owner.address, tokenAddress)).to.equal(platformFee);
+      expect(await vpop.accruedFees(marketCreator, tokenAddress)).to.equal(0);
+      expect((await vpop.marketConsensus(marketId)).escrowedCreatorFees).to.equal(creatorFee);
+      expect(await vpop.accruedFees(apeAddress, tokenAddress)).to.equal(apeFee);
+      expect(await testToken.balanceOf(await vpop.getAddress())).to.equal(wager);
+
+      // Platform owner pulls their fees
+      await vpop.withdrawFees(tokenAddress);
+      expect(await testToken.balanceOf(owner.address)).to.equal(platformFee);
+      expect(await vpop.accruedFees(owner.address, tokenAddress)).to.equal(0);
+    });
+
+    it("Should not let a creator that rejects ETH block commits", async function () {
+      // A contract with no receive function acts as market creator
+      const TestToken = await ethers.getContractFactory("TestToken");
+      const creatorContract = await TestToken.deploy();
+      const creatorAddress = await creatorContract.getAddress();
+      await hre.network.provider.send("hardhat_impersonateAccount", [creatorAddress]);
+      await hre.network.provider.send("hardhat_setBalance", [creatorAddress, "0x56BC75E2D63100000"]);
+      const creatorSigner = await ethers.getSigner(creatorAddress);
+
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: creatorSigner,
+        lowerBound: 1000n,
+        upperBound: 10000n,
+        minWager: ethers.parseEther("0.1"),
+        decayFactor: 20,
+        ipfsHash: "QmTest123"
+      });
+      await hre.network.provider.send("hardhat_stopImpersonatingAccount", [creatorAddress]);
+
+      const wager = ethers.parseEther("1.0");
+      await createCommit({
+        vpopContract: vpop,
+        marketId,
+        signer: thirdAccount,
+        position: 5000n,
+        wager,
+        salt: randomSalt()
+      });
 
-      // Verify fee distribution
-      expect(finalOwnerBalance - initialOwnerBalance).to.equal(platformFee);
-      expect(finalCreatorBalance - initialCreatorBalance).to.equal(creatorFee);
-      expect(finalApeOwnerBalance - initialApeOwnerBalance).to.equal(apeFee);
+      const { creatorFeeRate } = await vpop.getMarket(marketId);
+      expect((await vpop.marketConsensus(marketId)).escrowedCreatorFees).to.equal((wager * creatorFeeRate) / 10000n);
     });
   });
 
@@ -662,11 +817,11 @@ describe("VPOP", function () {
       
       // Create commitment parameters
       const position = 5000n;
-      const nonce = randomNonce64();
+      const salt = randomSalt();
       const wager = ethers.parseEther("0.5");
 
       // Calculate the commitment hash
-      const commitmentHash = createCommitmentHash(position, wager, nonce);
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, owner.address, position, wager, salt);
 
       // Create commitment
       const tx = await createCommit({
@@ -675,7 +830,7 @@ describe("VPOP", function () {
         signer: owner,
         position,
         wager,
-        nonce
+        salt
       });
       const receipt = await tx.wait();
 
@@ -687,7 +842,7 @@ describe("VPOP", function () {
       await time.increase(3601);
 
       // Reveal commitment
-      await vpop.reveal(marketId, 1, commitmentHash, position, nonce);
+      await vpop.reveal(marketId, 1, commitmentHash, position, salt);
 
       // Verify the commitment is marked as revealed
       const commitment2 = await vpop.commitments(marketId, 1);
@@ -708,11 +863,11 @@ describe("VPOP", function () {
       
       // Create commitment parameters
       const position = 5000n;
-      const nonce = randomNonce64();
+      const salt = randomSalt();
       const wager = ethers.parseEther("0.5");
 
       // Calculate the commitment hash
-      const commitmentHash = createCommitmentHash(position, wager, nonce);
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, owner.address, position, wager, salt);
 
       // Create commitment
       const tx = await createCommit({
@@ -721,12 +876,12 @@ describe("VPOP", function () {
         signer: owner,
         position,
         wager,
-        nonce
+        salt
       });
 
       // Try to reveal during commit phase
       await expect(
-        vpop.reveal(marketId, 1, commitmentHash, position, nonce)
+        vpop.reveal(marketId, 1, commitmentHash, position, salt)
       ).to.be.revertedWith("Not in reveal phase");
     });
 
@@ -744,12 +899,12 @@ describe("VPOP", function () {
       
       // Create commitment parameters
       const position = 5000n;
-      const nonce = randomNonce64();
+      const salt = randomSalt();
       const wager = ethers.parseEther("0.5");
 
       // Calculate the commitment hash
-      const commitmentHash1 = createCommitmentHash(position, wager, nonce);
-      const commitmentHash2 = createCommitmentHash(position, wager, nonce);
+      const commitmentHash1 = createCommitmentHash(hashDomain, marketId, owner.address, position, wager, salt);
+      const commitmentHash2 = createCommitmentHash(hashDomain, marketId, owner.address, position, wager, salt);
 
       // Create commitment
       const tx1 = await createCommit({
@@ -758,7 +913,7 @@ describe("VPOP", function () {
         signer: owner,
         position,
         wager,
-        nonce
+        salt
       });
       const receipt1 = await tx1.wait();
       const event1 = receipt1?.logs[0];
@@ -769,21 +924,21 @@ describe("VPOP", function () {
         signer: owner,
         position,
         wager,
-        nonce
+        salt
       });
       const receipt2 = await tx2.wait();
       const event2 = receipt2?.logs[0];
 
       await time.increase(3600 + 1);
       // Try to reveal before reveal phase ends (should fail)
-      await vpop.reveal(marketId, 2, commitmentHash2, position, nonce);
+      await vpop.reveal(marketId, 2, commitmentHash2, position, salt);
       
       // Advance time past both commit and reveal phases
       await time.increase(7200 + 1);
 
       // Try to reveal after reveal phase
       await expect(
-        vpop.reveal(marketId, 1, commitmentHash1, position, nonce)
+        vpop.reveal(marketId, 1, commitmentHash1, position, salt)
       ).to.be.revertedWith("Not in reveal phase");
     });
 
@@ -801,11 +956,11 @@ describe("VPOP", function () {
       
       // Create commitment parameters
       const position = 5000n;
-      const nonce = randomNonce64();
+      const salt = randomSalt();
       const wager = ethers.parseEther("0.5");
 
       // Calculate the commitment hash
-      const commitmentHash = createCommitmentHash(position, wager, nonce);
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, owner.address, position, wager, salt);
 
       // Create commitment
       const tx = await createCommit({
@@ -814,7 +969,7 @@ describe("VPOP", function () {
         signer: owner,
         position,
         wager,
-        nonce
+        salt
       });
 
       // Advance time to reveal phase
@@ -823,7 +978,7 @@ describe("VPOP", function () {
       // Try to reveal with incorrect data
       const incorrectPosition = 6000n;
       await expect(
-        vpop.reveal(marketId, 1, commitmentHash, incorrectPosition, nonce)
+        vpop.reveal(marketId, 1, commitmentHash, incorrectPosition, salt)
       ).to.be.revertedWith("Revealed data does not match commitment hash");
     });
 
@@ -841,11 +996,11 @@ describe("VPOP", function () {
       
       // Create commitment parameters
       const position = 5000n;
-      const nonce = randomNonce64();
+      const salt = randomSalt();
       const wager = ethers.parseEther("0.5");
 
       // Calculate the commitment hash
-      const commitmentHash = createCommitmentHash(position, wager, nonce);
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, owner.address, position, wager, salt);
 
       // Create commitment
       const tx = await createCommit({
@@ -854,20 +1009,60 @@ describe("VPOP", function () {
         signer: owner,
         position,
         wager,
-        nonce
+        salt
       });
 
       // Advance time to reveal phase
       await time.increase(3600 + 1);
 
       // Reveal the commitment
-      await vpop.reveal(marketId, 1, commitmentHash, position, nonce);
+      await vpop.reveal(marketId, 1, commitmentHash, position, salt);
 
       // Try to reveal the same commitment again
       await expect(
-        vpop.reveal(marketId, 1, commitmentHash, position, nonce)
+        vpop.reveal(marketId, 1, commitmentHash, position, salt)
       ).to.be.revertedWith("Commitment already revealed");
     });
+    it("Should compute the same commitment hash as the contract", async function () {
+      const marketId = 7n;
+      const position = 4242n;
+      const wager = ethers.parseEther("0.5");
+      const salt = randomSalt();
+
+      expect(await vpop.getCommitmentHash(marketId, otherAccount.address, position, wager, salt))
+        .to.equal(createCommitmentHash(hashDomain, marketId, otherAccount.address, position, wager, salt));
+    });
+
+    it("Should not let a copied commitment be revealed by another account", async function () {
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: owner,
+        lowerBound: 1000n,
+        upperBound: 10000n,
+        minWager: ethers.parseEther("0.1"),
+        decayFactor: 0,
+        ipfsHash: "QmTest123"
+      });
+
+      const position = 5000n;
+      const salt = randomSalt();
+      const wager = ethers.parseEther("0.5");
+      const victimHash = createCommitmentHash(hashDomain, marketId, otherAccount.address, position, wager, salt);
+
+      // Victim commits, attacker copies the hash and wager
+      await vpop.connect(otherAccount).commit(marketId, victimHash, wager, [], { value: wager });
+      await vpop.connect(thirdAccount).commit(marketId, victimHash, wager, [], { value: wager });
+
+      await time.increase(3601);
+
+      // Victim reveals, exposing position and salt
+      await vpop.connect(otherAccount).reveal(marketId, 1, victimHash, position, salt);
+
+      // Attacker cannot replay the preimage against their own commitment
+      await expect(
+        vpop.connect(thirdAccount).reveal(marketId, 2, victimHash, position, salt)
+      ).to.be.revertedWith("Revealed data does not match commitment hash");
+    });
   });
 
   describe("Market Resolve", function () {
@@ -878,7 +1073,6 @@ describe("VPOP", function () {
         signer: owner,
         lowerBound: 0n,
         upperBound: 1000n,
-        decimals: 1,
         minWager: ethers.parseEther("0.1"),
         decayFactor: 0,
         commitDuration: 3600,
@@ -895,8 +1089,8 @@ describe("VPOP", function () {
         ethers.parseEther("1"),
         ethers.parseEther("1")
       ];
-      const nonces = positions.map(() => randomNonce64());
-      const commitmentHashes = positions.map((pos, i) => createCommitmentHash(pos, wagers[i], nonces[i]));
+      const salts = positions.map(() => randomSalt());
+      const commitmentHashes = positions.map((pos, i) => createCommitmentHash(hashDomain, marketId, [owner, otherAccount, thirdAccount, owner][i].address, pos, wagers[i], salts[i]));
 
       // Submit all commitments
       for (let i = 0; i < 4; i++) {
@@ -910,14 +1104,14 @@ describe("VPOP", function () {
       // Reveal all commitments
       for (let i = 0; i < 4; i++) {
         await vpop.connect([owner, otherAccount, thirdAccount, owner][i])
-          .reveal(marketId, i+1, commitmentHashes[i], positions[i], nonces[i]);
+          .reveal(marketId, i+1, commitmentHashes[i], positions[i], salts[i]);
       }
 
       // Move to resolution phase
       await time.increase(3601);
 
       // Calculate the true winning threshold
-      const trueThreshold = await calculateWinningThreshold(vpop, marketId);
+      const trueThreshold = await computeWinningThreshold(vpop, marketId);
       
       // Try to resolve with a threshold that's too high
       const tooHighThreshold = trueThreshold + 2n;
@@ -952,7 +1146,6 @@ describe("VPOP", function () {
         signer: owner,
         lowerBound: 0n,
         upperBound: 1000n,
-        decimals: 1,
         minWager: ethers.parseEther("0.1"),
         decayFactor: 0,
         commitDuration: 3600, // 1 hour commit
@@ -972,8 +1165,8 @@ describe("VPOP", function () {
         ethers.parseEther("1"),
         ethers.parseEther("1")
       ];
-      const nonces = positions.map(() => randomNonce64());
-      const commitmentHashes = positions.map((pos, i) => createCommitmentHash(pos, wagers[i], nonces[i]));
+      const salts = positions.map(() => randomSalt());
+      const commitmentHashes = positions.map((pos, i) => createCommitmentHash(hashDomain, marketId, signers[i].address, pos, wagers[i], salts[i]));
 
       // Move to reveal phase
       await time.increase(3000);
@@ -986,7 +1179,7 @@ describe("VPOP", function () {
           signer: signers[i],
           position: positions[i],
           wager: wagers[i],
-          nonce: nonces[i]
+          salt: salts[i]
         });
         const receipt = await tx.wait();
         const event = receipt?.logs[0];
@@ -1002,7 +1195,7 @@ describe("VPOP", function () {
           i+1,
           commitmentHashes[i],
           positions[i],
-          nonces[i]
+          salts[i]
         );
         const receipt = await tx.wait();
         const event = receipt?.logs[0];
@@ -1012,7 +1205,7 @@ describe("VPOP", function () {
       await time.increase(3601);
 
       // Calculate winning threshold
-      const threshold1 = await calculateWinningThreshold(vpop, marketId);
+      const threshold1 = await computeWinningThreshold(vpop, marketId);
       // Now resolve should succeed
       await vpop.resolve(marketId, threshold1);
       const marketConsensus = await vpop.marketConsensus(marketId);
@@ -1082,7 +1275,6 @@ describe("VPOP", function () {
         signer: owner,
         lowerBound: 0n,
         upperBound: 10n,
-        decimals: 0,
         minWager: ethers.parseEther("0.1"),
         decayFactor: 0, // zero decay factor
         commitDuration: 3600,
@@ -1099,8 +1291,8 @@ describe("VPOP", function () {
         ethers.parseEther("1"),
         ethers.parseEther("1")
       ];
-      const nonces = positions.map(() => randomNonce64());
-      const commitmentHashes = positions.map((pos, i) => createCommitmentHash(pos, wagers[i], nonces[i]));
+      const salts = positions.map(() => randomSalt());
+      const commitmentHashes = positions.map((pos, i) => createCommitmentHash(hashDomain, marketId, [owner, otherAccount, thirdAccount, owner][i].address, pos, wagers[i], salts[i]));
 
       // Submit all commitments
       for (let i = 0; i < 4; i++) {
@@ -1114,14 +1306,14 @@ describe("VPOP", function () {
       // Reveal all commitments
       for (let i = 0; i < 4; i++) {
         await vpop.connect([owner, otherAccount, thirdAccount, owner][i])
-          .reveal(marketId, i+1, commitmentHashes[i], positions[i], nonces[i]);
+          .reveal(marketId, i+1, commitmentHashes[i], positions[i], salts[i]);
       }
 
       // Move to resolution phase
       await time.increase(3601);
 
       // Calculate winning threshold
-      const threshold = await calculateWinningThreshold(vpop, marketId);
+      const threshold = await computeWinningThreshold(vpop, marketId);
 
       // Resolve market
       await vpop.resolve(marketId, threshold);
@@ -1151,6 +1343,173 @@ describe("VPOP", function () {
         expect(actualReceived).to.equal(expectedWinningsPerWinner);
       }
     });
+    it("should compute the winning threshold on-chain and auto-resolve", async function () {
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: owner,
+        lowerBound: 0n,
+        upperBound: 1000n,
+        minWager: ethers.parseEther("0.1"),
+        decayFactor: 0,
+        commitDuration: 3600,
+        revealDuration: 3600,
+        winningPercentile: 5000, // 50% of 5 reveals: ceil rank 3, floor rank would be 2
+        ipfsHash: "ipfs://auto-resolve-test"
+      });
+
+      const signers = [owner, otherAccount, thirdAccount, owner, otherAccount];
+      const positions = [100n, 400n, 500n, 600n, 900n];
+      const wager = ethers.parseEther("1");
+      const salts = positions.map(() => randomSalt());
+      for (let i = 0; i < positions.length; i++) {
+        await createCommit({
+          vpopContract: vpop,
+          marketId,
+          signer: signers[i],
+          position: positions[i],
+          wager,
+          salt: salts[i]
+        });
+      }
+
+      const consensusModule = VPOPConsensus__factory.connect(await vpop.consensusModule(), owner);
+      await expect(consensusModule.getWinningThreshold(marketId)).to.be.revertedWith("No revealed commitments to resolve");
+
+      await time.increase(3601);
+      for (let i = 0; i < positions.length; i++) {
+        await vpop.reveal(
+          marketId,
+          i + 1,
+          createCommitmentHash(hashDomain, marketId, signers[i].address, positions[i], wager, salts[i]),
+          positions[i],
+          salts[i]
+        );
+      }
+
+      // Consensus is 500, distances are [400, 100, 0, 100, 400]; the 3rd smallest is 100
+      expect(await vpop.getTargetRank(marketId)).to.equal(3);
+      const threshold = await consensusModule.getWinningThreshold(marketId);
+      expect(threshold).to.equal(100n);
+      expect(threshold).to.equal(await computeWinningThreshold(vpop, marketId));
+
+      // Paginated distances cover the same revealed commitments
+      const firstPage = await consensusModule.getRevealedDistances(marketId, 0, 2);
+      const secondPage = await consensusModule.getRevealedDistances(marketId, 2, 10);
+      expect([...firstPage, ...secondPage]).to.deep.equal([400n, 100n, 0n, 100n, 400n]);
+      expect(await consensusModule.getRevealedDistances(marketId, 10, 10)).to.deep.equal([]);
+
+      await vpop.connect(thirdAccount).autoResolve(marketId);
+
+      const marketConsensus = await vpop.marketConsensus(marketId);
+      expect(marketConsensus.resolved).to.be.true;
+      expect(marketConsensus.winningThreshold).to.equal(threshold);
+      expect(marketConsensus.winningCommitments).to.equal(3);
+      await expect(vpop.autoResolve(marketId)).to.be.revertedWith("Market already resolved");
+    });
+
+    it("should compute a threshold resolve accepts for random commitment sets", async function () {
+      const consensusModule = VPOPConsensus__factory.connect(await vpop.consensusModule(), owner);
+      for (const winningPercentile of [1, 2500, 3333, 5000, 9999]) {
+        const marketId = await createMarket({
+          vpopContract: vpop,
+          signer: owner,
+          lowerBound: 0n,
+          upperBound: 10000n,
+          minWager: ethers.parseEther("0.1"),
+          decayFactor: 0,
+          winningPercentile,
+          ipfsHash: "ipfs://random-threshold-test"
+        });
+
+        const count = 7;
+        const positions = Array.from({ length: count }, () => BigInt(Math.floor(Math.random() * 10001)));
+        const wagers = positions.map(() => ethers.parseEther("0.1") * BigInt(1 + Math.floor(Math.random() * 5)));
+        const salts = positions.map(() => randomSalt());
+        for (let i = 0; i < count; i++) {
+          await createCommit({ vpopContract: vpop, marketId, signer: owner, position: positions[i], wager: wagers[i], salt: salts[i] });
+        }
+        await time.increase(3601);
+        for (let i = 0; i < count; i++) {
+          await vpop.reveal(
+            marketId,
+            i + 1,
+            createCommitmentHash(hashDomain, marketId, owner.address, positions[i], wagers[i], salts[i]),
+            positions[i],
+            salts[i]
+          );
+        }
+
+        const threshold = await consensusModule.getWinningThreshold(marketId);
+        expect(threshold).to.equal(await computeWinningThreshold(vpop, marketId));
+        await vpop.resolve(marketId, threshold);
+        expect((await vpop.marketConsensus(marketId)).resolved).to.be.true;
+      }
+    });
+    it("should resolve in bounded batches with the same rank checks as resolve", async function () {
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: owner,
+        lowerBound: 0n,
+        upperBound: 1000n,
+        minWager: ethers.parseEther("0.1"),
+        decayFactor: 0,
+        winningPercentile: 5000,
+        ipfsHash: "ipfs://batch-resolve-test"
+      });
+
+      const positions = [100n, 400n, 500n, 600n, 900n, 700n];
+      const wager = ethers.parseEther("1");
+      const salts = positions.map(() => randomSalt());
+      for (let i = 0; i < positions.length; i++) {
+        await createCommit({ vpopContract: vpop, marketId, signer: owner, position: positions[i], wager, salt: salts[i] });
+      }
+      await time.increase(3601);
+      // Leave the last commitment unrevealed
+      for (let i = 0; i < positions.length - 1; i++) {
+        await vpop.reveal(
+          marketId,
+          i + 1,
+          createCommitmentHash(hashDomain, marketId, owner.address, positions[i], wager, salts[i]),
+          positions[i],
+          salts[i]
+        );
+      }
+
+      await expect(vpop.resolveBatch(marketId, 100n, 2)).to.be.revertedWith("Market not ready for resolution");
+      await time.increase(3601);
+
+      await expect(vpop.resolveBatch(marketId, 100n, 0)).to.be.revertedWith("Batch size must be greater than 0");
+
+      // A competing wrong proposal does not disturb the progress of the right one
+      await vpop.connect(otherAccount).resolveBatch(marketId, 0n, 4);
+
+      const gasUsed: bigint[] = [];
+      for (const expectedProcessed of [2n, 4n]) {
+        const tx = await vpop.resolveBatch(marketId, 100n, 2);
+        await expect(tx)
+          .to.emit(vpop, "ResolutionProgressed")
+          .withArgs(marketId, 100n, expectedProcessed, 6n);
+        gasUsed.push((await tx.wait()).gasUsed);
+      }
+      expect((await vpop.resolutionProgress(marketId, 100n)).processedCommitments).to.equal(4n);
+      expect((await vpop.marketConsensus(marketId)).resolved).to.be.false;
+
+      // The wrong proposal fails its rank check once fully counted
+      await expect(vpop.resolveBatch(marketId, 0n, 10)).to.be.revertedWith("PWT too low or non-existent rank");
+
+      await vpop.resolveBatch(marketId, 100n, 2);
+      const marketConsensus = await vpop.marketConsensus(marketId);
+      expect(marketConsensus.resolved).to.be.true;
+      expect(marketConsensus.winningThreshold).to.equal(100n);
+      expect(marketConsensus.winningCommitments).to.equal(3n);
+      expect(marketConsensus.winningWagers).to.equal(wager * 3n);
+      expect((await vpop.resolutionProgress(marketId, 100n)).processedCommitments).to.equal(0n);
+
+      // Batch cost depends on the batch size, not on the market size
+      for (const gas of gasUsed) {
+        expect(gas).to.be.lt(150000n);
+      }
+    });
   });
 
   describe("Claim Winnings", function () {
@@ -1163,9 +1522,19 @@ describe("VPOP", function () {
         0,
         ethers.parseEther("0.1"),
         1,
+        0,
+        0,
+        0,
         3600,
         3600,
         2000, // 20% winningPercentile
+        0,
+        0,
+        0,
+        0,
+        0,
+        200,
+        ethers.ZeroAddress,
         "ipfs://threshold-test"
       );
       const marketId = await vpop.getMarketCount();
@@ -1185,8 +1554,8 @@ describe("VPOP", function () {
         ethers.parseEther("2"),
         ethers.parseEther("1")
       ];
-      const nonces = positions.map(() => randomNonce64());
-      const commitmentHashes = positions.map((pos, i) => createCommitmentHash(pos, wagers[i], nonces[i]));
+      const salts = positions.map(() => randomSalt());
+      const commitmentHashes = positions.map((pos, i) => createCommitmentHash(hashDomain, marketId, [owner, otherAccount, thirdAccount, owner, otherAccount][i].address, pos, wagers[i], salts[i]));
 
       // Submit all commitments
       for (let i = 0; i < 5; i++) {
@@ -1200,7 +1569,7 @@ describe("VPOP", function () {
       // Reveal all commitments
       for (let i = 0; i < 5; i++) {
         await vpop.connect([owner, otherAccount, thirdAccount, owner, otherAccount][i])
-          .reveal(marketId, i+1, commitmentHashes[i], positions[i], nonces[i]);
+          .reveal(marketId, i+1, commitmentHashes[i], positions[i], salts[i]);
       }
 
       // Verify all commitments have been revealed
@@ -1211,7 +1580,7 @@ describe("VPOP", function () {
       await time.increase(3601);
 
       // Calculate winning threshold
-      const threshold2 = await calculateWinningThreshold(vpop, marketId);
+      const threshold2 = await computeWinningThreshold(vpop, marketId);
 
       // Resolve market
       await vpop.resolve(marketId, threshold2);
@@ -1267,17 +1636,27 @@ describe("VPOP", function () {
         0,
         ethers.parseEther("0.1"),
         1,
+        0,
+        0,
+        0,
         3600,
         3600,
         2000, // 20% winningPercentile
+        0,
+        0,
+        0,
+        0,
+        0,
+        200,
+        ethers.ZeroAddress,
         "ipfs://threshold-test"
       );
       const marketId = await vpop.getMarketCount();
 
       const position = 1500n;
       const wager = ethers.parseEther("1");
-      const nonce = randomNonce64();
-      const commitmentHash = createCommitmentHash(position, wager, nonce);
+      const salt = randomSalt();
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, owner.address, position, wager, salt);
 
       const tx = await createCommit({
         vpopContract: vpop,
@@ -1285,13 +1664,13 @@ describe("VPOP", function () {
         signer: owner,
         position,
         wager,
-        nonce
+        salt
       });
       const receipt = await tx.wait();
       const event = receipt?.logs[0];
 
       await time.increase(3601);
-      await vpop.reveal(marketId, 1, commitmentHash, position, nonce);
+      await vpop.reveal(marketId, 1, commitmentHash, position, salt);
 
       // Try to claim before resolution
       await expect(vpop.claim(marketId, 1))
@@ -1307,9 +1686,19 @@ describe("VPOP", function () {
         0,
         ethers.parseEther("0.1"),
         1,
+        0,
+        0,
+        0,
         3600,
         3600,
         2000, // 20% winningPercentile
+        0,
+        0,
+        0,
+        0,
+        0,
+        200,
+        ethers.ZeroAddress,
         "ipfs://threshold-test"
       );
       const marketId = await vpop.getMarketCount();
@@ -1317,8 +1706,8 @@ describe("VPOP", function () {
 
       const position = 1500n;
       const wager = ethers.parseEther("1");
-      const nonce = randomNonce64();
-      const commitmentHash = createCommitmentHash(position, wager, nonce);
+      const salt = randomSalt();
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, owner.address, position, wager, salt);
 
       const tx = await createCommit({
         vpopContract: vpop,
@@ -1326,15 +1715,15 @@ describe("VPOP", function () {
         signer: owner,
         position,
         wager,
-        nonce
+        salt
       });
       const receipt = await tx.wait();
       const event = receipt?.logs[0];
 
       const position2 = 1600n;
       const wager2 = ethers.parseEther("1");
-      const nonce2 = randomNonce64();
-      const commitmentHash2 = createCommitmentHash(position2, wager2, nonce2);
+      const salt2 = randomSalt();
+      const commitmentHash2 = createCommitmentHash(hashDomain, marketId, owner.address, position2, wager2, salt2);
 
       const tx2 = await createCommit({
         vpopContract: vpop,
@@ -1342,15 +1731,15 @@ describe("VPOP", function () {
         signer: owner,
         position: position2,
         wager: wager2,
-        nonce: nonce2
+        salt: salt2
       });
       const receipt2 = await tx2.wait();
       const event2 = receipt2?.logs[0];
 
       await time.increase(3601);
-      await vpop.reveal(marketId, 2, commitmentHash2, position2, nonce2);
+      await vpop.reveal(marketId, 2, commitmentHash2, position2, salt2);
       await time.increase(7201); // Move past reveal phase
-      const winningThreshold = await calculateWinningThreshold(vpop, marketId);
+      const winningThreshold = await computeWinningThreshold(vpop, marketId);
       await vpop.resolve(marketId, winningThreshold);
       // Try to claim unrevealed commitment
       await expect(vpop.claim(marketId, 1))
@@ -1364,7 +1753,6 @@ describe("VPOP", function () {
         signer: owner,
         lowerBound: 0n,
         upperBound: 1000n,
-        decimals: 1,
         minWager: ethers.parseEther("0.1"),
         decayFactor: 0,
         commitDuration: 3600,
@@ -1376,8 +1764,8 @@ describe("VPOP", function () {
       // Create commitment parameters
       const position = 500n;
       const wager = ethers.parseEther("1.0");
-      const nonce = randomNonce64();
-      const commitmentHash = createCommitmentHash(position, wager, nonce);
+      const salt = randomSalt();
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, owner.address, position, wager, salt);
 
       // Create commitment as owner
       const tx = await createCommit({
@@ -1386,7 +1774,7 @@ describe("VPOP", function () {
         signer: owner,
         position,
         wager,
-        nonce
+        salt
       });
       const receipt = await tx.wait();
 
@@ -1394,13 +1782,13 @@ describe("VPOP", function () {
       await time.increase(3601);
 
       // Reveal commitment
-      await vpop.reveal(marketId, 1, commitmentHash, position, nonce);
+      await vpop.reveal(marketId, 1, commitmentHash, position, salt);
 
       // Move to resolution phase
       await time.increase(3601);
 
       // Calculate winning threshold and resolve market
-      const threshold = await calculateWinningThreshold(vpop, marketId);
+      const threshold = await computeWinningThreshold(vpop, marketId);
       await vpop.resolve(marketId, threshold);
 
       // Get initial balances
@@ -1448,6 +1836,8 @@ describe("VPOP", function () {
         commitDuration: 3600,
         revealDuration: 3600,
         winningPercentile: 50,
+        creatorFeeRate: 200,
+        creatorFeeRecipient: ethers.ZeroAddress,
         ipfsHash: "QmTest123"
       };
       
@@ -1458,9 +1848,19 @@ describe("VPOP", function () {
         marketParams.decimals,
         marketParams.minWager,
         marketParams.decayFactor,
+        0,
+        0,
+        0,
         marketParams.commitDuration,
         marketParams.revealDuration,
         marketParams.winningPercentile,
+        0,
+        0,
+        0,
+        0,
+        0,
+        marketParams.creatorFeeRate,
+        marketParams.creatorFeeRecipient,
         marketParams.ipfsHash
       );
 
@@ -1502,9 +1902,19 @@ describe("VPOP", function () {
         2,
         0, // ethers.parseEther("0.1"),
         20,
+        0,
+        0,
+        0,
         3600,
         3600,
         50,
+        0,
+        0,
+        0,
+        0,
+        0,
+        200,
+        ethers.ZeroAddress,
         "QmTest123"
       );
 
@@ -1513,9 +1923,9 @@ describe("VPOP", function () {
       
       // Create commitment parameters
       const position = 5000n;
-      const nonce = randomNonce64();
+      const salt = randomSalt();
       const wager = ethers.parseEther("0.5");
-      const commitmentHash = createCommitmentHash(position, wager, nonce);
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, owner.address, position, wager, salt);
       
       // Test each whitelisted address
       for (const address of addresses) {
@@ -1530,7 +1940,7 @@ describe("VPOP", function () {
           signer: signer,
           position,
           wager,
-          nonce,
+          salt,
           proof
         });
         const receipt = await tx.wait();
@@ -1555,7 +1965,6 @@ describe("VPOP", function () {
         signer: owner,
         lowerBound: 1000n,
         upperBound: 10000n,
-        decimals: 2,
         minWager: 0n,
         decayFactor: 20,
         ipfsHash: "QmTest123"
@@ -1597,11 +2006,11 @@ describe("VPOP", function () {
 
       // Create commitment parameters
       const position = 5000n;
-      const nonce = randomNonce64();
+      const salt = randomSalt();
       const wager = 0n; // Zero wager for market initialization
       const whitelistWager = 100000n; // Contract overrides wager to this value for whitelisted markets
       // For whitelisted markets, hash must be calculated with the overridden wager since that's what gets stored
-      const commitmentHash = createCommitmentHash(position, whitelistWager, nonce);
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, owner.address, position, whitelistWager, salt);
 
       // Create proof for whitelist
       const leaf = ethers.keccak256(ethers.solidityPacked(["address"], [owner.address]));
@@ -1614,7 +2023,7 @@ describe("VPOP", function () {
         signer: owner,
         position,
         wager,
-        nonce,
+        salt,
         proof
       });
       const receipt = await tx.wait();
@@ -1623,7 +2032,7 @@ describe("VPOP", function () {
       await time.increase(3601);
 
       // Reveal commitment (use whitelistWager since that's what the contract stored)
-      await vpop.reveal(marketId, 1, commitmentHash, position, nonce);
+      await vpop.reveal(marketId, 1, commitmentHash, position, salt);
 
       // Verify commitment was revealed
       const commitment = await vpop.commitments(marketId, 1);
@@ -1634,7 +2043,7 @@ describe("VPOP", function () {
       await time.increase(3601);
 
       // Calculate winning threshold
-      const threshold3 = await calculateWinningThreshold(vpop, marketId);
+      const threshold3 = await computeWinningThreshold(vpop, marketId);
 
       // Resolve market
       await vpop.resolve(marketId, threshold3);
@@ -1661,7 +2070,6 @@ describe("VPOP", function () {
         token: tokenAddress,
         lowerBound: 1000n,
         upperBound: 10000n,
-        decimals: 2,
         minWager: 0n,
         decayFactor: 20,
         ipfsHash: "QmTest123"
@@ -1714,11 +2122,11 @@ describe("VPOP", function () {
       
       // Create commitment parameters
       const position = 5000n;
-      const nonce = randomNonce64();
+      const salt = randomSalt();
       const wager = 0n; // Zero wager for market initialization
       const whitelistWager = 100000n; // Contract overrides wager to this value for whitelisted markets
       // For whitelisted markets, hash must be calculated with the overridden wager since that's what gets stored
-      const commitmentHash = createCommitmentHash(position, whitelistWager, nonce);
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, owner.address, position, whitelistWager, salt);
 
       // Create proof for whitelist
       const leaf = ethers.keccak256(ethers.solidityPacked(["address"], [owner.address]));
@@ -1731,26 +2139,26 @@ describe("VPOP", function () {
         signer: owner,
         position,
         wager,
-        nonce,
+        salt,
         proof
       });
       const receipt = await tx.wait();
 
       // Try to reveal before reveal phase
       await expect(
-        vpop.reveal(marketId, 1, commitmentHash, position, nonce)
+        vpop.reveal(marketId, 1, commitmentHash, position, salt)
       ).to.be.revertedWith("Not in reveal phase");
       // Move to reveal phase
       await time.increase(3601);
 
       // Reveal commitment (use whitelistWager since that's what the contract stored)
-      await vpop.reveal(marketId, 1, commitmentHash, position, nonce);
+      await vpop.reveal(marketId, 1, commitmentHash, position, salt);
 
       // Move to resolution phase
       await time.increase(3601);
 
       // Calculate winning threshold
-      const threshold4 = await calculateWinningThreshold(vpop, marketId);
+      const threshold4 = await computeWinningThreshold(vpop, marketId);
 
       // Resolve market
       await vpop.resolve(marketId, threshold4);
@@ -1778,7 +2186,7 @@ describe("VPOP", function () {
     const marketCreateFee = ethers.parseEther("0.1"); // 0.1 ETH market creation fee
 
     it("Should allow owner to update market creation fee", async function () {
-      const tx = await vpop.updatePlatformSettings(800, 200, 200, marketCreateFee, true);
+      const tx = await updatePlatformSettings(vpop, platformSplit(800, 200), 200, marketCreateFee, true);
       await tx.wait();
       
       const newFee = await vpop.marketCreateFee();
@@ -1787,12 +2195,12 @@ describe("VPOP", function () {
 
     it("Should not allow non-owner to update market creation fee", async function () {
       await expect(
-        vpop.connect(otherAccount).updatePlatformSettings(800, 200, 200, marketCreateFee, true)
+        vpop.connect(otherAccount).queuePlatformSettings(platformSplit(800, 200), 200, marketCreateFee, true)
       ).to.be.reverted;
     });
 
     it("Should allow market creation when correct fee is sent", async function () {
-      const initialOwnerBalance = await ethers.provider.getBalance(owner.address);
+      const initialOwnerFees = await vpop.accruedFees(owner.address, ethers.ZeroAddress);
       
       const tx = await vpop.connect(otherAccount).initializeMarket(
         ethers.ZeroAddress,
@@ -1801,18 +2209,28 @@ describe("VPOP", function () {
         1,
         ethers.parseEther("0.1"),
         20,
-        3600,
-        3600,
+        0,
+        0,
+        0,
+        3600,
+        3600,
         50,
+        0,
+        0,
+        0,
+        0,
+        0,
+        200,
+        ethers.ZeroAddress,
         "QmTest123",
         { value: marketCreateFee }
       );
       
       const receipt = await tx.wait();
-      const finalOwnerBalance = await ethers.provider.getBalance(owner.address);
+      const finalOwnerFees = await vpop.accruedFees(owner.address, ethers.ZeroAddress);
 
-      // Check that owner received the fee
-      expect(finalOwnerBalance - initialOwnerBalance).to.equal(marketCreateFee);
+      // Check that the fee was accrued to the owner
+      expect(finalOwnerFees - initialOwnerFees).to.equal(marketCreateFee);
       
     });
 
@@ -1827,9 +2245,19 @@ describe("VPOP", function () {
           1,
           ethers.parseEther("0.1"),
           20,
+          0,
+          0,
+          0,
           3600,
           3600,
           50,
+          0,
+          0,
+          0,
+          0,
+          0,
+          200,
+          ethers.ZeroAddress,
           "QmTest123",
           { value: insufficientFee }
         )
@@ -1845,9 +2273,19 @@ describe("VPOP", function () {
           1,
           ethers.parseEther("0.1"),
           20,
+          0,
+          0,
+          0,
           3600,
           3600,
           50,
+          0,
+          0,
+          0,
+          0,
+          0,
+          200,
+          ethers.ZeroAddress,
           "QmTest123"
         )
       ).to.be.revertedWith("Market create fee not met");
@@ -1855,7 +2293,7 @@ describe("VPOP", function () {
 
     it("Should allow market creation when fee is set to 0", async function () {
       // First set fee to 0
-      await vpop.updatePlatformSettings(800, 200, 200, 0, true);
+      await updatePlatformSettings(vpop, platformSplit(800, 200), 200, 0, true);
       
       // Get initial market count
       const initialMarketCount = await vpop.getMarketCount();
@@ -1868,9 +2306,19 @@ describe("VPOP", function () {
         1,
         ethers.parseEther("0.1"),
         20,
+        0,
+        0,
+        0,
         3600,
         3600,
         50,
+        0,
+        0,
+        0,
+        0,
+        0,
+        200,
+        ethers.ZeroAddress,
         "QmTest123"
       );
       
@@ -1885,7 +2333,7 @@ describe("VPOP", function () {
   describe("Public Market Access", function () {
     it("Should allow public market creation when allowPublicMarkets is true", async function () {
       // Ensure allowPublicMarkets is true
-      await vpop.updatePlatformSettings(800, 200, 200, 0, true);
+      await updatePlatformSettings(vpop, platformSplit(800, 200), 200, 0, true);
       
       // Get initial market count
       const initialMarketCount = await vpop.getMarketCount();
@@ -1898,9 +2346,19 @@ describe("VPOP", function () {
         1,
         ethers.parseEther("0.1"),
         20,
+        0,
+        0,
+        0,
         3600,
         3600,
         50,
+        0,
+        0,
+        0,
+        0,
+        0,
+        200,
+        ethers.ZeroAddress,
         "QmTest123"
       );
       
@@ -1913,7 +2371,7 @@ describe("VPOP", function () {
 
     it("Should only allow owner to create markets when allowPublicMarkets is false", async function () {
       // Set allowPublicMarkets to false
-      await vpop.updatePlatformSettings(800, 200, 200, 0, false);
+      await updatePlatformSettings(vpop, platformSplit(800, 200), 200, 0, false);
       
       // Try creating market as non-owner
       await expect(
@@ -1924,9 +2382,19 @@ describe("VPOP", function () {
           1,
           ethers.parseEther("0.1"),
           20,
+          0,
+          0,
+          0,
           3600,
           3600,
           50,
+          0,
+          0,
+          0,
+          0,
+          0,
+          200,
+          ethers.ZeroAddress,
           "QmTest123"
         )
       ).to.be.revertedWith("Only owner can create markets");
@@ -1941,9 +2409,19 @@ describe("VPOP", function () {
         1,
         ethers.parseEther("0.1"),
         20,
+        0,
+        0,
+        0,
         3600,
         3600,
         50,
+        0,
+        0,
+        0,
+        0,
+        0,
+        200,
+        ethers.ZeroAddress,
         "QmTest123"
       );
       
@@ -1980,9 +2458,9 @@ describe("VPOP", function () {
 
       // Create commitment parameters
       const position = 5000n;
-      const nonce = randomNonce64();
+      const salt = randomSalt();
       const wager = ethers.parseEther("1.0");
-      const commitmentHash = createCommitmentHash(position, wager, nonce);
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, otherAccount.address, position, wager, salt);
 
       // Mint tokens to user
       await testTokenPermit.mint(otherAccount.address, wager);
@@ -1990,18 +2468,16 @@ describe("VPOP", function () {
       // Generate permit signature using blockchain time
       const currentTime = await time.latest();
       const deadline = currentTime + 3600; // 1 hour from now
-      const permitSig = await generatePermitSignature(
-        testTokenPermit,
+      const permitSig = await signPermit(
         otherAccount,
+        await testTokenPermit.getAddress(),
         await vpop.getAddress(),
         wager,
         deadline
       );
 
       // Get initial balances
-      const initialOwnerBalance = await testTokenPermit.balanceOf(owner.address);
-      const initialCreatorBalance = await testTokenPermit.balanceOf(owner.address);
-      const initialApeOwnerBalance = await testTokenPermit.balanceOf("0x5AC40A1175715F1c27e3FEAa8C79664040717679");
+      const tokenAddress = await testTokenPermit.getAddress();
       const initialUserBalance = await testTokenPermit.balanceOf(otherAccount.address);
 
       // Execute commitWithPermit
@@ -2026,23 +2502,23 @@ describe("VPOP", function () {
       expect(commitment.owner).to.equal(otherAccount.address);
       expect(commitment.revealed).to.be.false;
 
-      // Verify fees were distributed correctly
-      const finalOwnerBalance = await testTokenPermit.balanceOf(owner.address);
-      const finalApeOwnerBalance = await testTokenPermit.balanceOf("0x5AC40A1175715F1c27e3FEAa8C79664040717679");
+      // Verify fees were accrued correctly
       const finalUserBalance = await testTokenPermit.balanceOf(otherAccount.address);
 
       // Get current fee rates from contract (they were updated in earlier tests)
-      const platformFeeRate = await vpop.platformFeeRate();
-      const creatorFeeRate = await vpop.creatorFeeRate();
-      const apeFeeRate = await vpop.apeFeeRate();
+      const [platformSplitFee, apeSplitFee] = await vpop.getFeeSplit(await vpop.getCurrentFeeSplitId());
+      const platformFeeRate = platformSplitFee.rate;
+      const { creatorFeeRate } = await vpop.getMarket(marketId);
+      const apeFeeRate = apeSplitFee.rate;
       
       // Calculate expected fees using actual contract rates
       const platformFee = (wager * platformFeeRate) / 10000n;
       const creatorFee = (wager * creatorFeeRate) / 10000n; 
       const apeFee = (wager * apeFeeRate) / 10000n;
 
-      expect(finalOwnerBalance - initialOwnerBalance).to.equal(platformFee + creatorFee); // owner is also creator
-      expect(finalApeOwnerBalance - initialApeOwnerBalance).to.equal(apeFee);
+      expect(await vpop.accruedFees(owner.address, tokenAddress)).to.equal(platformFee); // creator fee is escrowed until resolution
+      expect((await vpop.marketConsensus(marketId)).escrowedCreatorFees).to.equal(creatorFee);
+      expect(await vpop.accruedFees(apeAddress, tokenAddress)).to.equal(apeFee);
       expect(finalUserBalance).to.equal(initialUserBalance - wager);
 
       // Verify total wagers and winnings
@@ -2065,9 +2541,9 @@ describe("VPOP", function () {
       });
 
       const position = 5000n;
-      const nonce = randomNonce64();
+      const salt = randomSalt();
       const wager = ethers.parseEther("1.0");
-      const commitmentHash = createCommitmentHash(position, wager, nonce);
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, otherAccount.address, position, wager, salt);
       const currentTime = await time.latest();
       const deadline = currentTime + 3600;
 
@@ -2100,9 +2576,9 @@ describe("VPOP", function () {
       });
 
       const position = 5000n;
-      const nonce = randomNonce64();
+      const salt = randomSalt();
       const wager = ethers.parseEther("1.0");
-      const commitmentHash = createCommitmentHash(position, wager, nonce);
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, otherAccount.address, position, wager, salt);
 
       await testTokenPermit.mint(otherAccount.address, wager);
 
@@ -2138,18 +2614,18 @@ describe("VPOP", function () {
       });
 
       const position = 5000n;
-      const nonce = randomNonce64();
+      const salt = randomSalt();
       const wager = ethers.parseEther("1.0");
-      const commitmentHash = createCommitmentHash(position, wager, nonce);
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, otherAccount.address, position, wager, salt);
 
       await testTokenPermit.mint(otherAccount.address, wager);
 
       // Use expired deadline (1 second ago)
       const currentTime = await time.latest();
       const expiredDeadline = currentTime - 1;
-      const permitSig = await generatePermitSignature(
-        testTokenPermit,
+      const permitSig = await signPermit(
         otherAccount,
+        await testTokenPermit.getAddress(),
         await vpop.getAddress(),
         wager,
         expiredDeadline
@@ -2183,7 +2659,7 @@ describe("VPOP", function () {
       });
 
       const position = 5000n;
-      const nonce = randomNonce64();
+      const salt = randomSalt();
       const wager = ethers.parseEther("1.0");
       const currentTime = await time.latest();
       const deadline = currentTime + 3600;
@@ -2192,7 +2668,7 @@ describe("VPOP", function () {
       await expect(
         vpop.connect(otherAccount).commitWithPermit(
           999n, // non-existent market
-          createCommitmentHash(position, wager, nonce),
+          createCommitmentHash(hashDomain, 999n, otherAccount.address, position, wager, salt),
           wager,
           [],
           deadline,
@@ -2207,7 +2683,7 @@ describe("VPOP", function () {
       await expect(
         vpop.connect(otherAccount).commitWithPermit(
           marketId,
-          createCommitmentHash(position, lowWager, nonce),
+          createCommitmentHash(hashDomain, marketId, otherAccount.address, position, lowWager, salt),
           lowWager,
           [],
           deadline,
@@ -2222,7 +2698,7 @@ describe("VPOP", function () {
       await expect(
         vpop.connect(otherAccount).commitWithPermit(
           marketId,
-          createCommitmentHash(position, wager, nonce),
+          createCommitmentHash(hashDomain, marketId, otherAccount.address, position, wager, salt),
           wager,
           [],
           deadline,
@@ -2230,7 +2706,7 @@ describe("VPOP", function () {
           ethers.ZeroHash,
           ethers.ZeroHash
         )
-      ).to.be.revertedWith("Commitment phase has ended");
+      ).to.be.revertedWith("Not in commit phase");
     });
 
     it("Should support full commit-reveal-resolve-claim flow with permit", async function () {
@@ -2250,18 +2726,18 @@ describe("VPOP", function () {
       });
 
       const position = 5000n;
-      const nonce = randomNonce64();
+      const salt = randomSalt();
       const wager = ethers.parseEther("1.0");
-      const commitmentHash = createCommitmentHash(position, wager, nonce);
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, otherAccount.address, position, wager, salt);
 
       // Mint tokens and commit with permit
       await testTokenPermit.mint(otherAccount.address, wager);
       
       const currentTime = await time.latest();
       const deadline = currentTime + 3600;
-      const permitSig = await generatePermitSignature(
-        testTokenPermit,
+      const permitSig = await signPermit(
         otherAccount,
+        await testTokenPermit.getAddress(),
         await vpop.getAddress(),
         wager,
         deadline
@@ -2280,11 +2756,11 @@ describe("VPOP", function () {
 
       // Move to reveal phase and reveal
       await time.increase(3601);
-      await vpop.connect(otherAccount).reveal(marketId, 1, commitmentHash, position, nonce);
+      await vpop.connect(otherAccount).reveal(marketId, 1, commitmentHash, position, salt);
 
       // Move to resolution phase and resolve
       await time.increase(3601);
-      const threshold = await calculateWinningThreshold(vpop, marketId);
+      const threshold = await computeWinningThreshold(vpop, marketId);
       await vpop.resolve(marketId, threshold);
 
       // Claim winnings
@@ -2296,6 +2772,1395 @@ describe("VPOP", function () {
       expect(balanceAfter).to.be.gt(balanceBefore);
     });
   });
+
+  describe("Market Cancellation", function () {
+    it("Should not allow cancelling before the reveal phase has ended", async function () {
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: owner,
+        lowerBound: 0n,
+        upperBound: 1000n,
+        decayFactor: 0,
+        ipfsHash: "ipfs://cancel-early"
+      });
+
+      await expect(vpop.cancelMarket(marketId)).to.be.revertedWith("Reveal phase has not ended");
+
+      // Still in reveal phase
+      await time.increase(3601);
+      await expect(vpop.cancelMarket(marketId)).to.be.revertedWith("Reveal phase has not ended");
+    });
+
+    it("Should cancel a market with no reveals and refund stakes and sponsorships", async function () {
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: owner,
+        lowerBound: 0n,
+        upperBound: 1000n,
+        decayFactor: 0,
+        ipfsHash: "ipfs://cancel-no-reveals"
+      });
+
+      const sponsorship = ethers.parseEther("2");
+      await vpop.connect(thirdAccount).addWinnings(marketId, sponsorship, { value: sponsorship });
+      expect(await vpop.sponsorships(marketId, thirdAccount.address)).to.equal(sponsorship);
+
+      const wager = ethers.parseEther("1");
+      await createCommit({
+        vpopContract: vpop,
+        marketId,
+        signer: otherAccount,
+        position: 500n,
+        wager,
+        salt: randomSalt()
+      });
+
+      // Nobody reveals
+      await time.increase(3600 * 2 + 2);
+
+      await expect(vpop.resolve(marketId, 0)).to.be.revertedWith("No revealed commitments to resolve");
+      await expect(vpop.claimRefund(marketId, 1)).to.be.revertedWith("Market not cancelled");
+
+      await expect(vpop.connect(thirdAccount).cancelMarket(marketId))
+        .to.emit(vpop, "MarketCancelled")
+        .withArgs(marketId, thirdAccount.address);
+
+      const marketConsensus = await vpop.marketConsensus(marketId);
+      expect(marketConsensus.cancelled).to.be.true;
+      await expect(vpop.cancelMarket(marketId)).to.be.revertedWith("Market already cancelled");
+      await expect(vpop.resolve(marketId, 0)).to.be.revertedWith("Market cancelled");
+      await expect(
+        vpop.addWinnings(marketId, sponsorship, { value: sponsorship })
+      ).to.be.revertedWith("Market cancelled");
+
+      // Refund goes to the commitment owner even when a third party claims it
+      // Refunds include the escrowed creator fee, so the creator is never paid for a cancelled market
+      const commitment = await vpop.commitments(marketId, 1);
+      expect(commitment.stake).to.equal(marketConsensus.totalWinnings - sponsorship);
+      expect(commitment.creatorFee).to.equal(marketConsensus.escrowedCreatorFees);
+      const refund = commitment.stake + commitment.creatorFee;
+      await expect(vpop.connect(thirdAccount).claimRefund(marketId, 1)).to.changeEtherBalances(
+        [otherAccount, vpop],
+        [refund, -refund]
+      );
+      await expect(vpop.claimRefund(marketId, 1)).to.be.revertedWith("Already claimed");
+      await expect(vpop.claimRefund(marketId, 2)).to.be.revertedWith("Commitment does not exist");
+
+      await expect(vpop.connect(thirdAccount).claimSponsorshipRefund(marketId))
+        .to.emit(vpop, "SponsorshipRefunded")
+        .withArgs(marketId, thirdAccount.address, sponsorship);
+      expect(await vpop.sponsorships(marketId, thirdAccount.address)).to.equal(0);
+      await expect(
+        vpop.connect(thirdAccount).claimSponsorshipRefund(marketId)
+      ).to.be.revertedWith("No sponsorship to refund");
+    });
+
+    it("Should only cancel a revealed market after the resolution grace period", async function () {
+      const TestToken = await ethers.getContractFactory("TestToken");
+      const token = await TestToken.deploy();
+      await token.waitForDeployment();
+
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: owner,
+        token: await token.getAddress(),
+        lowerBound: 0n,
+        upperBound: 1000n,
+        decayFactor: 0,
+        ipfsHash: "ipfs://cancel-grace"
+      });
+
+      const wager = ethers.parseEther("1");
+      await token.mint(otherAccount.address, wager);
+      await token.connect(otherAccount).approve(await vpop.getAddress(), wager);
+
+      const position = 500n;
+      const salt = randomSalt();
+      await createCommit({
+        vpopContract: vpop,
+        marketId,
+        signer: otherAccount,
+        position,
+        wager,
+        salt
+      });
+
+      await time.increase(3601);
+      await vpop.reveal(marketId, 1, createCommitmentHash(hashDomain, marketId, otherAccount.address, position, wager, salt), position, salt);
+      await time.increase(3601);
+
+      await expect(vpop.cancelMarket(marketId)).to.be.revertedWith("Market can still be resolved");
+
+      const gracePeriod = await vpop.RESOLUTION_GRACE_PERIOD();
+      await time.increase(gracePeriod);
+      await vpop.cancelMarket(marketId);
+
+      const commitment = await vpop.commitments(marketId, 1);
+      const refund = commitment.stake + commitment.creatorFee;
+      await expect(vpop.claimRefund(marketId, 1))
+        .to.emit(vpop, "RefundClaimed")
+        .withArgs(marketId, otherAccount.address, owner.address, 1, refund);
+      expect(await token.balanceOf(otherAccount.address)).to.equal(refund);
+      await expect(vpop.claim(marketId, 1)).to.be.revertedWith("Market not resolved");
+    });
+
+    it("Should not allow cancelling a resolved market", async function () {
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: owner,
+        lowerBound: 0n,
+        upperBound: 1000n,
+        decayFactor: 0,
+        ipfsHash: "ipfs://cancel-resolved"
+      });
+
+      const position = 500n;
+      const wager = ethers.parseEther("1");
+      const salt = randomSalt();
+      await createCommit({ vpopContract: vpop, marketId, signer: owner, position, wager, salt });
+      await time.increase(3601);
+      await vpop.reveal(marketId, 1, createCommitmentHash(hashDomain, marketId, owner.address, position, wager, salt), position, salt);
+      await vpop.resolve(marketId, 0);
+
+      await time.increase(3601 + 30 * 24 * 3600);
+      await expect(vpop.cancelMarket(marketId)).to.be.revertedWith("Market already resolved");
+    });
+  });
+
+  describe("Market Phases", function () {
+    const phaseOf = async (marketId: bigint) => toMarketPhase(await vpop.getMarketPhase(marketId));
+
+    it("Should move through the phases with inclusive commit and reveal ends", async function () {
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: owner,
+        lowerBound: 0n,
+        upperBound: 1000n,
+        decayFactor: 0,
+        ipfsHash: "ipfs://phases"
+      });
+      const market = await vpop.getMarket(marketId);
+      const [commitStart, commitEnd, revealEnd] = await vpop.getPhaseTimestamps(marketId);
+      expect(commitStart).to.equal(market.createdAt);
+      expect(commitEnd).to.equal(market.createdAt + market.commitDuration);
+      expect(revealEnd).to.equal(commitEnd + market.revealDuration);
+      expect(await phaseOf(marketId)).to.equal(MarketPhase.Commit);
+
+      // The last second of each phase still belongs to it
+      const salt = randomSalt();
+      const wager = ethers.parseEther("1");
+      await time.setNextBlockTimestamp(commitEnd);
+      await createCommit({ vpopContract: vpop, marketId, signer: otherAccount, position: 500n, wager, salt });
+      expect(await phaseOf(marketId)).to.equal(MarketPhase.Commit);
+      await expect(
+        vpop.connect(thirdAccount).commit(marketId, ethers.ZeroHash, wager, [], { value: wager })
+      ).to.be.revertedWith("Not in commit phase");
+      expect(await phaseOf(marketId)).to.equal(MarketPhase.Reveal);
+
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, otherAccount.address, 500n, wager, salt);
+      await time.setNextBlockTimestamp(revealEnd);
+      await vpop.connect(otherAccount).reveal(marketId, 1, commitmentHash, 500n, salt);
+      expect(await phaseOf(marketId)).to.equal(MarketPhase.Reveal);
+      await time.increase(1);
+      expect(await phaseOf(marketId)).to.equal(MarketPhase.AwaitingResolution);
+
+      await vpop.resolve(marketId, 0);
+      expect(await phaseOf(marketId)).to.equal(MarketPhase.Resolved);
+      await expect(vpop.getMarketPhase(9999)).to.be.revertedWith("Market does not exist");
+    });
+
+    it("Should keep a scheduled market closed until its commit start", async function () {
+      const commitStart = BigInt(await time.latest()) + 86400n;
+      await expect(
+        createMarket({ vpopContract: vpop, signer: owner, commitStart: BigInt(await time.latest()) })
+      ).to.be.revertedWith("Commit start must not be in the past");
+
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: owner,
+        lowerBound: 0n,
+        upperBound: 1000n,
+        decayFactor: 5000,
+        commitStart,
+        ipfsHash: "ipfs://scheduled"
+      });
+      const [start, commitEnd, revealEnd] = await vpop.getPhaseTimestamps(marketId);
+      expect(start).to.equal(commitStart);
+      expect(commitEnd).to.equal(commitStart + 3600n);
+      expect(revealEnd).to.equal(commitEnd + 3600n);
+      expect((await vpop.getMarket(marketId)).createdAt).to.be.lessThan(commitStart);
+      expect(await phaseOf(marketId)).to.equal(MarketPhase.Scheduled);
+
+      const wager = ethers.parseEther("1");
+      await expect(
+        vpop.connect(otherAccount).commit(marketId, ethers.ZeroHash, wager, [], { value: wager })
+      ).to.be.revertedWith("Not in commit phase");
+      await expect(vpop.cancelMarket(marketId)).to.be.revertedWith("Reveal phase has not ended");
+
+      // Decay starts at the commit start, not at creation
+      await time.setNextBlockTimestamp(commitStart);
+      await vpop.connect(otherAccount).commit(marketId, ethers.id("first"), wager, [], { value: wager });
+      await time.setNextBlockTimestamp(commitStart + 1800n);
+      await vpop.connect(otherAccount).commit(marketId, ethers.id("second"), wager, [], { value: wager });
+      expect((await vpop.commitments(marketId, 1)).weight).to.equal(wager);
+      expect((await vpop.commitments(marketId, 2)).weight).to.equal(wager * 3n / 4n);
+    });
+
+    it("Should let the creator edit the metadata of a scheduled market", async function () {
+      const commitStart = BigInt(await time.latest()) + 3600n;
+      const marketId = await createMarket({ vpopContract: vpop, signer: owner, commitStart, ipfsHash: "ipfs://draft" });
+
+      await expect(
+        vpop.connect(otherAccount).updateMarketMetadata(marketId, "ipfs://hijacked")
+      ).to.be.revertedWith("Only the creator can update metadata");
+      await expect(vpop.updateMarketMetadata(marketId, "")).to.be.revertedWith("IPFS hash cannot be empty");
+      await expect(vpop.updateMarketMetadata(marketId, "ipfs://final"))
+        .to.emit(vpop, "MarketMetadataUpdated")
+        .withArgs(marketId, "ipfs://final");
+      expect((await vpop.getMarket(marketId)).ipfsHash).to.equal("ipfs://final");
+
+      await time.increaseTo(commitStart);
+      expect(await phaseOf(marketId)).to.equal(MarketPhase.Commit);
+      await expect(
+        vpop.updateMarketMetadata(marketId, "ipfs://late")
+      ).to.be.revertedWith("Market is no longer scheduled");
+    });
+
+    it("Should reject every entry point outside its phase", async function () {
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: owner,
+        lowerBound: 0n,
+        upperBound: 1000n,
+        decayFactor: 0,
+        ipfsHash: "ipfs://phase-guards"
+      });
+      const salt = randomSalt();
+      const wager = ethers.parseEther("1");
+      await createCommit({ vpopContract: vpop, marketId, signer: otherAccount, position: 500n, wager, salt });
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, otherAccount.address, 500n, wager, salt);
+
+      // Commit phase
+      await expect(vpop.reveal(marketId, 1, commitmentHash, 500n, salt)).to.be.revertedWith("Not in reveal phase");
+      await expect(vpop.resolve(marketId, 0)).to.be.revertedWith("Market not ready for resolution");
+      await expect(vpop.claim(marketId, 1)).to.be.revertedWith("Market not resolved");
+      await expect(vpop.cancelMarket(marketId)).to.be.revertedWith("Reveal phase has not ended");
+
+      // Awaiting resolution, nobody revealed
+      await time.increase(3600 * 2 + 2);
+      expect(await phaseOf(marketId)).to.equal(MarketPhase.AwaitingResolution);
+      await expect(vpop.reveal(marketId, 1, commitmentHash, 500n, salt)).to.be.revertedWith("Not in reveal phase");
+      await expect(
+        vpop.commit(marketId, ethers.ZeroHash, wager, [], { value: wager })
+      ).to.be.revertedWith("Not in commit phase");
+      await expect(vpop.claimRefund(marketId, 1)).to.be.revertedWith("Market not cancelled");
+
+      await vpop.cancelMarket(marketId);
+      expect(await phaseOf(marketId)).to.equal(MarketPhase.Cancelled);
+      await expect(vpop.claim(marketId, 1)).to.be.revertedWith("Market not resolved");
+
+      // Markets that do not exist have no phase
+      await expect(vpop.addWinnings(9999, 1, { value: 1 })).to.be.revertedWith("Market does not exist");
+      await expect(vpop.claimRefund(9999, 1)).to.be.revertedWith("Market does not exist");
+    });
+  });
+
+  describe("Decay Curves", function () {
+    const wager = ethers.parseEther("1");
+
+    // Creates a market opening shortly and commits at each offset into its commit phase,
+    // returning the weight of each commitment
+    const weightsAt = async (curve: DecayCurve, decayFactor: number, decayParameter: number, offsets: number[]) => {
+      const commitStart = BigInt(await time.latest()) + 100n;
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: owner,
+        decayFactor,
+        decayCurve: curve,
+        decayParameter,
+        commitStart,
+        ipfsHash: "ipfs://decay"
+      });
+      const weights: bigint[] = [];
+      for (const offset of offsets) {
+        await time.setNextBlockTimestamp(commitStart + BigInt(offset));
+        await vpop.connect(otherAccount).commit(marketId, ethers.ZeroHash, wager, [], { value: wager });
+        const { totalCommitments } = await vpop.marketConsensus(marketId);
+        weights.push((await vpop.commitments(marketId, totalCommitments)).weight);
+      }
+      return weights;
+    };
+
+    it("Should halve the weight every half-life on an exponential curve", async function () {
+      // decayFactor does not apply to the exponential curve
+      expect(await weightsAt(DecayCurve.Exponential, 5000, 600, [0, 600, 900, 3600])).to.deep.equal([
+        wager,
+        wager / 2n,
+        wager * 3n / 8n, // halfway through the second half-life
+        wager / 64n
+      ]);
+    });
+
+    it("Should lose weight in steps on a step curve", async function () {
+      // Steps of 25% of a one hour commit phase, losing 50% of the weight by its end
+      expect(await weightsAt(DecayCurve.Step, 5000, 2500, [899, 900, 2699, 3600])).to.deep.equal([
+        wager,
+        wager * 8750n / 10000n,
+        wager * 7500n / 10000n,
+        wager / 2n
+      ]);
+    });
+
+    it("Should keep the full weight until the cliff on a cliff curve", async function () {
+      expect(await weightsAt(DecayCurve.Cliff, 8000, 5000, [0, 1799, 1800, 3600])).to.deep.equal([
+        wager,
+        wager,
+        wager * 2000n / 10000n,
+        wager * 2000n / 10000n
+      ]);
+    });
+
+    it("Should reject curves without a valid parameter", async function () {
+      for (const [curve, decayParameter] of [[DecayCurve.Exponential, 0], [DecayCurve.Step, 0], [DecayCurve.Cliff, 10001]]) {
+        await expect(
+          createMarket({ vpopContract: vpop, signer: owner, decayCurve: curve, decayParameter })
+        ).to.be.revertedWith("Invalid decay parameter");
+      }
+      // The linear curve ignores the parameter
+      await createMarket({ vpopContract: vpop, signer: owner, decayCurve: DecayCurve.Linear, decayParameter: 123456 });
+    });
+
+    it("Should apply the curve to commits with a permit", async function () {
+      const TestTokenPermitFactory = await ethers.getContractFactory("TestTokenPermit");
+      const token = await TestTokenPermitFactory.deploy();
+      const commitStart = BigInt(await time.latest()) + 100n;
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: owner,
+        token: await token.getAddress(),
+        decayFactor: 10000,
+        decayCurve: DecayCurve.Cliff,
+        decayParameter: 5000,
+        commitStart
+      });
+      await token.mint(otherAccount.address, wager * 2n);
+      const commitWithPermit = async (timestamp: bigint) => {
+        const permit = await signPermit(otherAccount, await token.getAddress(), await vpop.getAddress(), wager, Number(timestamp) + 3600);
+        await time.setNextBlockTimestamp(timestamp);
+        await vpop.connect(otherAccount).commitWithPermit(
+          marketId, ethers.ZeroHash, wager, [], permit.deadline, permit.v, permit.r, permit.s
+        );
+        return (await vpop.marketConsensus(marketId)).totalCommitments;
+      };
+
+      const before = await commitWithPermit(commitStart + 1799n);
+      const after = await commitWithPermit(commitStart + 1800n);
+      expect((await vpop.commitments(marketId, before)).weight).to.equal(wager);
+      // Past a full cliff nothing is left but the minimum weight of 1
+      expect((await vpop.commitments(marketId, after)).weight).to.equal(1n);
+    });
+  });
+
+  describe("Consensus Modes", function () {
+    // Creates a market in the given mode, commits and reveals each position with its wager
+    // and waits for the reveal phase to end
+    const revealedMarket = async (consensusMode: ConsensusMode, trimRate: number, reveals: [bigint, bigint][]) => {
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: owner,
+        lowerBound: 0n,
+        upperBound: 1000n,
+        decayFactor: 0,
+        winningPercentile: 5000,
+        consensusMode,
+        trimRate,
+        ipfsHash: "ipfs://consensus"
+      });
+      const signers = [owner, otherAccount, thirdAccount];
+      const salts = reveals.map(() => randomSalt());
+      for (let i = 0; i < reveals.length; i++) {
+        const [position, wager] = reveals[i];
+        const signer = signers[i % signers.length];
+        const hash = createCommitmentHash(hashDomain, marketId, signer.address, position, wager, salts[i]);
+        await vpop.connect(signer).commit(marketId, hash, wager, [], { value: wager });
+      }
+      await time.increase(3601);
+      for (let i = 0; i < reveals.length; i++) {
+        const [position, wager] = reveals[i];
+        const signer = signers[i % signers.length];
+        const hash = createCommitmentHash(hashDomain, marketId, signer.address, position, wager, salts[i]);
+        await vpop.connect(signer).reveal(marketId, i + 1, hash, position, salts[i]);
+      }
+      await time.increase(3601);
+      return marketId;
+    };
+
+    const consensusModule = async () => VPOPConsensus__factory.connect(await vpop.consensusModule(), owner);
+    const ether = (amount: string) => ethers.parseEther(amount);
+
+    it("Should settle the weighted median without a whale dragging it", async function () {
+      // The whale at the upper bound holds just under half of the weight
+      const marketId = await revealedMarket(ConsensusMode.WeightedMedian, 0, [
+        [100n, ether("1")], [110n, ether("1")], [120n, ether("1")], [1000n, ether("2.9")]
+      ]);
+      const module = await consensusModule();
+
+      await expect(vpop.resolve(marketId, 0)).to.be.revertedWith("Consensus not settled");
+      await expect(module.settle(marketId, 100n, 0, 100)).to.be.revertedWith("Not the weighted median");
+      await expect(module.settle(marketId, 1000n, 0, 100)).to.be.revertedWith("Not the weighted median");
+      await expect(module.settle(marketId, 120n, 0, 100))
+        .to.emit(vpop, "ConsensusSettled").withArgs(marketId, 120n);
+      await expect(module.settle(marketId, 120n, 0, 100)).to.be.revertedWith("Consensus already settled");
+
+      // The weighted mean would have been pulled to 547
+      expect((await vpop.marketConsensus(marketId)).consensusPosition).to.equal(120n);
+      expect(await module.getRevealedDistances(marketId, 0, 10)).to.deep.equal([20n, 10n, 0n, 880n]);
+
+      const threshold = await computeWinningThreshold(vpop, marketId);
+      await vpop.resolve(marketId, threshold);
+      expect(await lens.isWinningPosition(marketId, 110n)).to.be.true;
+      expect(await lens.isWinningPosition(marketId, 1000n)).to.be.false;
+      await expect(vpop.connect(thirdAccount).claim(marketId, 3)).to.not.be.reverted;
+      await expect(vpop.connect(owner).claim(marketId, 4)).to.be.revertedWith("Not a winning position");
+    });
+
+    it("Should settle the trimmed mean of the weight kept between both ends", async function () {
+      // Trimming 20% drops 1 ether from each end: 0 and half of the weight at 200 from the
+      // bottom, 900 from the top
+      const reveals: [bigint, bigint][] = [[0n, ether("0.5")], [200n, ether("1")], [300n, ether("1.5")], [400n, ether("1")], [900n, ether("1")]];
+      const marketId = await revealedMarket(ConsensusMode.TrimmedMean, 2000, reveals);
+      const module = await consensusModule();
+
+      await expect(module.settle(marketId, 0n, 400n, 100)).to.be.revertedWith("Not where the trimmed weight ends");
+      await expect(module.settle(marketId, 200n, 900n, 100)).to.be.revertedWith("Not where the trimmed weight ends");
+      await module.settle(marketId, 200n, 400n, 100);
+
+      // (0.5 * 200 + 1.5 * 300 + 1 * 400) / 3 = 316.67, rounded to the nearest tick
+      const { consensusPosition } = await vpop.marketConsensus(marketId);
+      expect(consensusPosition).to.equal(317n);
+      expect(computeConsensus(ConsensusMode.TrimmedMean, 2000, reveals.map(([position, weight]) => ({ position, weight })), 1n))
+        .to.deep.equal({ consensusPosition, lower: 200n, upper: 400n });
+    });
+
+    it("Should count the weights over several calls", async function () {
+      const marketId = await revealedMarket(ConsensusMode.WeightedMedian, 0, [
+        [10n, ether("1")], [20n, ether("1")], [30n, ether("1")], [40n, ether("1")], [50n, ether("1")]
+      ]);
+      const module = await consensusModule();
+
+      await expect(module.settle(marketId, 30n, 0, 2))
+        .to.emit(module, "ConsensusProgressed").withArgs(marketId, 30n, 0, 2, 5);
+      // A competing proposal keeps its own progress
+      await module.settle(marketId, 40n, 0, 2);
+      await module.settle(marketId, 30n, 0, 2);
+      expect(await vpop.consensusSettled(marketId)).to.be.false;
+      await module.settle(marketId, 30n, 0, 2);
+      expect(await vpop.consensusSettled(marketId)).to.be.true;
+      expect((await vpop.marketConsensus(marketId)).consensusPosition).to.equal(30n);
+    });
+
+    it("Should settle and resolve through the SDK", async function () {
+      const marketId = await revealedMarket(ConsensusMode.TrimmedMean, 1000, [
+        [100n, ether("1")], [150n, ether("1")], [160n, ether("1")], [170n, ether("1")], [990n, ether("1")]
+      ]);
+      // The threshold is computed off-chain before the consensus is settled
+      const threshold = await computeWinningThreshold(vpop, marketId);
+      await new VPOPClient(vpop, owner).resolve(marketId, threshold);
+
+      const consensus = await vpop.marketConsensus(marketId);
+      expect(consensus.resolved).to.be.true;
+      expect(consensus.winningThreshold).to.equal(threshold);
+      expect(await vpop.consensusSettled(marketId)).to.be.true;
+    });
+
+    it("Should only settle robust consensus modes once the market can be resolved", async function () {
+      const module = await consensusModule();
+      const meanMarket = await revealedMarket(ConsensusMode.WeightedMean, 0, [[100n, ether("1")]]);
+      await expect(module.settle(meanMarket, 100n, 0, 100)).to.be.revertedWith("Consensus mode needs no settling");
+
+      const marketId = await createMarket({ vpopContract: vpop, signer: owner, consensusMode: ConsensusMode.WeightedMedian });
+      await vpop.connect(otherAccount).commit(marketId, ethers.ZeroHash, ether("1"), [], { value: ether("1") });
+      await expect(module.settle(marketId, 0, 0, 100)).to.be.revertedWith("Market not ready for resolution");
+
+      await expect(vpop.settleConsensus(marketId, 0)).to.be.revertedWith("Only the consensus module can settle");
+    });
+
+    it("Should reject trim rates of half the weight or more", async function () {
+      await expect(
+        createMarket({ vpopContract: vpop, signer: owner, consensusMode: ConsensusMode.TrimmedMean, trimRate: 5000 })
+      ).to.be.revertedWith("Trim rate must be < 5000 (50%)");
+    });
+  });
+
+  describe("Payout Curves", function () {
+    // Consensus is 500 and the distances are [150, 40, 0, 20, 60, 110], so with a winning
+    // percentile of 50% the threshold is 40 and commitments 2, 3 and 4 win
+    const positions = [350n, 460n, 500n, 520n, 560n, 610n];
+    const wager = ethers.parseEther("1");
+    const winners = [2n, 3n, 4n];
+
+    // Creates a market with the given payout curve, commits and reveals every position and resolves it.
+    // Positions and threshold are the same values in ticks of the market's decimals.
+    const resolvedMarket = async (payoutCurve: PayoutCurve, payoutParameter = 0, decimals = 18) => {
+      const unit = getTickSize(decimals);
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: owner,
+        lowerBound: 0n,
+        upperBound: 1000n * unit,
+        decimals,
+        decayFactor: 0,
+        winningPercentile: 5000,
+        payoutCurve,
+        payoutParameter,
+        ipfsHash: "ipfs://payout"
+      });
+      const signers = [owner, otherAccount, thirdAccount];
+      const salts = positions.map(() => randomSalt());
+      for (let i = 0; i < positions.length; i++) {
+        const signer = signers[i % signers.length];
+        const hash = createCommitmentHash(hashDomain, marketId, signer.address, positions[i] * unit, wager, salts[i]);
+        await vpop.connect(signer).commit(marketId, hash, wager, [], { value: wager });
+      }
+      await time.increase(3601);
+      for (let i = 0; i < positions.length; i++) {
+        const signer = signers[i % signers.length];
+        const hash = createCommitmentHash(hashDomain, marketId, signer.address, positions[i] * unit, wager, salts[i]);
+        await vpop.connect(signer).reveal(marketId, i + 1, hash, positions[i] * unit, salts[i]);
+      }
+      await time.increase(3601);
+      await vpop.resolve(marketId, 40n * unit);
+      return marketId;
+    };
+
+    // Claims every winning commitment and returns what each was paid
+    const claimWinners = async (marketId: bigint) => {
+      const signers = [owner, otherAccount, thirdAccount];
+      const paid: bigint[] = [];
+      for (const commitmentId of winners) {
+        const signer = signers[Number(commitmentId - 1n) % signers.length];
+        const receipt = await (await vpop.connect(signer).claim(marketId, commitmentId)).wait();
+        const claimed = receipt.logs.map((log: any) => vpop.interface.parseLog(log)).find((event: any) => event?.name == "WinningsClaimed");
+        paid.push(claimed.args.amount);
+      }
+      return paid;
+    };
+
+    it("Should split the winnings by payout score", async function () {
+      const cases: [PayoutCurve, number, bigint[]][] = [
+        [PayoutCurve.Binary, 0, [1n, 1n, 1n]],
+        [PayoutCurve.LinearFalloff, 0, [1n, 41n, 21n]],
+        [PayoutCurve.Tiered, 5000, [1n, 2n, 2n]],
+        [PayoutCurve.InverseDistance, 0, [PAYOUT_SCALE, PAYOUT_SCALE * 41n, PAYOUT_SCALE * 41n / 21n]]
+      ];
+      for (const [payoutCurve, payoutParameter, scores] of cases) {
+        const marketId = await resolvedMarket(payoutCurve, payoutParameter);
+        const { totalWinnings, winningScore, winningCommitments } = await vpop.marketConsensus(marketId);
+        expect(winningCommitments).to.equal(3n);
+        expect(winningScore).to.equal(scores.reduce((sum, score) => sum + score * wager, 0n));
+
+        const paid = await claimWinners(marketId);
+        expect(paid).to.deep.equal(scores.map((score) => score * wager * totalWinnings / winningScore));
+        expect(paid).to.deep.equal([40n, 0n, 20n].map((distance) =>
+          getWinnings({ payoutCurve, payoutParameter }, wager, distance, 40n, totalWinnings, winningScore)
+        ));
+
+        // Rounding leaves less dust than there are winners
+        const total = paid.reduce((sum, amount) => sum + amount, 0n);
+        expect(total).to.be.lte(totalWinnings);
+        expect(totalWinnings - total).to.be.lt(3n);
+      }
+    });
+
+    it("Should pay out every curve in markets of whole units", async function () {
+      // Distances of 20 and 40 whole units are 2e19 and 4e19 contract units, far past PAYOUT_SCALE
+      const unit = getTickSize(0);
+      const cases: [PayoutCurve, number][] = [
+        [PayoutCurve.Binary, 0],
+        [PayoutCurve.LinearFalloff, 0],
+        [PayoutCurve.Tiered, 5000],
+        [PayoutCurve.InverseDistance, 0]
+      ];
+      for (const [payoutCurve, payoutParameter] of cases) {
+        const marketId = await resolvedMarket(payoutCurve, payoutParameter, 0);
+        const { totalWinnings, winningScore, winningCommitments } = await vpop.marketConsensus(marketId);
+        expect(winningCommitments).to.equal(3n);
+        expect(winningScore).to.be.gt(0n);
+
+        const paid = await claimWinners(marketId);
+        expect(paid).to.deep.equal([40n, 0n, 20n].map((distance) =>
+          getWinnings({ payoutCurve, payoutParameter }, wager, distance * unit, 40n * unit, totalWinnings, winningScore)
+        ));
+        // The winner on the consensus is paid at least as much as the one at the threshold
+        expect(paid[1]).to.be.gt(0n);
+        expect(paid[1]).to.be.gte(paid[0]);
+        const total = paid.reduce((sum, amount) => sum + amount, 0n);
+        expect(total).to.be.lte(totalWinnings);
+        expect(totalWinnings - total).to.be.lt(3n);
+      }
+    });
+
+    it("Should pay out every curve across the whole range of positions with large wagers", async function () {
+      // A threshold of 2^126 scores 1e18 * (2^126 + 1) at the consensus unless scores are bounded,
+      // which times a wager of 1e22 overflows and leaves the market unresolvable
+      const token = await (await ethers.getContractFactory("TestToken")).deploy();
+      const largeWager = 10n ** 22n;
+      const largePositions = [-(2n ** 126n), 0n, 2n ** 126n];
+      const signers = [owner, otherAccount, thirdAccount];
+      const cases: [PayoutCurve, number][] = [
+        [PayoutCurve.Binary, 0],
+        [PayoutCurve.LinearFalloff, 0],
+        [PayoutCurve.Tiered, 5000],
+        [PayoutCurve.InverseDistance, 0]
+      ];
+      for (const [payoutCurve, payoutParameter] of cases) {
+        const marketId = await createMarket({
+          vpopContract: vpop,
+          signer: owner,
+          token: await token.getAddress(),
+          lowerBound: -(2n ** 127n),
+          upperBound: 2n ** 127n - 1n,
+          decayFactor: 0,
+          winningPercentile: 10000,
+          payoutCurve,
+          payoutParameter
+        });
+        const salts = largePositions.map(() => randomSalt());
+        for (let i = 0; i < largePositions.length; i++) {
+          await token.mint(signers[i].address, largeWager);
+          await token.connect(signers[i]).approve(await vpop.getAddress(), largeWager);
+          const hash = createCommitmentHash(hashDomain, marketId, signers[i].address, largePositions[i], largeWager, salts[i]);
+          await vpop.connect(signers[i]).commit(marketId, hash, largeWager, []);
+        }
+        await time.increase(3601);
+        for (let i = 0; i < largePositions.length; i++) {
+          const hash = createCommitmentHash(hashDomain, marketId, signers[i].address, largePositions[i], largeWager, salts[i]);
+          await vpop.connect(signers[i]).reveal(marketId, i + 1, hash, largePositions[i], salts[i]);
+        }
+        await time.increase(3601);
+        const threshold = await computeWinningThreshold(vpop, marketId);
+        expect(threshold).to.equal(2n ** 126n);
+        await vpop.resolve(marketId, threshold);
+        const { totalWinnings, winningScore, winningCommitments } = await vpop.marketConsensus(marketId);
+        expect(winningCommitments).to.equal(3n);
+
+        const paid: bigint[] = [];
+        for (let i = 0; i < largePositions.length; i++) {
+          const receipt = await (await vpop.connect(signers[i]).claim(marketId, i + 1)).wait();
+          const claimed = receipt.logs.map((log: any) => vpop.interface.parseLog(log)).find((event: any) => event?.name == "WinningsClaimed");
+          paid.push(claimed.args.amount);
+        }
+        expect(paid).to.deep.equal([threshold, 0n, threshold].map((distance) =>
+          getWinnings({ payoutCurve, payoutParameter }, largeWager, distance, threshold, totalWinnings, winningScore)
+        ));
+        expect(paid[1]).to.be.gte(paid[0]);
+        const total = paid.reduce((sum, amount) => sum + amount, 0n);
+        expect(total).to.be.lte(totalWinnings);
+        expect(totalWinnings - total).to.be.lt(3n);
+      }
+    });
+
+    it("Should pay the tiered inner band twice the outer band", async function () {
+      const marketId = await resolvedMarket(PayoutCurve.Tiered, 5000);
+      const [outer, center, inner] = await claimWinners(marketId);
+      expect(center).to.equal(inner);
+      expect(center).to.equal(outer * 2n);
+
+      // A band of 100% of the threshold puts every winner in the inner band
+      const fullBand = await resolvedMarket(PayoutCurve.Tiered, 10000);
+      const paid = await claimWinners(fullBand);
+      expect(new Set(paid).size).to.equal(1);
+    });
+
+    it("Should let winners that wagered nothing claim nothing", async function () {
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: owner,
+        minWager: 0n,
+        decayFactor: 0,
+        winningPercentile: 10000,
+        payoutCurve: PayoutCurve.LinearFalloff
+      });
+      const salt = randomSalt();
+      const hash = createCommitmentHash(hashDomain, marketId, owner.address, 50n, 0n, salt);
+      await vpop.commit(marketId, hash, 0n, []);
+      await vpop.connect(thirdAccount).addWinnings(marketId, wager, { value: wager });
+      await time.increase(3601);
+      await vpop.reveal(marketId, 1, hash, 50n, salt);
+      await time.increase(3601);
+      await vpop.resolve(marketId, 0n);
+
+      // Every winning share is 0, which resolve records as a winning score of 1
+      expect((await vpop.marketConsensus(marketId)).winningScore).to.equal(1n);
+      expect(await lens.getClaimableAmount(marketId, 1)).to.equal(0n);
+      expect(getWinnings({ payoutCurve: PayoutCurve.LinearFalloff, payoutParameter: 0 }, 0n, 0n, 0n, wager, 1n)).to.equal(0n);
+      await expect(vpop.claim(marketId, 1)).to.emit(vpop, "WinningsClaimed").withArgs(marketId, owner.address, owner.address, 1, 0n);
+    });
+
+    it("Should keep the losing positions unpaid", async function () {
+      const marketId = await resolvedMarket(PayoutCurve.LinearFalloff);
+      await expect(vpop.claim(marketId, 1)).to.be.revertedWith("Not a winning position");
+    });
+
+    it("Should reject payout parameters above 100%", async function () {
+      await expect(
+        createMarket({ vpopContract: vpop, signer: owner, payoutCurve: PayoutCurve.Tiered, payoutParameter: 10001 })
+      ).to.be.revertedWith("Payout parameter must be <= 10000 (100%)");
+    });
+  });
+
+  describe("Categorical Markets", function () {
+    // Five options where option 4 gathers the most weight, option 2 the most commitments
+    // and options 1 and 3 none: the weights are [1, 0, 3, 0, 4] and the ranks [2, 3, 1, 4, 0]
+    const reveals: [bigint, bigint][] = [
+      [2n, ethers.parseEther("1")],
+      [4n, ethers.parseEther("2")],
+      [2n, ethers.parseEther("1")],
+      [0n, ethers.parseEther("1")],
+      [4n, ethers.parseEther("2")],
+      [2n, ethers.parseEther("1")]
+    ];
+    const signers = () => [owner, otherAccount, thirdAccount];
+
+    // Creates a categorical market over options 0 to 4, commits and reveals every option
+    // and returns the plurality option after each reveal
+    const revealedMarket = async (winningPercentile: number) => {
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: owner,
+        lowerBound: 0n,
+        upperBound: 4n,
+        decimals: 0,
+        decayFactor: 0,
+        winningPercentile,
+        marketType: MarketType.Categorical,
+        ipfsHash: "ipfs://categorical"
+      });
+      const salts = reveals.map(() => randomSalt());
+      for (let i = 0; i < reveals.length; i++) {
+        const [option, wager] = reveals[i];
+        const signer = signers()[i % 3];
+        const hash = createCommitmentHash(hashDomain, marketId, signer.address, option, wager, salts[i]);
+        await vpop.connect(signer).commit(marketId, hash, wager, [], { value: wager });
+      }
+      await time.increase(3601);
+      const pluralities: bigint[] = [];
+      for (let i = 0; i < reveals.length; i++) {
+        const [option, wager] = reveals[i];
+        const signer = signers()[i % 3];
+        const hash = createCommitmentHash(hashDomain, marketId, signer.address, option, wager, salts[i]);
+        await vpop.connect(signer).reveal(marketId, i + 1, hash, option, salts[i]);
+        pluralities.push((await vpop.marketConsensus(marketId)).consensusPosition);
+      }
+      await time.increase(3601);
+      return { marketId, pluralities };
+    };
+
+    it("Should track the option with the most weight as consensus, breaking ties by the lower index", async function () {
+      const { marketId, pluralities } = await revealedMarket(1);
+      // The third reveal ties options 2 and 4 at two tokens each
+      expect(pluralities).to.deep.equal([2n, 4n, 2n, 2n, 4n, 4n]);
+
+      const consensusModule = VPOPConsensus__factory.connect(await vpop.consensusModule(), owner);
+      const weights = await consensusModule.getOptionWeights(marketId, 5);
+      expect(weights).to.deep.equal([1n, 0n, 3n, 0n, 4n].map((tokens) => tokens * ethers.parseEther("1")));
+      expect(await consensusModule.getOptionRanks(marketId, 5)).to.deep.equal([2n, 3n, 1n, 4n, 0n]);
+      expect(rankOptions(sumOptionWeights(5n, reveals.map(([position, weight]) => ({ position, weight })))))
+        .to.deep.equal([2n, 3n, 1n, 4n, 0n]);
+    });
+
+    it("Should pay only the plurality option at a low winning percentile", async function () {
+      const { marketId } = await revealedMarket(1);
+      const threshold = await computeWinningThreshold(vpop, marketId);
+      expect(threshold).to.equal(0n);
+      await vpop.resolve(marketId, threshold);
+
+      expect((await vpop.marketConsensus(marketId)).winningCommitments).to.equal(2n);
+      expect(await lens.isWinningPosition(marketId, 4n)).to.be.true;
+      expect(await lens.isWinningPosition(marketId, 2n)).to.be.false;
+      await expect(lens.isWinningPosition(marketId, 5n)).to.be.revertedWith("Option out of range");
+      await expect(lens.isWinningPosition(marketId, -1n)).to.be.revertedWith("Option out of range");
+      await expect(vpop.connect(owner).claim(marketId, 1)).to.be.revertedWith("Not a winning position");
+      await expect(vpop.connect(otherAccount).claim(marketId, 2)).to.emit(vpop, "WinningsClaimed");
+    });
+
+    it("Should pay the top options when the winning percentile reaches past the plurality", async function () {
+      // Half of the six commitments is three, which reaches into option 2 ranked second
+      const { marketId } = await revealedMarket(5000);
+      const threshold = await computeWinningThreshold(vpop, marketId);
+      expect(threshold).to.equal(1n);
+      await expect(vpop.resolve(marketId, 0n)).to.be.revertedWith("PWT too low or non-existent rank");
+      await vpop.resolve(marketId, threshold);
+
+      expect((await vpop.marketConsensus(marketId)).winningCommitments).to.equal(5n);
+      expect(await lens.isWinningPosition(marketId, 2n)).to.be.true;
+      expect(await lens.isWinningPosition(marketId, 0n)).to.be.false;
+      await expect(vpop.connect(owner).claim(marketId, 4)).to.be.revertedWith("Not a winning position");
+      await expect(vpop.connect(thirdAccount).claim(marketId, 3)).to.emit(vpop, "WinningsClaimed");
+    });
+
+    it("Should reject options outside the market", async function () {
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: owner,
+        lowerBound: 0n,
+        upperBound: 2n,
+        marketType: MarketType.Categorical
+      });
+      const wager = ethers.parseEther("1");
+      const salt = randomSalt();
+      const hash = createCommitmentHash(hashDomain, marketId, owner.address, 3n, wager, salt);
+      await vpop.commit(marketId, hash, wager, [], { value: wager });
+      await time.increase(3601);
+      await expect(vpop.reveal(marketId, 1, hash, 3n, salt)).to.be.revertedWith("Position out of bounds");
+    });
+
+    it("Should reject invalid categorical markets", async function () {
+      const categorical = { vpopContract: vpop, signer: owner, marketType: MarketType.Categorical };
+      await expect(createMarket({ ...categorical, lowerBound: 1n, upperBound: 4n }))
+        .to.be.revertedWith("Invalid market type bounds");
+      await expect(createMarket({ ...categorical, lowerBound: 0n, upperBound: 32n }))
+        .to.be.revertedWith("Invalid market type bounds");
+      await expect(createMarket({ ...categorical, lowerBound: 0n, upperBound: 4n, consensusMode: ConsensusMode.WeightedMedian }))
+        .to.be.revertedWith("Invalid market type bounds");
+      // The largest market has MAX_OPTIONS options
+      await createMarket({ ...categorical, lowerBound: 0n, upperBound: 31n });
+    });
+
+    it("Should only let VPOP record options", async function () {
+      const consensusModule = VPOPConsensus__factory.connect(await vpop.consensusModule(), owner);
+      await expect(consensusModule.recordOption(1, 0, 1, 0)).to.be.revertedWith("Only VPOP can record options");
+    });
+  });
+
+  describe("Bundle Markets", function () {
+    // Three questions over different ranges; the third commitment sits on the consensus of every
+    // question and the other two a tenth of each range away: consensus [20, 3, 1300]
+    const questions = [
+      { lowerBound: 0n, upperBound: 100n },
+      { lowerBound: 0n, upperBound: 10n },
+      { lowerBound: 1000n, upperBound: 2000n }
+    ];
+    const bundles: [bigint[], bigint][] = [
+      [[10n, 2n, 1200n], ethers.parseEther("1")],
+      [[30n, 4n, 1400n], ethers.parseEther("1")],
+      [[20n, 3n, 1300n], ethers.parseEther("2")]
+    ];
+    const signers = () => [owner, otherAccount, thirdAccount];
+
+    const createBundleMarket = async (winningPercentile = 1) => {
+      const { marketId } = await new VPOPClient(vpop, owner).createBundleMarket({
+        questions,
+        token: ethers.ZeroAddress,
+        minWager: ethers.parseEther("0.1"),
+        decayFactor: 0,
+        commitDuration: 3600,
+        revealDuration: 3600,
+        winningPercentile,
+        creatorFeeRate: 0,
+        ipfsHash: "ipfs://bundle"
+      });
+      return marketId;
+    };
+
+    // Creates a bundle market and commits every bundle, returning the salts once the reveal phase opens
+    const committedMarket = async (winningPercentile = 1) => {
+      const marketId = await createBundleMarket(winningPercentile);
+      const salts = bundles.map(() => randomSalt());
+      for (let i = 0; i < bundles.length; i++) {
+        const [positions, wager] = bundles[i];
+        const signer = signers()[i];
+        const hash = createBundleCommitmentHash(hashDomain, marketId, signer.address, positions, wager, salts[i]);
+        await vpop.connect(signer).commit(marketId, hash, wager, [], { value: wager });
+      }
+      await time.increase(3601);
+      return { marketId, salts };
+    };
+
+    it("Should assign the questions its creator defined", async function () {
+      const consensusModule = VPOPConsensus__factory.connect(await vpop.consensusModule(), owner);
+      const marketId = await createBundleMarket();
+      const market = await vpop.getMarket(marketId);
+      expect(market.marketType).to.equal(MarketType.Bundle);
+      expect(market.upperBound).to.equal(2n);
+      expect((await consensusModule.getBundleQuestions(marketId)).map(([lowerBound, upperBound]) => ({ lowerBound, upperBound })))
+        .to.deep.equal(questions);
+      const [assigned] = await consensusModule.queryFilter(consensusModule.filters.BundleQuestionsAssigned(marketId));
+      expect(assigned.args.questions.map(([lowerBound, upperBound]) => ({ lowerBound, upperBound }))).to.deep.equal(questions);
+
+      // The questions are used up by the market they were assigned to
+      const bundle = { vpopContract: vpop, signer: owner, lowerBound: 0n, upperBound: 2n, marketType: MarketType.Bundle };
+      await expect(createMarket(bundle)).to.be.revertedWith("Bundle questions not defined");
+      await consensusModule.defineQuestions([0, 0], [1, 1]);
+      await expect(createMarket(bundle)).to.be.revertedWith("Bundle questions not defined");
+      await expect(createMarket({ ...bundle, lowerBound: 1n })).to.be.revertedWith("Invalid market type bounds");
+      await expect(createMarket({ ...bundle, consensusMode: ConsensusMode.WeightedMedian }))
+        .to.be.revertedWith("Invalid market type bounds");
+    });
+
+    it("Should reject invalid questions", async function () {
+      const consensusModule = VPOPConsensus__factory.connect(await vpop.consensusModule(), owner);
+      await expect(consensusModule.defineQuestions([0, 0], [1])).to.be.revertedWith("Array lengths must match");
+      await expect(consensusModule.defineQuestions([0], [1])).to.be.revertedWith("Invalid question count");
+      await expect(consensusModule.defineQuestions(Array(33).fill(0), Array(33).fill(1)))
+        .to.be.revertedWith("Invalid question count");
+      await expect(consensusModule.defineQuestions([0, 5], [1, 5])).to.be.revertedWith("Lower bound must be less than upper bound");
+      await expect(consensusModule.assignQuestions(1, owner.address, 2)).to.be.revertedWith("Only VPOP can assign questions");
+    });
+
+    it("Should only reveal bundles through the consensus module", async function () {
+      const consensusModule = VPOPConsensus__factory.connect(await vpop.consensusModule(), owner);
+      const { marketId, salts } = await committedMarket();
+      const [positions, wager] = bundles[0];
+      const hash = createBundleCommitmentHash(hashDomain, marketId, owner.address, positions, wager, salts[0]);
+
+      await expect(vpop.reveal(marketId, 1, hash, 0n, getBundleSalt(positions, salts[0])))
+        .to.be.revertedWith("Bundle reveals need the module");
+      await expect(consensusModule.revealBundle(marketId, 1, hash, positions.slice(1), salts[0]))
+        .to.be.revertedWith("One position per question");
+      await expect(consensusModule.revealBundle(marketId, 1, hash, [10n, 11n, 1200n], salts[0]))
+        .to.be.revertedWith("Position out of bounds");
+      await expect(consensusModule.revealBundle(marketId, 1, hash, [11n, 2n, 1200n], salts[0]))
+        .to.be.revertedWith("Revealed data does not match commitment hash");
+      await expect(consensusModule.revealBundle(1, 1, hash, positions, salts[0])).to.be.revertedWith("Not a bundle market");
+
+      // Revealed by another account, which VPOP logs as the caller rather than the module
+      const tx = await consensusModule.connect(otherAccount).revealBundle(marketId, 1, hash, positions, salts[0]);
+      await expect(tx)
+        .to.emit(consensusModule, "BundleRevealed")
+        .withArgs(marketId, 1, otherAccount.address, positions);
+      await expect(tx)
+        .to.emit(vpop, "CommitmentRevealed")
+        .withArgs(marketId, owner.address, otherAccount.address, 1, hash, 0n, wager, getBundleSalt(positions, salts[0]));
+      expect(await consensusModule.getBundlePositions(marketId, 1)).to.deep.equal(positions);
+      expect((await vpop.commitments(marketId, 1)).position).to.equal(0n);
+    });
+
+    it("Should measure every question from its own consensus and pay the closest bundles", async function () {
+      const consensusModule = VPOPConsensus__factory.connect(await vpop.consensusModule(), owner);
+      const { marketId, salts } = await committedMarket();
+      for (let i = 0; i < bundles.length; i++) {
+        const [positions, wager] = bundles[i];
+        const signer = signers()[i];
+        const hash = createBundleCommitmentHash(hashDomain, marketId, signer.address, positions, wager, salts[i]);
+        // Anyone holding the secret can reveal, as with single positions
+        await consensusModule.revealBundle(marketId, i + 1, hash, positions, salts[i]);
+      }
+
+      const reveals = bundles.map(([positions, weight]) => ({ positions, weight }));
+      const consensus = await consensusModule.getBundleConsensus(marketId);
+      expect(consensus).to.deep.equal([20n, 3n, 1300n]);
+      expect(computeBundleConsensus(questions.length, reveals, 1n)).to.deep.equal(consensus);
+
+      // A tenth of every range away from consensus on each of the three questions
+      const distances = await consensusModule.getRevealedDistances(marketId, 0, 10);
+      expect(distances).to.deep.equal([3000n, 3000n, 0n]);
+      expect(bundles.map(([positions]) => bundleDistance(questions, consensus, positions))).to.deep.equal(distances);
+      expect(await consensusModule.getBundleDistance(marketId, 2)).to.equal(3000n);
+
+      await time.increase(3601);
+      const threshold = await computeWinningThreshold(vpop, marketId);
+      expect(threshold).to.equal(0n);
+      await vpop.resolve(marketId, threshold);
+      expect((await vpop.marketConsensus(marketId)).winningCommitments).to.equal(1n);
+
+      await expect(lens.isWinningPosition(marketId, 0n)).to.be.revertedWith("Bundles score whole commitments");
+      await expect(vpop.connect(owner).claim(marketId, 1)).to.be.revertedWith("Not a winning position");
+      await expect(vpop.connect(thirdAccount).claim(marketId, 3)).to.emit(vpop, "WinningsClaimed");
+    });
+
+    it("Should pay every bundle within the threshold at a higher winning percentile", async function () {
+      const consensusModule = VPOPConsensus__factory.connect(await vpop.consensusModule(), owner);
+      const { marketId, salts } = await committedMarket(5000);
+      for (let i = 0; i < bundles.length; i++) {
+        const [positions, wager] = bundles[i];
+        const hash = createBundleCommitmentHash(hashDomain, marketId, signers()[i].address, positions, wager, salts[i]);
+        await consensusModule.revealBundle(marketId, i + 1, hash, positions, salts[i]);
+      }
+      await time.increase(3601);
+
+      const threshold = await computeWinningThreshold(vpop, marketId);
+      expect(threshold).to.equal(3000n);
+      await expect(vpop.resolve(marketId, 0n)).to.be.revertedWith("PWT too low or non-existent rank");
+      await vpop.resolve(marketId, threshold);
+      expect((await vpop.marketConsensus(marketId)).winningCommitments).to.equal(3n);
+      await expect(vpop.connect(otherAccount).claim(marketId, 2)).to.emit(vpop, "WinningsClaimed");
+    });
+  });
+
+  describe("Signed Positions", function () {
+    // Commits and reveals each position with its wager, one signer after another, and returns
+    // the consensus after the last reveal
+    const revealAll = async (marketId: bigint, reveals: [bigint, bigint][]) => {
+      const signers = [owner, otherAccount, thirdAccount];
+      const salts = reveals.map(() => randomSalt());
+      for (let i = 0; i < reveals.length; i++) {
+        const [position, wager] = reveals[i];
+        const signer = signers[i % signers.length];
+        const hash = createCommitmentHash(hashDomain, marketId, signer.address, position, wager, salts[i]);
+        await vpop.connect(signer).commit(marketId, hash, wager, [], { value: wager });
+      }
+      await time.increase(3601);
+      for (let i = 0; i < reveals.length; i++) {
+        const [position, wager] = reveals[i];
+        const signer = signers[i % signers.length];
+        const hash = createCommitmentHash(hashDomain, marketId, signer.address, position, wager, salts[i]);
+        await vpop.connect(signer).reveal(marketId, i + 1, hash, position, salts[i]);
+      }
+      return (await vpop.marketConsensus(marketId)).consensusPosition;
+    };
+
+    it("Should measure the distance from a consensus below zero across zero", async function () {
+      const marketId = await createMarket({
+        vpopContract: vpop,
+        signer: owner,
+        lowerBound: -500n,
+        upperBound: 500n,
+        decayFactor: 0,
+        winningPercentile: 5000
+      });
+      const reveals: [bigint, bigint][] = [
+        [-125n, ethers.parseEther("1")],
+        [75n, ethers.parseEther("1")],
+        [-30n, ethers.parseEther("2")]
+      ];
+      // (-125 + 75 - 2 * 30) / 4 = -27.5 rounds away from zero
+      const consensusPosition = await revealAll(marketId, reveals);
+      expect(consensusPosition).to.equal(-28n);
+      expect(computeConsensus(ConsensusMode.WeightedMean, 0, reveals.map(([position, weight]) => ({ position, weight })), 1n).consensusPosition)
+        .to.equal(consensusPosition);
+
+      const consensusModule = VPOPConsensus__factory.connect(await vpop.consensusModule(), owner);
+      expect(await consensusModule.getRevealedDistances(marketId, 0, 10)).to.deep.equal([97n, 103n, 2n]);
+
+      await time.increase(3601);
+      const threshold = await computeWinningThreshold(vpop, marketId);
+      expect(threshold).to.equal(97n);
+      await vpop.resolve(marketId, threshold);
+      expect(await lens.isWinningPosition(marketId, -125n)).to.be.true;
+      expect(await lens.isWinningPosition(marketId, 75n)).to.be.false;
+      await expect(vpop.connect(owner).claim(marketId, 1)).to.emit(vpop, "WinningsClaimed");
+      await expect(vpop.connect(otherAccount).claim(marketId, 2)).to.be.revertedWith("Not a winning position");
+    });
+
+    it("Should reject positions outside signed bounds", async function () {
+      const marketId = await createMarket({ vpopContract: vpop, signer: owner, lowerBound: -100n, upperBound: -10n });
+      const wager = ethers.parseEther("1");
+      const salt = randomSalt();
+      const hash = createCommitmentHash(hashDomain, marketId, owner.address, -5n, wager, salt);
+      await vpop.commit(marketId, hash, wager, [], { value: wager });
+      await time.increase(3601);
+      await expect(vpop.reveal(marketId, 1, hash, -5n, salt)).to.be.revertedWith("Position out of bounds");
+      await expect(vpop.reveal(marketId, 1, hash, -101n, salt)).to.be.revertedWith("Position out of bounds");
+      await expect(createMarket({ vpopContract: vpop, signer: owner, lowerBound: 10n, upperBound: -10n }))
+        .to.be.revertedWith("Lower bound must be less than upper bound");
+    });
+
+    it("Should keep positions beyond 64 bits", async function () {
+      const base = 2n ** 80n;
+      const marketId = await createMarket({ vpopContract: vpop, signer: owner, lowerBound: 0n, upperBound: 2n ** 100n, decayFactor: 0 });
+      const consensusPosition = await revealAll(marketId, [[base, ethers.parseEther("1")], [base + 3n, ethers.parseEther("1")]]);
+      // base + 1.5 rounds up to the next tick
+      expect(consensusPosition).to.equal(base + 2n);
+      expect((await vpop.commitments(marketId, 2)).position).to.equal(base + 3n);
+      expect((await vpop.getMarket(marketId)).upperBound).to.equal(2n ** 100n);
+    });
+
+    it("Should round means to the nearest tick, halves away from zero", async function () {
+      const math = VPOPMath__factory.connect(await vpop.math(), owner);
+      const cases: [bigint, bigint, bigint, bigint][] = [
+        [7n, 2n, 1n, 4n], [-7n, 2n, 1n, -4n], [5n, 3n, 1n, 2n], [-5n, 3n, 1n, -2n], [4n, 3n, 1n, 1n], [-4n, 3n, 1n, -1n],
+        [0n, 5n, 1n, 0n], [-6n, 3n, 1n, -2n], [1250n, 1n, 100n, 1300n], [-1250n, 1n, 100n, -1300n], [249n, 2n, 100n, 100n],
+        [-301n, 2n, 100n, -200n], [49n, 1n, 100n, 0n]
+      ];
+      for (const [sum, totalWeight, tick, mean] of cases) {
+        expect(await math.roundedMean(sum, totalWeight, tick)).to.equal(mean, `${sum} / ${totalWeight} to ${tick}`);
+        expect(roundedMean(sum, totalWeight, tick)).to.equal(mean, `${sum} / ${totalWeight} to ${tick}`);
+      }
+    });
+
+    it("Should settle the same reveals on the tick of each market's decimals", async function () {
+      const consensusModule = VPOPConsensus__factory.connect(await vpop.consensusModule(), owner);
+      // A mean of 1.57383..., and a median of 2.5 which rounds away from zero to whole units
+      const reveals: [bigint, bigint][] = [
+        [ethers.parseEther("-1.2345"), ethers.parseEther("1")],
+        [ethers.parseEther("2.5"), ethers.parseEther("1")],
+        [ethers.parseEther("3.456"), ethers.parseEther("1")]
+      ];
+      const cases: [ConsensusMode, number, string][] = [
+        [ConsensusMode.WeightedMean, 2, "1.57"],
+        [ConsensusMode.WeightedMean, 0, "2"],
+        [ConsensusMode.WeightedMedian, 2, "2.5"],
+        [ConsensusMode.WeightedMedian, 0, "3"]
+      ];
+      for (const [consensusMode, decimals, expected] of cases) {
+        const marketId = await createMarket({
+          vpopContract: vpop,
+          signer: owner,
+          lowerBound: ethers.parseEther("-100"),
+          upperBound: ethers.parseEther("100"),
+          decimals,
+          decayFactor: 0,
+          consensusMode
+        });
+        await revealAll(marketId, reveals);
+        const proposal = await computeConsensusProposal(vpop, marketId);
+        if (consensusMode == ConsensusMode.WeightedMedian) {
+          await time.increase(3601);
+          await consensusModule.settle(marketId, proposal.lower, proposal.upper, 100);
+        }
+
+        const { consensusPosition } = await vpop.marketConsensus(marketId);
+        expect(consensusPosition).to.equal(ethers.parseEther(expected), `${decimals} decimals`);
+        expect(proposal.consensusPosition).to.equal(consensusPosition);
+      }
+    });
+
+    it("Should answer bundle questions below zero", async function () {
+      const consensusModule = VPOPConsensus__factory.connect(await vpop.consensusModule(), owner);
+      const questions = [{ lowerBound: -100n, upperBound: 100n }, { lowerBound: -10n, upperBound: 10n }];
+      const { marketId } = await new VPOPClient(vpop, owner).createBundleMarket({
+        questions,
+        minWager: ethers.parseEther("0.1"),
+        decayFactor: 0,
+        commitDuration: 3600,
+        revealDuration: 3600,
+        winningPercentile: 5000,
+        creatorFeeRate: 0,
+        ipfsHash: "ipfs://signed-bundle"
+      });
+      const bundles: [bigint[], bigint][] = [[[-50n, 5n], ethers.parseEther("1")], [[30n, -6n], ethers.parseEther("1")]];
+      const salts = bundles.map(() => randomSalt());
+      const signers = [owner, otherAccount];
+      for (let i = 0; i < bundles.length; i++) {
+        const [positions, wager] = bundles[i];
+        const hash = createBundleCommitmentHash(hashDomain, marketId, signers[i].address, positions, wager, salts[i]);
+        await vpop.connect(signers[i]).commit(marketId, hash, wager, [], { value: wager });
+      }
+      await time.increase(3601);
+      for (let i = 0; i < bundles.length; i++) {
+        const [positions, wager] = bundles[i];
+        const hash = createBundleCommitmentHash(hashDomain, marketId, signers[i].address, positions, wager, salts[i]);
+        await consensusModule.revealBundle(marketId, i + 1, hash, positions, salts[i]);
+      }
+
+      // -10 and -0.5, which rounds away from zero to -1
+      const consensus = await consensusModule.getBundleConsensus(marketId);
+      expect(consensus).to.deep.equal([-10n, -1n]);
+      expect(computeBundleConsensus(questions.length, bundles.map(([positions, weight]) => ({ positions, weight })), 1n))
+        .to.deep.equal(consensus);
+      // 40 of 200 and 6 or 5 of 20
+      expect(await consensusModule.getRevealedDistances(marketId, 0, 10)).to.deep.equal([5000n, 4500n]);
+      expect(bundles.map(([positions]) => bundleDistance(questions, consensus, positions))).to.deep.equal([5000n, 4500n]);
+    });
+  });
+
+  describe("Events", function () {
+    it("Should emit an event for every step of a market's lifecycle", async function () {
+      const marketId = (await vpop.getMarketCount()) + 1n;
+      await expect(
+        vpop.initializeMarket(ethers.ZeroAddress, 0, 1000, 18, ethers.parseEther("0.1"), 0, 0, 0, 0, 3600, 3600, 5000, 0, 0, 0, 0, 0, 0, ethers.ZeroAddress, "ipfs://events")
+      )
+        .to.emit(vpop, "MarketCreated")
+        .withArgs(marketId, owner.address, ethers.ZeroAddress, 0, 1000, 5000);
+
+      const sponsorship = ethers.parseEther("1");
+      await expect(vpop.connect(thirdAccount).addWinnings(marketId, sponsorship, { value: sponsorship }))
+        .to.emit(vpop, "WinningsAdded")
+        .withArgs(marketId, thirdAccount.address, sponsorship, sponsorship);
+
+      const position = 400n;
+      const wager = ethers.parseEther("1");
+      const salt = randomSalt();
+      const commitmentHash = createCommitmentHash(hashDomain, marketId, otherAccount.address, position, wager, salt);
+      await expect(createCommit({ vpopContract: vpop, marketId, signer: otherAccount, position, wager, salt }))
+        .to.emit(vpop, "CommitmentCreated")
+        .withArgs(marketId, otherAccount.address, 1, commitmentHash, wager, wager);
+
+      // A third party reveals, resolves and claims on behalf of the commitment owner
+      await time.increase(3601);
+      await expect(vpop.connect(thirdAccount).reveal(marketId, 1, commitmentHash, position, salt))
+        .to.emit(vpop, "CommitmentRevealed")
+        .withArgs(marketId, otherAccount.address, thirdAccount.address, 1, commitmentHash, position, wager, salt);
+
+      await time.increase(3601);
+      await expect(vpop.connect(thirdAccount).resolve(marketId, 0))
+        .to.emit(vpop, "MarketResolved")
+        .withArgs(marketId, thirdAccount.address, position, 0, wager, 1);
+
+      const { totalWinnings } = await vpop.marketConsensus(marketId);
+      await expect(vpop.connect(thirdAccount).claim(marketId, 1))
+        .to.emit(vpop, "WinningsClaimed")
+        .withArgs(marketId, otherAccount.address, thirdAccount.address, 1, totalWinnings);
+    });
+
+    it("Should emit an event when the whitelist root changes", async function () {
+      const marketId = await createMarket({ vpopContract: vpop, signer: owner, ipfsHash: "ipfs://events-whitelist" });
+      const whitelistRoot = ethers.keccak256(ethers.toUtf8Bytes("whitelist"));
+
+      await expect(vpop.updateWhitelistRoot(marketId, whitelistRoot))
+        .to.emit(vpop, "WhitelistRootUpdated")
+        .withArgs(marketId, whitelistRoot);
+      expect(await vpop.whitelistRoots(marketId)).to.equal(whitelistRoot);
+    });
+  });
+
+  describe("Batch Operations", function () {
+    const errorInterface = new ethers.Interface(["error Error(string)"]);
+    const revertReason = (message: string) => errorInterface.encodeErrorResult("Error", [message]);
+
+    it("Should commit many positions atomically", async function () {
+      const marketId = await createMarket({ vpopContract: vpop, signer: owner, lowerBound: 0n, upperBound: 1000n, ipfsHash: "ipfs://commit-many" });
+      const wagers = [ethers.parseEther("0.1"), ethers.parseEther("0.2"), ethers.parseEther("0.3")];
+      const hashes = wagers.map((wager, i) =>
+        createCommitmentHash(hashDomain, marketId, otherAccount.address, BigInt(100 * (i + 1)), wager, randomSalt())
+      );
+      const total = wagers.reduce((sum, wager) => sum + wager, 0n);
+
+      await expect(
+        vpop.connect(otherAccount).commitMany(marketId, hashes, wagers.slice(1), [], false, { value: total })
+      ).to.be.revertedWith("Array lengths must match");
+      await expect(
+        vpop.connect(otherAccount).commitMany(marketId, hashes, wagers, [], false, { value: total - 1n })
+      ).to.be.revertedWith("Value must equal total wagers");
+
+      // One failing commitment reverts the whole batch
+      const belowMinimum = [wagers[0], 1n, wagers[2]];
+      await expect(
+        vpop.connect(otherAccount).commitMany(marketId, hashes, belowMinimum, [], false, {
+          value: belowMinimum.reduce((sum, wager) => sum + wager, 0n)
+        })
+      ).to.be.revertedWith("Wager below minimum wager");
+
+      const tx = vpop.connect(otherAccount).commitMany(marketId, hashes, wagers, [], false, { value: total });
+      await expect(tx).to.emit(vpop, "CommitmentCreated").withArgs(marketId, otherAccount.address, 3, hashes[2], wagers[2], anyValue);
+      await expect(tx).to.changeEtherBalances([otherAccount, vpop], [-total, total]);
+
+      const consensus = await vpop.marketConsensus(marketId);
+      expect(consensus.totalCommitments).to.equal(3);
+      expect(consensus.totalWagers).to.equal(total);
+      for (let i = 0; i < 3; i++) {
+        const commitment = await vpop.commitments(marketId, i + 1);
+        expect(commitment.owner).to.equal(otherAccount.address);
+        expect(commitment.commitmentHash).to.equal(hashes[i]);
+        expect(commitment.wager).to.equal(wagers[i]);
+      }
+    });
+
+    it("Should skip failing commitments and return their wagers", async function () {
+      const marketId = await createMarket({ vpopContract: vpop, signer: owner, lowerBound: 0n, upperBound: 1000n, ipfsHash: "ipfs://commit-many-skip" });
+      const wagers = [ethers.parseEther("0.1"), 1n, ethers.parseEther("0.3")];
+      const hashes = wagers.map((wager) =>
+        createCommitmentHash(hashDomain, marketId, otherAccount.address, 500n, wager, randomSalt())
+      );
+      const total = wagers.reduce((sum, wager) => sum + wager, 0n);
+
+      const tx = vpop.connect(otherAccount).commitMany(marketId, hashes, wagers, [], true, { value: total });
+      await expect(tx)
+        .to.emit(vpop, "BatchItemFailed")
+        .withArgs(marketId, 1, revertReason("Wager below minimum wager"));
+      // Only the wagers of the created commitments stay in the contract
+      await expect(tx).to.changeEtherBalances([otherAccount, vpop], [-(wagers[0] + wagers[2]), wagers[0] + wagers[2]]);
+
+      const consensus = await vpop.marketConsensus(marketId);
+      expect(consensus.totalCommitments).to.equal(2);
+      expect((await vpop.commitments(marketId, 1)).owner).to.equal(otherAccount.address);
+      expect((await vpop.commitments(marketId, 2)).commitmentHash).to.equal(hashes[2]);
+    });
+
+    it("Should take no ETH when committing many in whitelisted markets", async function () {
+      const marketId = await createMarket({ vpopContract: vpop, signer: owner, lowerBound: 0n, upperBound: 1000n, ipfsHash: "ipfs://commit-many-whitelist" });
+      // A whitelist of one address, whose root is its leaf
+      await vpop.updateWhitelistRoot(marketId, ethers.keccak256(ethers.solidityPacked(["address"], [otherAccount.address])));
+      const wager = ethers.parseEther("0.1");
+      const hash = createCommitmentHash(hashDomain, marketId, otherAccount.address, 500n, 100000n, randomSalt());
+
+      await expect(vpop.connect(otherAccount).commitMany(marketId, [hash], [wager], [], false, { value: wager }))
+        .to.be.revertedWith("Value must equal total wagers");
+      const tx = vpop.connect(otherAccount).commitMany(marketId, [hash], [wager], [], false);
+      await expect(tx).to.emit(vpop, "CommitmentCreated");
+      await expect(tx).to.changeEtherBalances([otherAccount, vpop], [0n, 0n]);
+      expect((await vpop.commitments(marketId, 1)).wager).to.equal(100000n);
+    });
+
+    it("Should reveal many commitments and claim across markets", async function () {
+      const positions = [400n, 600n];
+      const wager = ethers.parseEther("0.5");
+      const marketIds: bigint[] = [];
+      const reveals: { hashes: string[], salts: string[] }[] = [];
+      for (let m = 0; m < 2; m++) {
+        const marketId = await createMarket({
+          vpopContract: vpop,
+          signer: owner,
+          lowerBound: 0n,
+          upperBound: 1000n,
+          decayFactor: 0,
+          ipfsHash: `ipfs://reveal-many-${m}`
+        });
+        const salts = positions.map(() => randomSalt());
+        const hashes = positions.map((position, i) =>
+          createCommitmentHash(hashDomain, marketId, otherAccount.address, position, wager, salts[i])
+        );
+        await vpop.connect(otherAccount).commitMany(marketId, hashes, [wager, wager], [], false, { value: wager * 2n });
+        marketIds.push(marketId);
+        reveals.push({ hashes, salts });
+      }
+
+      await time.increase(3601);
+
+      // A wrong salt on the second commitment is skipped and reported
+      const [first, second] = reveals;
+      await expect(
+        vpop.connect(thirdAccount).revealMany(marketIds[0], [1, 2], first.hashes, positions, [first.salts[0], second.salts[1]], true)
+      )
+        .to.emit(vpop, "BatchItemFailed")
+        .withArgs(marketIds[0], 1, revertReason("Revealed data does not match commitment hash"));
+      expect((await vpop.commitments(marketIds[0], 1)).revealed).to.be.true;
+      expect((await vpop.commitments(marketIds[0], 2)).revealed).to.be.false;
+
+      await expect(
+        vpop.connect(thirdAccount).revealMany(marketIds[1], [1, 2], second.hashes, positions, [second.salts[1], second.salts[0]], false)
+      ).to.be.revertedWith("Revealed data does not match commitment hash");
+      await expect(
+        vpop.connect(thirdAccount).revealMany(marketIds[1], [1, 2], second.hashes, positions, second.salts, false)
+      )
+        .to.emit(vpop, "CommitmentRevealed")
+        .withArgs(marketIds[1], otherAccount.address, thirdAccount.address, 2, second.hashes[1], positions[1], wager, second.salts[1]);
+
+      await time.increase(3601);
+      for (const marketId of marketIds) {
+        await vpop.resolve(marketId, await computeWinningThreshold(vpop, marketId));
+      }
+
+      // Commitment 2 in the first market was never revealed, so it fails and the others pay out
+      const winnings = (await vpop.marketConsensus(marketIds[0])).totalWinnings;
+      const tx = vpop.connect(thirdAccount).claimMany([marketIds[0], marketIds[0], marketIds[1]], [1, 2, 1], true);
+      await expect(tx)
+        .to.emit(vpop, "BatchItemFailed")
+        .withArgs(marketIds[0], 1, revertReason("Commitment not revealed"));
+      await expect(tx)
+        .to.emit(vpop, "WinningsClaimed")
+        .withArgs(marketIds[0], otherAccount.address, thirdAccount.address, 1, winnings);
+      expect((await vpop.commitments(marketIds[1], 1)).claimed).to.be.true;
+
+      await expect(
+        vpop.claimMany([marketIds[1], marketIds[1]], [2, 1], false)
+      ).to.be.revertedWith("Already claimed");
+      expect((await vpop.commitments(marketIds[1], 2)).claimed).to.be.false;
+    });
+
+    it("Should not allow calling the per-item batch entry points directly", async function () {
+      await expect(
+        vpop.commitFor(owner.address, 1, ethers.ZeroHash, 0, [])
+      ).to.be.revertedWith("Only callable by this contract");
+      await expect(
+        vpop.revealFor(owner.address, 1, 1, ethers.ZeroHash, 0, ethers.ZeroHash)
+      ).to.be.revertedWith("Only callable by this contract");
+      await expect(
+        vpop.claimFor(owner.address, 1, 1)
+      ).to.be.revertedWith("Only callable by this contract");
+    });
+  });
 });
 
 